@@ -131,6 +131,7 @@ const wgslContent = document.getElementById("wgsl-content") as HTMLDivElement;
 
 // WebGPU and rendering state
 let wgfx: any = null;
+let compiledCode: string | null = null; // Effect source of the current wgfx instance
 let device: GPUDevice | null = null;
 let inputSource: ImageBitmap | VideoFrame | HTMLVideoElement | null = null;
 let currentVideoElement: HTMLVideoElement | null = null; // Track active video element
@@ -882,10 +883,14 @@ async function initWebGPU(): Promise<boolean> {
         }
     }
 
+    // Enable GPU pass timing when available
+    const requiredFeatures: GPUFeatureName[] = adapter.features.has("timestamp-query") ? ["timestamp-query"] : [];
+
     // Try to create device with maximum limits, fallback to default if needed
     try {
         device = await adapter.requestDevice({
             requiredLimits,
+            requiredFeatures,
         });
     } catch (err) {
         log(`Failed to request max limits: ${err}. Fallback to default.`, "error");
@@ -923,9 +928,15 @@ async function handleFileSelect(e: Event) {
         await loadImageFile(file, url);
     }
 
-    // Re-compile shader to update dimensions and start rendering
-    // Always attempt compile when media changes, as it might be the first input
-    compileShader();
+    // Resize when the effect is unchanged, otherwise re-compile and start rendering
+    // (media changes might bring the first input)
+    if (wgfx && inputSource && compiledCode === editor.getValue()) {
+        const [width, height] = WGFX.sourceSize(inputSource);
+        await wgfx.resize(width, height);
+        log(`Resized to ${width}x${height}`, "info");
+    } else {
+        compileShader();
+    }
 }
 
 /**
@@ -1104,14 +1115,7 @@ async function compileShader() {
     }
 
     const code = editor.getValue();
-    const inputWidth =
-        inputSource instanceof HTMLVideoElement
-            ? inputSource.videoWidth
-            : (inputSource as ImageBitmap).width;
-    const inputHeight =
-        inputSource instanceof HTMLVideoElement
-            ? inputSource.videoHeight
-            : (inputSource as ImageBitmap).height;
+    const [inputWidth, inputHeight] = WGFX.sourceSize(inputSource);
 
     // Use input dimensions for WGFX processing
     const width = inputWidth;
@@ -1124,6 +1128,7 @@ async function compileShader() {
         if (wgfx) {
             wgfx.dispose();
             wgfx = null;
+            compiledCode = null;
         }
 
         // Enable debug mode in WGFX
@@ -1134,8 +1139,12 @@ async function compileShader() {
             effectCode: code,
             width,
             height,
+            autoResize: true,
+            onResize: ({ width, height }: { width: number; height: number }) =>
+                log(`Input size changed to ${width}x${height}`, "info"),
         });
 
+        compiledCode = code;
         const info = wgfx.initialize();
 
         // Set uniforms matching the test shader structure
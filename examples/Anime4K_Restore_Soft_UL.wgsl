@@ -56,57 +56,49 @@ fn Rmp8x8(a: u32) -> uint2 {
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(0) var tex1_sampled: texture_2d<f32>;
-@group(2) @binding(0) var tex1_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(0) var tex1: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(1) var tex2_sampled: texture_2d<f32>;
-@group(2) @binding(1) var tex2_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(1) var tex2: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(2) var tex3_sampled: texture_2d<f32>;
-@group(2) @binding(2) var tex3_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(2) var tex3: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(3) var tex4_sampled: texture_2d<f32>;
-@group(2) @binding(3) var tex4_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(3) var tex4: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(4) var tex5_sampled: texture_2d<f32>;
-@group(2) @binding(4) var tex5_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(4) var tex5: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(5) var tex6_sampled: texture_2d<f32>;
-@group(2) @binding(5) var tex6_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(5) var tex6: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(6) var tex7_sampled: texture_2d<f32>;
-@group(2) @binding(6) var tex7_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(6) var tex7: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(7) var tex8_sampled: texture_2d<f32>;
-@group(2) @binding(7) var tex8_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(7) var tex8: texture_2d<f32>;
 
 //!END TEXTURE
 
@@ -118,7 +110,7 @@ fn Rmp8x8(a: u32) -> uint2 {
 //!PASS 1
 //!DESC Conv-4x3x3x3
 //!IN INPUT
-//!OUT tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged
+//!OUT tex1, tex2, tex3
 //!BLOCK_SIZE 16
 //!NUM_THREADS 64
 
@@ -192,9 +184,9 @@ fn Pass1(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
             target3 = (src[i + 1u][j] * MF3x4(-0.25331625, -0.14193451, 0.04879846, -0.077393495, 0.0104558095, 0.37905747, -0.07880302, -0.09453499, -0.1426901, -0.19738746, -0.28036812, 0.03675319) + target3);
             target3 = (src[i + 1u][j + 1u] * MF3x4(-0.08954212, -0.47161737, -0.12388452, -0.08005436, 0.04682568, 0.048485547, 0.31411946, -0.31375095, -0.22892538, 0.16906887, 0.16802602, 0.18711087) + target3);
 
-            textureStore(tex1_storaged, vec2<i32>(destPos), target1);
-            textureStore(tex2_storaged, vec2<i32>(destPos), target2);
-            textureStore(tex3_storaged, vec2<i32>(destPos), target3);
+            textureStore(tex1, vec2<i32>(destPos), target1);
+            textureStore(tex2, vec2<i32>(destPos), target2);
+            textureStore(tex3, vec2<i32>(destPos), target3);
         }
     }
 }
@@ -202,8 +194,8 @@ fn Pass1(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 
 //!PASS 2
 //!DESC Conv-4x3x3x24
-//!IN tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged
-//!OUT tex4_sampled, tex5_sampled, tex6_sampled, tex4_storaged, tex5_storaged, tex6_storaged
+//!IN tex1, tex2, tex3
+//!OUT tex4, tex5, tex6
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
 
@@ -221,15 +213,15 @@ fn Pass2(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 	// [ a, d, g ]
 	// [ b, e, h ]
 	// [ c, f, i ]
-    var a1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex1_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex1, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na1: MF4 = max(-a1, MF4(0.0));
     let nb1: MF4 = max(-b1, MF4(0.0));
@@ -251,15 +243,15 @@ fn Pass2(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     h1 = max(h1, MF4(0.0));
     i1 = max(i1, MF4(0.0));
 
-    var a2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex2_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex2, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -281,15 +273,15 @@ fn Pass2(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     h2 = max(h2, MF4(0.0));
     i2 = max(i2, MF4(0.0));
 
-    var a3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex3_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex3, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -480,16 +472,16 @@ fn Pass2(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target3 = (nh3 * MF4x4(-0.17315285, 0.061304655, 0.23295666, 0.004587563, 0.025884068, -0.20429865, -0.17807725, 0.04610146, -0.16748384, 0.03548062, 0.36901402, 0.040421892, 0.0732819, -0.06323222, 0.17438933, 0.10541013) + target3);
     target3 = (ni3 * MF4x4(0.11953197, -0.041181084, -0.05777039, -0.0713763, -0.07250408, 0.00030710385, -0.12310962, 0.05047857, 0.07764678, 0.048569802, -0.07179031, -0.13407484, 0.18644087, -0.08796725, 0.09215986, 0.03264275) + target3);
 
-    textureStore(tex4_storaged, vec2<i32>(gxy), target1);
-    textureStore(tex5_storaged, vec2<i32>(gxy), target2);
-    textureStore(tex6_storaged, vec2<i32>(gxy), target3);
+    textureStore(tex4, vec2<i32>(gxy), target1);
+    textureStore(tex5, vec2<i32>(gxy), target2);
+    textureStore(tex6, vec2<i32>(gxy), target3);
 }
 //!END PASS 2
 
 //!PASS 3
 //!DESC Conv-4x3x3x24
-//!IN tex4_sampled, tex5_sampled, tex6_sampled, tex4_storaged, tex5_storaged, tex6_storaged
-//!OUT tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged
+//!IN tex4, tex5, tex6
+//!OUT tex1, tex2, tex3
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -507,15 +499,15 @@ fn Pass3(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 	// [ b, e, h ]
 	// [ c, f, i ]
     // --- Pass 1 (tex4) ---
-    var a1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex4_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex4, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na1: MF4 = max(-a1, MF4(0.0));
     let nb1: MF4 = max(-b1, MF4(0.0));
@@ -539,15 +531,15 @@ fn Pass3(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 
     // --- Pass 2 (tex5) ---
     // FIXED: Changed 'a1 =' to 'var a2: MF4 ='
-    var a2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex5_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex5, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -571,15 +563,15 @@ fn Pass3(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 
     // --- Pass 3 (tex6) ---
     // FIXED: Changed 'a1 =' to 'var a3: MF4 ='
-    var a3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex6_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex6, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -770,16 +762,16 @@ fn Pass3(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target3 = (nh3 * MF4x4(-0.103790514, -0.062080752, -0.04171218, -0.22629078, 0.058754075, 0.010274649, 0.012631916, 0.0884306, 0.10843063, 0.11566254, 0.16639906, -0.05603101, 0.03344291, -0.009285547, 0.22062606, -0.18537858) + target3);
     target3 = (ni3 * MF4x4(-0.010970425, 0.06433602, -0.010908282, 0.21255766, -0.124487005, -0.18626499, 0.017554395, 0.022440141, -0.043080032, 0.13329363, -0.019777333, -0.13920292, -0.057512637, -0.07950961, 0.0008059128, 0.08286962) + target3);
 
-    textureStore(tex1_storaged, vec2<i32>(gxy), target1);
-    textureStore(tex2_storaged, vec2<i32>(gxy), target2);
-    textureStore(tex3_storaged, vec2<i32>(gxy), target3);
+    textureStore(tex1, vec2<i32>(gxy), target1);
+    textureStore(tex2, vec2<i32>(gxy), target2);
+    textureStore(tex3, vec2<i32>(gxy), target3);
 }
 //!END PASS 3
 
 //!PASS 4
 //!DESC Conv-4x3x3x24
-//!IN tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged
-//!OUT tex4_sampled, tex5_sampled, tex6_sampled, tex4_storaged, tex5_storaged, tex6_storaged
+//!IN tex1, tex2, tex3
+//!OUT tex4, tex5, tex6
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -797,15 +789,15 @@ fn Pass4(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 	// [ b, e, h ]
 	// [ c, f, i ]
     // --- Pass 1 (tex1) ---
-    var a1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex1_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex1, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na1: MF4 = max(-a1, MF4(0.0));
     let nb1: MF4 = max(-b1, MF4(0.0));
@@ -830,15 +822,15 @@ fn Pass4(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 
     // --- Pass 2 (tex2) ---
     // FIXED: Changed 'var a1' to 'var a2'
-    var a2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex2_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex2, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -863,15 +855,15 @@ fn Pass4(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 
     // --- Pass 3 (tex3) ---
     // FIXED: Changed 'var a1' to 'var a3'
-    var a3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex3_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex3, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -1062,16 +1054,16 @@ fn Pass4(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target3 = (nh3 * MF4x4(-0.009000505, -0.11456071, 0.0340094, 0.12444861, 0.07345543, -0.1419509, 0.092182405, 0.056249533, 0.063071616, -0.010534381, 0.056680985, 0.025993576, -0.13020347, 0.066157125, 0.0073951716, -0.027919816) + target3);
     target3 = (ni3 * MF4x4(0.11827389, 0.111768976, 0.024734994, -0.008209825, -0.11939657, 0.049890216, -0.14757815, -0.0018939807, -0.108214505, -0.13791578, 0.06980697, -0.035102874, 0.0068360427, 0.15766092, -0.0094464505, 0.02528075) + target3);
 
-    textureStore(tex4_storaged, vec2<i32>(gxy), target1);
-    textureStore(tex5_storaged, vec2<i32>(gxy), target2);
-    textureStore(tex6_storaged, vec2<i32>(gxy), target3);
+    textureStore(tex4, vec2<i32>(gxy), target1);
+    textureStore(tex5, vec2<i32>(gxy), target2);
+    textureStore(tex6, vec2<i32>(gxy), target3);
 }
 //!END PASS 4
 
 //!PASS 5
 //!DESC Conv-4x3x3x24
-//!IN tex4_sampled, tex5_sampled, tex6_sampled, tex4_storaged, tex5_storaged, tex6_storaged
-//!OUT tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged, tex7_sampled, tex7_storaged
+//!IN tex4, tex5, tex6
+//!OUT tex1, tex2, tex3, tex7
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -1088,15 +1080,15 @@ fn Pass5(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // ---------------------------------------------------------
     // GROUP 1: Texture 4 (處理 tex4 -> a1, b1... -> na1)
     // ---------------------------------------------------------
-    var a1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex4_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex4, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     // 計算負值部分 (Negative Rectification)
     let na1: MF4 = max(-a1, MF4(0.0));
@@ -1125,15 +1117,15 @@ fn Pass5(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 2: Texture 5 (處理 tex5 -> a2, b2... -> na2)
     // ---------------------------------------------------------
     // [修正] 變數名稱改為 a2, b2... (原本寫成 a1)
-    var a2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex5_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex5, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -1160,15 +1152,15 @@ fn Pass5(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 3: Texture 6 (處理 tex6 -> a3, b3... -> na3)
     // ---------------------------------------------------------
     // [修正] 變數名稱改為 a3, b3... (原本寫成 a1)
-    var a3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex6_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex6, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -1366,18 +1358,18 @@ fn Pass5(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target4 = (MF3x4(0.14758188, -0.052864034, -0.06617946, -0.025215192, 0.005785653, 0.02022865, -0.07359226, -0.034944568, -0.01911832, -0.059109453, 0.0018033485, -0.022261323) * ne2 + target4);
     target4 = (MF3x4(0.079963796, 0.018210623, -0.0025736517, 0.06693135, -0.038985185, -0.04726813, -0.03559407, -0.0083629545, -0.005753532, 0.043954816, -0.022223696, -0.039470144) * ne3 + target4);
 
-    textureStore(tex1_storaged, vec2<i32>(gxy), target1);
-    textureStore(tex2_storaged, vec2<i32>(gxy), target2);
-    textureStore(tex3_storaged, vec2<i32>(gxy), target3);
-    textureStore(tex7_storaged, vec2<i32>(gxy), MF4(target4, 1.0));
+    textureStore(tex1, vec2<i32>(gxy), target1);
+    textureStore(tex2, vec2<i32>(gxy), target2);
+    textureStore(tex3, vec2<i32>(gxy), target3);
+    textureStore(tex7, vec2<i32>(gxy), MF4(target4, 1.0));
 }
 //!END PASS 5
 
 
 //!PASS 6
 //!DESC Conv-4x3x3x24
-//!IN tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged, tex7_sampled, tex7_storaged
-//!OUT tex4_sampled, tex5_sampled, tex6_sampled, tex4_storaged, tex5_storaged, tex6_storaged, tex8_sampled, tex8_storaged
+//!IN tex1, tex2, tex3, tex7
+//!OUT tex4, tex5, tex6, tex8
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -1397,15 +1389,15 @@ fn Pass6(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // ---------------------------------------------------------
     // GROUP 1: Texture 1 (處理 tex1 -> a1... -> na1)
     // ---------------------------------------------------------
-    var a1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex1_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex1, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     // 計算負值部分
     let na1: MF4 = max(-a1, MF4(0.0));
@@ -1433,15 +1425,15 @@ fn Pass6(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 2: Texture 2 (處理 tex2 -> a2... -> na2)
     // ---------------------------------------------------------
     // [修正：變數名稱改為 a2, b2...]
-    var a2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex2_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex2, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -1468,15 +1460,15 @@ fn Pass6(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 3: Texture 3 (處理 tex3 -> a3... -> na3)
     // ---------------------------------------------------------
     // [修正：變數名稱改為 a3, b3...]
-    var a3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex3_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex3, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -1667,7 +1659,7 @@ fn Pass6(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target3 = (nh3 * MF4x4(-0.07171402, 0.053826947, 0.1817855, 0.15776771, 0.020122573, 0.014001945, 0.107657574, 0.06755519, -0.16229364, 0.025698826, 0.19443901, -0.18386869, -0.112747826, 0.19832937, 0.032073986, 0.07755969) + target3);
     target3 = (ni3 * MF4x4(-0.0017903978, 0.017006857, -0.154056, -0.12544118, -0.17143774, 0.11694203, 0.046639796, -0.13699242, 0.1032892, -0.16337542, 0.20032221, 0.30423567, -0.09217524, 0.03736137, 0.06391171, 0.18111771) + target3);
 
-    var target4: MF3 = textureSampleLevel(tex7_sampled, sam, pos, 0.0).rgb;
+    var target4: MF3 = textureSampleLevel(tex7, sam, pos, 0.0).rgb;
     target4 = (MF3x4(0.060458526, -0.0033674864, -0.006985535, -0.013925546, 0.051077038, 0.053856038, -0.033647064, 0.043235198, 0.05311577, 0.0391791, -0.044376004, -0.054064214) * e1 + target4);
     target4 = (MF3x4(0.0069859014, -0.0050665336, -0.010343517, -0.027551029, 0.049856182, 0.058316905, 0.0121670095, -0.013107907, -0.0151846, 0.007648614, -0.0051277154, -0.0053846613) * e2 + target4);
     target4 = (MF3x4(0.06848036, 0.026777437, 0.024801696, -0.08711668, 0.049429595, 0.067019165, -0.09006778, -0.042166695, -0.02230536, -0.048024856, -0.020088708, -0.009932858) * e3 + target4);
@@ -1675,17 +1667,17 @@ fn Pass6(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target4 = (MF3x4(-0.0031128856, 0.013134638, 0.021534251, 0.049189907, -0.039677586, -0.057255603, -0.009908353, -0.0013683038, 0.0028079485, 0.0002268831, 0.012356764, 0.009817244) * ne2 + target4);
     target4 = (MF3x4(-0.04058634, -0.01822148, -0.014306331, 0.107378654, -0.04138371, -0.058573496, 0.03701269, -0.009420217, -0.02310707, 0.039931968, 0.001769326, -0.007929419) * ne3 + target4);
 
-    textureStore(tex4_storaged, vec2<i32>(gxy), target1);
-    textureStore(tex5_storaged, vec2<i32>(gxy), target2);
-    textureStore(tex6_storaged, vec2<i32>(gxy), target3);
-    textureStore(tex8_storaged, vec2<i32>(gxy), MF4(target4, 1.0));
+    textureStore(tex4, vec2<i32>(gxy), target1);
+    textureStore(tex5, vec2<i32>(gxy), target2);
+    textureStore(tex6, vec2<i32>(gxy), target3);
+    textureStore(tex8, vec2<i32>(gxy), MF4(target4, 1.0));
 }
 //!END PASS 6
 
 //!PASS 7
 //!DESC Conv-4x3x3x24
-//!IN tex4_sampled, tex5_sampled, tex6_sampled, tex4_storaged, tex5_storaged, tex6_storaged, tex8_sampled, tex8_storaged
-//!OUT tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged, tex7_sampled, tex7_storaged
+//!IN tex4, tex5, tex6, tex8
+//!OUT tex1, tex2, tex3, tex7
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -1705,15 +1697,15 @@ fn Pass7(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // =========================================================
     // GROUP 1: Texture 4 (處理 tex4 -> a1, b1...)
     // =========================================================
-    var a1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex4_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex4_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex4, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex4, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na1: MF4 = max(-a1, MF4(0.0));
     let nb1: MF4 = max(-b1, MF4(0.0));
@@ -1740,15 +1732,15 @@ fn Pass7(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 2: Texture 5 (處理 tex5 -> a2, b2...)
     // =========================================================
     // [修正] 變數名稱改為 a2, b2... (原本誤寫為 a1)
-    var a2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex5_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex5_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex5, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex5, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -1775,15 +1767,15 @@ fn Pass7(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 3: Texture 6 (處理 tex6 -> a3, b3...)
     // =========================================================
     // [修正] 變數名稱改為 a3, b3... (原本誤寫為 a1)
-    var a3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex6_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex6_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex6, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex6, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -1974,7 +1966,7 @@ fn Pass7(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target3 = (nh3 * MF4x4(-0.27078578, -0.08153653, 0.1757881, 0.11317136, 0.27882257, -0.24042514, -0.08648888, -0.045675088, -0.10128582, -0.04766186, 0.06836051, 0.15924035, 0.04440567, -0.099891834, -0.08893405, 0.05721548) + target3);
     target3 = (ni3 * MF4x4(0.15327021, 0.13603994, 0.17330587, 0.05625383, -0.11157126, -0.08179826, 0.05035325, -0.012668053, 0.04673393, 0.29881957, 0.019924281, -0.06682304, -0.034375366, -0.11446407, 0.055847015, 0.104117975) + target3);
 
-    var target4: MF3 = textureSampleLevel(tex8_sampled, sam, pos, 0.0).rgb;
+    var target4: MF3 = textureSampleLevel(tex8, sam, pos, 0.0).rgb;
     target4 = (MF3x4(0.027129134, 0.01044246, 0.008198051, -0.019978391, 0.014817045, 0.014294805, -0.009071333, -0.018233696, -0.020756468, -0.016967475, -0.010472854, -0.0066578956) * e1 + target4);
     target4 = (MF3x4(0.012473992, -0.019771596, -0.02515739, -0.008238026, 0.026189122, 0.034326296, 0.01735337, -0.021417223, -0.027291182, 0.01815212, -0.012736875, -0.021111157) * e2 + target4);
     target4 = (MF3x4(0.022218483, -0.023485998, -0.03540812, 0.016531168, -0.0033816632, -0.010179393, -0.03181473, -0.0072774286, 0.0014077872, -0.0025735856, -0.015998563, -0.016743565) * e3 + target4);
@@ -1982,16 +1974,16 @@ fn Pass7(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target4 = (MF3x4(-0.0043926076, 0.019400991, 0.022581568, 0.003538965, -0.031301565, -0.0345112, -0.02405352, 0.006159623, 0.016130725, -0.0097925, 0.01677507, 0.027652735) * ne2 + target4);
     target4 = (MF3x4(-0.03267886, 0.014923966, 0.027258545, -0.033668566, -0.010421195, -0.0026646685, 0.015094835, -0.0023233194, -0.015871005, -0.01258443, 0.00507582, 0.0053544766) * ne3 + target4);
 
-    textureStore(tex1_storaged, vec2<i32>(gxy), target1);
-    textureStore(tex2_storaged, vec2<i32>(gxy), target2);
-    textureStore(tex3_storaged, vec2<i32>(gxy), target3);
-    textureStore(tex7_storaged, vec2<i32>(gxy), MF4(target4, 1.0));
+    textureStore(tex1, vec2<i32>(gxy), target1);
+    textureStore(tex2, vec2<i32>(gxy), target2);
+    textureStore(tex3, vec2<i32>(gxy), target3);
+    textureStore(tex7, vec2<i32>(gxy), MF4(target4, 1.0));
 }
 //!END PASS 7
 
 //!PASS 8
 //!DESC Conv-4x3x3x24, Conv-3x1x1x120
-//!IN INPUT, tex1_sampled, tex2_sampled, tex3_sampled, tex1_storaged, tex2_storaged, tex3_storaged, tex7_sampled, tex7_storaged
+//!IN INPUT, tex1, tex2, tex3, tex7
 //!OUT OUTPUT
 //!BLOCK_SIZE 8
 //!NUM_THREADS 64
@@ -2009,15 +2001,15 @@ fn Pass8(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
 // =========================================================
     // GROUP 1: Texture 1 (處理 tex1 -> a1, b1... -> na1)
     // =========================================================
-    var a1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e1: MF4 = textureSampleLevel(tex1_sampled, sam, pos, 0.0);
-    var f1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i1: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e1: MF4 = textureSampleLevel(tex1, sam, pos, 0.0);
+    var f1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i1: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na1: MF4 = max(-a1, MF4(0.0));
     let nb1: MF4 = max(-b1, MF4(0.0));
@@ -2044,15 +2036,15 @@ fn Pass8(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 2: Texture 2 (處理 tex2 -> a2, b2... -> na2)
     // =========================================================
     // [修正] 變數名稱改為 a2, b2... (原本誤寫為 a1)
-    var a2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e2: MF4 = textureSampleLevel(tex2_sampled, sam, pos, 0.0);
-    var f2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i2: MF4 = textureSampleLevel(tex2_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e2: MF4 = textureSampleLevel(tex2, sam, pos, 0.0);
+    var f2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i2: MF4 = textureSampleLevel(tex2, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na2: MF4 = max(-a2, MF4(0.0));
     let nb2: MF4 = max(-b2, MF4(0.0));
@@ -2079,15 +2071,15 @@ fn Pass8(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     // GROUP 3: Texture 3 (處理 tex3 -> a3, b3... -> na3)
     // =========================================================
     // [修正] 變數名稱改為 a3, b3... (原本誤寫為 a1)
-    var a3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
-    var b3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e3: MF4 = textureSampleLevel(tex3_sampled, sam, pos, 0.0);
-    var f3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i3: MF4 = textureSampleLevel(tex3_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, -inputPt.y), 0.0);
+    var b3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e3: MF4 = textureSampleLevel(tex3, sam, pos, 0.0);
+    var f3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i3: MF4 = textureSampleLevel(tex3, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
     let na3: MF4 = max(-a3, MF4(0.0));
     let nb3: MF4 = max(-b3, MF4(0.0));
@@ -2279,7 +2271,7 @@ fn Pass8(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     target3 = (ni3 * MF4x4(0.009482551, 0.12501961, 0.38921976, -0.1280031, -0.103060484, -0.027821409, 0.0720024, -0.027280543, 0.056729473, 0.048927493, -0.035154913, -0.08341783, 0.23103711, 0.046025522, 0.17039533, -0.014161812) + target3);
 
     // 最後的組合步驟
-    var result: MF3 = textureSampleLevel(tex7_sampled, sam, pos, 0.0).rgb;
+    var result: MF3 = textureSampleLevel(tex7, sam, pos, 0.0).rgb;
     result = (MF3x4(0.012708346, 0.014336439, 0.012533707, -0.0019346073, -0.0070978077, -0.009478742, -0.011659758, -0.009855903, -0.008657096, 0.0098037105, 0.010785594, 0.008409619) * e1 + result);
     result = (MF3x4(0.0056228717, 0.013483413, 0.008108323, -0.0013697809, 0.0026797573, 0.0037666177, 0.0130932415, 0.019868238, 0.01968549, 0.011160769, 0.012374028, 0.012855804) * e2 + result);
     result = (MF3x4(0.0011662204, 0.00025071716, 0.0022244148, -0.017808594, -0.013589306, -0.01396329, -0.008117086, -0.0068251803, -0.004963602, -0.0069141523, -0.009125296, -0.008327947) * e3 + result);
@@ -4,6 +4,8 @@
 // MAGPIE EFFECT
 //!VERSION 4
 //!SORT_NAME Anime4K_Upscale_Denoise_3
+//!OUTPUT_WIDTH INPUT_WIDTH * 2
+//!OUTPUT_HEIGHT INPUT_HEIGHT * 2
 //!USE MulAdd
 //!CAPABILITY FP16
 
@@ -153,15 +155,15 @@ fn A4KS4(pos: MF2) -> MF4 {
 	// [ a, d, g ]
 	// [ b, e, h ]
 	// [ c, f, i ]
-    var a: MF4 = textureSampleLevel(tex1_sampled, sam, pos + -inputPt, 0.0);
-    var b: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
-    var c: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
-    var d: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, -inputPt.y), 0.0);
-    var e: MF4 = textureSampleLevel(tex1_sampled, sam, pos, 0.0);
-    var f: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(0.0, inputPt.y), 0.0);
-    var g: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
-    var h: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, 0.0), 0.0);
-    var i: MF4 = textureSampleLevel(tex1_sampled, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
+    var a: MF4 = textureSampleLevel(tex1, sam, pos + -inputPt, 0.0);
+    var b: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, 0.0), 0.0);
+    var c: MF4 = textureSampleLevel(tex1, sam, pos + MF2(-inputPt.x, inputPt.y), 0.0);
+    var d: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, -inputPt.y), 0.0);
+    var e: MF4 = textureSampleLevel(tex1, sam, pos, 0.0);
+    var f: MF4 = textureSampleLevel(tex1, sam, pos + MF2(0.0, inputPt.y), 0.0);
+    var g: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, -inputPt.y), 0.0);
+    var h: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, 0.0), 0.0);
+    var i: MF4 = textureSampleLevel(tex1, sam, pos + MF2(inputPt.x, inputPt.y), 0.0);
 
 
     var result = MF4(-0.0031417734, -0.002754766, -0.004053268, -0.003937834);
@@ -196,23 +198,21 @@ fn A4KS4(pos: MF2) -> MF4 {
 @group(0) @binding(0) var INPUT: texture_2d<f32>;
 
 //!TEXTURE
-//!WIDTH INPUT_WIDTH
-//!HEIGHT INPUT_HEIGHT
+//!WIDTH INPUT_WIDTH * 2
+//!HEIGHT INPUT_HEIGHT * 2
 @group(0) @binding(1) var OUTPUT: texture_storage_2d<rgba16float, write>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(0) var tex1_sampled: texture_2d<f32>;
-@group(2) @binding(0) var tex1_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(0) var tex1: texture_2d<f32>;
 
 //!TEXTURE
 //!WIDTH INPUT_WIDTH
 //!HEIGHT INPUT_HEIGHT
 //!FORMAT R16G16B16A16_FLOAT
-@group(1) @binding(1) var tex2_sampled: texture_2d<f32>;
-@group(2) @binding(1) var tex2_storaged: texture_storage_2d<rgba16float, read_write>;
+@group(1) @binding(1) var tex2: texture_2d<f32>;
 
 //!SAMPLER
 //!FILTER POINT
@@ -226,7 +226,7 @@ fn A4KS4(pos: MF2) -> MF4 {
 //!PASS 1
 //!DESC Conv-4x3x3x3
 //!IN INPUT
-//!OUT tex1_storaged
+//!OUT tex1
 //!BLOCK_SIZE 16
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -256,19 +256,19 @@ fn Pass1(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
         }
     }
 
-    textureStore(tex1_storaged, int2(gxy), A4KS1(src, 1i, 1i));
+    textureStore(tex1, int2(gxy), A4KS1(src, 1i, 1i));
     gxy.x += 1u;
-    textureStore(tex1_storaged, int2(gxy), A4KS1(src, 2i, 1i));
+    textureStore(tex1, int2(gxy), A4KS1(src, 2i, 1i));
     gxy.y += 1u;
-    textureStore(tex1_storaged, int2(gxy), A4KS1(src, 2i, 2i));
+    textureStore(tex1, int2(gxy), A4KS1(src, 2i, 2i));
     gxy.x -= 1u;
-    textureStore(tex1_storaged, int2(gxy), A4KS1(src, 1i, 2i));
+    textureStore(tex1, int2(gxy), A4KS1(src, 1i, 2i));
 }
 
 //!PASS 2
 //!DESC Conv-4x3x3x8
-//!IN tex1_sampled
-//!OUT tex2_storaged
+//!IN tex1
+//!OUT tex2
 //!BLOCK_SIZE 16
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -285,9 +285,9 @@ fn Pass2(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     for (var i: u32 = 0u; i <= 2u; i += 2u) {
         for (var j: u32 = 0u; j <= 2u; j += 2u) {
             let tpos: MF2 = MF2(gxy + uint2(i, j)) * inputPt;
-            let sr: MF4 = textureGather(0, tex1_sampled, sam, tpos);
-            let sg: MF4 = textureGather(1, tex1_sampled, sam, tpos);
-            let sb: MF4 = textureGather(2, tex1_sampled, sam, tpos);
+            let sr: MF4 = textureGather(0, tex1, sam, tpos);
+            let sg: MF4 = textureGather(1, tex1, sam, tpos);
+            let sb: MF4 = textureGather(2, tex1, sam, tpos);
 
             // w z -> x z
 		    // x y -> y w
@@ -299,19 +299,19 @@ fn Pass2(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     }
     // 4. 計算並輸出至 tex2
     // A4KS2(src, x, y)
-    textureStore(tex2_storaged, int2(gxy), A4KS2(src, 1i, 1i));
+    textureStore(tex2, int2(gxy), A4KS2(src, 1i, 1i));
     gxy.x = gxy.x + 1u;
-    textureStore(tex2_storaged, int2(gxy), A4KS2(src, 2i, 1i));
+    textureStore(tex2, int2(gxy), A4KS2(src, 2i, 1i));
     gxy.y = gxy.y + 1u;
-    textureStore(tex2_storaged, int2(gxy), A4KS2(src, 2i, 2i));
+    textureStore(tex2, int2(gxy), A4KS2(src, 2i, 2i));
     gxy.x = gxy.x - 1u;
-    textureStore(tex2_storaged, int2(gxy), A4KS2(src, 1i, 2i));
+    textureStore(tex2, int2(gxy), A4KS2(src, 1i, 2i));
 }
 
 //!PASS 3
 //!DESC Conv-4x3x3x8
-//!IN tex2_sampled
-//!OUT tex1_storaged
+//!IN tex2
+//!OUT tex1
 //!BLOCK_SIZE 16
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
@@ -325,12 +325,13 @@ fn Pass3(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
     let inputPt = GetInputPt();
 
     var src: array<array<MF4, 4>, 4>;
+    // 讀取 //!IN 宣告的 tex2 (Pass 2 的輸出)；舊版誤讀本通道正在寫入的 tex1
     for (var i: u32 = 0u; i <= 2u; i += 2u) {
         for (var j: u32 = 0u; j <= 2u; j += 2u) {
             let tpos: MF2 = MF2(gxy + uint2(i, j)) * inputPt;
-            let sr: MF4 = textureGather(0, tex1_sampled, sam, tpos);
-            let sg: MF4 = textureGather(1, tex1_sampled, sam, tpos);
-            let sb: MF4 = textureGather(2, tex1_sampled, sam, tpos);
+            let sr: MF4 = textureGather(0, tex2, sam, tpos);
+            let sg: MF4 = textureGather(1, tex2, sam, tpos);
+            let sb: MF4 = textureGather(2, tex2, sam, tpos);
 
             // w z -> x z
 		    // x y -> y w
@@ -341,32 +342,33 @@ fn Pass3(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_i
         }
     }
 
-    textureStore(tex1_storaged, int2(gxy), A4KS2(src, 1i, 1i));
+    textureStore(tex1, int2(gxy), A4KS2(src, 1i, 1i));
     gxy.x = gxy.x + 1u;
-    textureStore(tex1_storaged, int2(gxy), A4KS2(src, 2i, 1i));
+    textureStore(tex1, int2(gxy), A4KS2(src, 2i, 1i));
     gxy.y = gxy.y + 1u;
-    textureStore(tex1_storaged, int2(gxy), A4KS2(src, 2i, 2i));
+    textureStore(tex1, int2(gxy), A4KS2(src, 2i, 2i));
     gxy.x = gxy.x - 1u;
-    textureStore(tex1_storaged, int2(gxy), A4KS2(src, 1i, 2i));
+    textureStore(tex1, int2(gxy), A4KS2(src, 1i, 2i));
 }
 //!PASS 4
 //!DESC Conv-4x3x3x8, Depth-to-Space
-//!IN INPUT, tex1_storaged
+//!IN INPUT, tex1
 //!OUT OUTPUT
 //!BLOCK_SIZE 16
 //!NUM_THREADS 64
 @compute @workgroup_size(64, 1, 1)
 fn Pass4(@builtin(workgroup_id) workgroup_id: uint3, @builtin(local_invocation_id) local_id: uint3) {
     var gxy: uint2 = (Rmp8x8(local_id.x) << uint2(1u)) + (workgroup_id.xy * 16u);
-    let inputSize = GetInputSize();
-    if gxy.x >= inputSize.x || gxy.y >= inputSize.y {
+    let outputSize = GetOutputSize();
+    if gxy.x >= outputSize.x || gxy.y >= outputSize.y {
         return;
     }
 
     let inputPt = GetInputPt();
     let outputPt = GetOutputPt();
 
-    var pos: MF2 = (MF2(gxy) + MF2(0.5, 0.5)) * inputPt;
+    // Each 2x2 output block comes from one input pixel / 每個 2x2 輸出區塊對應一個輸入像素
+    var pos: MF2 = (MF2(gxy >> uint2(1u)) + MF2(0.5, 0.5)) * inputPt;
     let c: MF4 = A4KS4(pos);
 
     pos -= MF2(0.5) * outputPt;
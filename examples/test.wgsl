@@ -9,23 +9,16 @@
 //! STEP 0.01
 float InvertAmount;
 
-//! TEXTURE INPUT
-Texture2D INPUT;
+//! TEXTURE
+var INPUT: texture_2d<f32>;
 
-//! TEXTURE OUTPUT
-Texture2D OUTPUT;
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
 
-//! SAMPLER LinearSampler
+//! SAMPLER
 //! FILTER LINEAR
 //! ADDRESS CLAMP
-SamplerState LinearSampler;
-
-//! COMMON
-struct Constants {
-    input_size: vec2<f32>,
-    output_size: vec2<f32>,
-};
-@group(0) @binding(0) var<uniform> constants: Constants;
+var LinearSampler: sampler;
 
 //! PASS 1
 //! IN INPUT
@@ -35,14 +28,15 @@ struct Constants {
 //! DESC "A simple color inversion effect."
 
 @compute @workgroup_size(8, 8, 1)
-fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
-    let tex_coords = vec2<f32>(global_id.xy) / constants.output_size;
-    let original_color = textureSample(INPUT, LinearSampler, tex_coords);
+fn Pass1(@builtin(global_invocation_id) global_id: vec3<u32>) {
+    if (global_id.x >= scene.outputSize.x || global_id.y >= scene.outputSize.y) {
+        return;
+    }
+    let tex_coords = (vec2<f32>(global_id.xy) + 0.5) * scene.outputPt;
+    let original_color = textureSampleLevel(INPUT, LinearSampler, tex_coords, 0.0);
     let inverted_color = vec4<f32>(
-        mix(original_color.r, 1.0 - original_color.r, InvertAmount),
-        mix(original_color.g, 1.0 - original_color.g, InvertAmount),
-        mix(original_color.b, 1.0 - original_color.b, InvertAmount),
+        mix(original_color.rgb, 1.0 - original_color.rgb, InvertAmount),
         original_color.a
     );
     textureStore(OUTPUT, global_id.xy, inverted_color);
-}
\ No newline at end of file
+}
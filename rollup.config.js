@@ -4,6 +4,9 @@ import peggy from 'rollup-plugin-peggy';
 import polyfillNode from 'rollup-plugin-polyfill-node';
 import typescript from 'rollup-plugin-typescript2';
 
+// rollup-plugin-typescript2's default include globs ("**/*.ts+(|x)") match nothing with the installed picomatch
+const TS_FILES = ['**/*.ts'];
+
 export default [
     // Browser bundle (ESM)
     {
@@ -11,7 +14,9 @@ export default [
         output: {
             file: 'dist/wgfx.browser.esm.js',
             format: 'es',
-            sourcemap: true
+            sourcemap: true,
+            // IncludeLoader imports fs/path lazily; keep them in this single file
+            inlineDynamicImports: true
         },
         plugins: [
             resolve({
@@ -24,6 +29,7 @@ export default [
                 // Peggy options
             }),
             typescript({
+                include: TS_FILES,
                 compilerOptions: { target: "esnext" }
             })
         ]
@@ -35,7 +41,8 @@ export default [
             name: 'WGFX',
             file: 'dist/wgfx.browser.umd.js',
             format: 'umd',
-            sourcemap: true
+            sourcemap: true,
+            inlineDynamicImports: true
         },
         plugins: [
             resolve({
@@ -46,6 +53,7 @@ export default [
             polyfillNode(),
             peggy(),
             typescript({
+                include: TS_FILES,
                 compilerOptions: { target: "es5" }
             })
         ]
@@ -69,7 +77,7 @@ export default [
             resolve(),
             commonjs(),
             peggy(),
-            typescript()
+            typescript({ include: TS_FILES })
         ],
         external: ['webgpu', 'fs', 'path']
     }
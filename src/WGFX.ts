@@ -1,5 +1,11 @@
-import { WGFXShaderInfo, ParameterInfo } from './types/shader';
+import { WGFXShaderInfo, ParameterInfo, EffectMetadata, IncludeResolver } from './types/shader';
 import { WGFXRuntime } from './runtime/WGFXRuntime';
+import { ResourceManager } from './runtime/ResourceManager';
+import { WGFXCompileError } from './runtime/WGFXCompileError';
+import { UniformValue } from './runtime/UniformLayout';
+import { FrameProfile } from './runtime/PassProfiler';
+import { Presenter, PresentOptions } from './runtime/Presenter';
+import { PixelArrays, ReadPixelsOptions } from './runtime/PixelReader';
 import { Logger, LogLevel } from './utils/Logger';
 
 /**
@@ -20,12 +26,106 @@ export interface WGFXOptions {
      * @zh WGSL 或自定義特效代碼字串
      */
     effectCode: string;
+    /**
+     * Path (Node.js) or URL (browser) of the effect file. Relative `//! INCLUDE` paths resolve against it and diagnostics name it.
+     * @zh 特效檔案的路徑（Node.js）或網址（瀏覽器）；相對的 `//! INCLUDE` 路徑以此解析，診斷訊息亦以此標示來源
+     */
+    effectPath?: string;
     /** @zh 初始處理寬度 */
     width: number;
     /** @zh 初始處理高度 */
     height: number;
     /** @zh 選用的外部資源 (textures, samplers, etc.) */
     externalResources?: any;
+    /**
+     * Output width. Overrides `outputScale` and the effect's `//! OUTPUT_WIDTH`; defaults to the input width.
+     * @zh 輸出寬度，優先於 `outputScale` 與特效的 `//! OUTPUT_WIDTH`；預設為輸入寬度
+     */
+    outputWidth?: number;
+    /**
+     * Output height. Overrides `outputScale` and the effect's `//! OUTPUT_HEIGHT`; defaults to the input height.
+     * @zh 輸出高度，優先於 `outputScale` 與特效的 `//! OUTPUT_HEIGHT`；預設為輸入高度
+     */
+    outputHeight?: number;
+    /**
+     * Output size as a multiple of the input size, e.g. 2 for an x2 upscaler. Kept across {@link WGFX.resize}.
+     * @zh 以輸入尺寸倍數表示的輸出尺寸，例如 x2 放大為 2；{@link WGFX.resize} 後仍維持此倍數
+     */
+    outputScale?: number;
+    /**
+     * Resolver for `//! INCLUDE` directives. Defaults to the file system in Node.js and `fetch` in browsers.
+     * @zh `//! INCLUDE` 指令的解析器，預設在 Node.js 使用檔案系統、在瀏覽器使用 fetch
+     */
+    includeResolver?: IncludeResolver;
+    /**
+     * Measure each pass, see {@link WGFX.getProfile}. WGFX uses the given device as is and cannot enable features on it:
+     * request `timestamp-query` in `adapter.requestDevice({ requiredFeatures })` when `adapter.features` has it to get
+     * GPU timings, otherwise passes are timed on the CPU.
+     * @zh 量測各通道耗時，參見 {@link WGFX.getProfile}。WGFX 直接使用傳入的裝置，無法替其啟用功能：
+     * 若 `adapter.features` 支援 `timestamp-query`，需在 `adapter.requestDevice({ requiredFeatures })` 中要求才能取得 GPU 計時，否則改於 CPU 端計時
+     * @defaultValue false
+     */
+    profiling?: boolean;
+    /**
+     * Reconfigure instead of throwing when {@link WGFX.process} gets an input of another size.
+     * @zh 當 {@link WGFX.process} 收到不同尺寸的輸入時自動調整，而非拋出錯誤
+     * @defaultValue false
+     */
+    autoResize?: boolean;
+    /**
+     * How `autoResize` handles a mismatched input: `'reallocate'` resizes the instance, `'scale'` scales the input to the configured size.
+     * @zh `autoResize` 處理尺寸不符的方式：`'reallocate'` 重新配置實例尺寸，`'scale'` 將輸入縮放至設定的尺寸
+     * @defaultValue 'reallocate'
+     */
+    resizePolicy?: 'reallocate' | 'scale';
+    /**
+     * Called after the processing size changed.
+     * @zh 處理尺寸改變後呼叫
+     */
+    onResize?: (event: WGFXResizeEvent) => void;
+}
+
+/**
+ * Reported when the processing size of a WGFX instance changes.
+ * ---
+ * WGFX 實例的處理尺寸改變時回報的事件。
+ *
+ * @category Interfaces
+ */
+export interface WGFXResizeEvent {
+    /** @zh 新的處理寬度 */
+    width: number;
+    /** @zh 新的處理高度 */
+    height: number;
+    /** @zh 先前的處理寬度 */
+    previousWidth: number;
+    /** @zh 先前的處理高度 */
+    previousHeight: number;
+    /** @zh 重新配置的紋理名稱 */
+    reallocated: string[];
+    /** @zh 是否因 `//! IF` 選取結果改變而重新編譯 */
+    recompiled: boolean;
+}
+
+/**
+ * Input and output of {@link WGFX.encode}.
+ * ---
+ * {@link WGFX.encode} 的輸入與輸出。
+ *
+ * @category Interfaces
+ */
+export interface WGFXEncodeOptions {
+    /**
+     * Input frame. A texture is copied inside the encoder and must have the INPUT format (rgba8unorm) and `COPY_SRC`;
+     * other sources are uploaded to the queue immediately.
+     * @zh 輸入影格。紋理會在編碼器中複製，需為 INPUT 的格式 (rgba8unorm) 並具備 `COPY_SRC`；其他來源會立即上傳至佇列
+     */
+    input: GPUTexture | ImageBitmap | VideoFrame | HTMLVideoElement | HTMLCanvasElement;
+    /**
+     * Texture or view to write instead of the internal OUTPUT. It must match OUTPUT's size and format (rgba16float) and allow storage binding.
+     * @zh 取代內部 OUTPUT 的寫入目標，需與 OUTPUT 的尺寸與格式 (rgba16float) 一致並可作為儲存紋理綁定
+     */
+    output?: GPUTexture | GPUTextureView;
 }
 
 /**
@@ -40,21 +140,42 @@ export interface WGFXInfo {
     width: number;
     /** @zh 處理高度 */
     height: number;
+    /** @zh 輸出寬度 */
+    outputWidth: number;
+    /** @zh 輸出高度 */
+    outputHeight: number;
     /**
      * List of adjustable uniform parameters.
      * @zh 可調整的 Uniform 參數列表
      */
     uniforms: {
         name: string;
+        /** @zh 供 UI 顯示的參數標籤 */
+        label: string;
+        /** @zh 參數型別：float、int、uint、bool 或向量型別如 float3 */
         type: string;
-        /** @defaultValue 0.0 */
-        default: number;
+        /**
+         * One number per component for vector types.
+         * @zh 向量型別時每個分量一個數值
+         * @defaultValue 0.0
+         */
+        default: number | number[];
         min: number;
         max: number;
         step: number;
     }[];
     /** @zh 渲染通道總數 */
     passes: number;
+    /**
+     * Effect metadata (VERSION, SORT_NAME, USE, CAPABILITY).
+     * @zh 特效元數據（版本、排序名稱、USE 與 CAPABILITY 旗標）
+     */
+    metadata: EffectMetadata;
+    /**
+     * CAPABILITY flags the current device cannot satisfy.
+     * @zh 目前裝置無法滿足的 CAPABILITY 旗標
+     */
+    missingCapabilities: string[];
 }
 
 /**
@@ -81,6 +202,16 @@ export class WGFX {
     public height: number;
     /** @zh 目前輸入源物件 */
     public currentInputSource: any;
+    /** @zh 輸入尺寸不符時是否自動調整 */
+    public autoResize: boolean;
+    /** @zh 自動調整的方式：重新配置或縮放輸入 */
+    public resizePolicy: 'reallocate' | 'scale';
+    /** @zh 處理尺寸改變後的回呼 */
+    public onResize: ((event: WGFXResizeEvent) => void) | null;
+    /** @zh 建立時指定的輸出尺寸設定 */
+    private outputOptions: Pick<WGFXOptions, 'outputWidth' | 'outputHeight' | 'outputScale'>;
+    /** @zh 呈現至畫布用的繪製器，首次呼叫 {@link WGFX.presentTo} 時建立 */
+    private presenter: Presenter | null;
 
     /**
      * @internal
@@ -93,6 +224,11 @@ export class WGFX {
         this.currentInputSource = null;
         this.width = 0;
         this.height = 0;
+        this.autoResize = false;
+        this.resizePolicy = 'reallocate';
+        this.onResize = null;
+        this.presenter = null;
+        this.outputOptions = {};
     }
 
     /**
@@ -128,8 +264,12 @@ export class WGFX {
      * @param options - Configuration options / 配置選項
      * @returns A promise that resolves to a WGFX instance
      * @throws {Error} 如果 WebGPU 裝置、代碼無效或編譯失敗時拋出錯誤
+     * @throws {@link WGFXCompileError} 當任一通道的 WGSL 編譯或管線驗證失敗時拋出
      */
-    public static async create({ device, effectCode, width, height }: WGFXOptions): Promise<WGFX> {
+    public static async create({
+        device, effectCode, effectPath, width, height, includeResolver, profiling, autoResize, resizePolicy, onResize,
+        outputWidth, outputHeight, outputScale
+    }: WGFXOptions): Promise<WGFX> {
         if (!device) {
             const error = 'Must provide a valid GPUDevice';
             Logger.error(error);
@@ -147,46 +287,63 @@ export class WGFX {
         }
 
         const runtime = new WGFXRuntime(device);
+        runtime.setProfiling(profiling ?? false);
 
-        const externalResources = {
-            defines: {
-                INPUT_WIDTH: width,
-                INPUT_HEIGHT: height
-            },
-            textures: {
-                INPUT: {
-                    size: [width, height],
-                    format: 'rgba8unorm' as GPUTextureFormat,
-                    usage: GPUTextureUsage.TEXTURE_BINDING |
-                        GPUTextureUsage.COPY_DST |
-                        GPUTextureUsage.RENDER_ATTACHMENT
-                },
-                OUTPUT: {
-                    size: [width, height],
-                    format: 'rgba16float' as GPUTextureFormat,
-                    usage: GPUTextureUsage.STORAGE_BINDING |
-                        GPUTextureUsage.COPY_SRC |
-                        GPUTextureUsage.TEXTURE_BINDING
-                }
-            }
-        };
+        if ([outputWidth, outputHeight, outputScale].some(v => v !== undefined && !(v > 0))) {
+            const error = 'outputWidth, outputHeight and outputScale must be positive numbers';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        const outputOptions = { outputWidth, outputHeight, outputScale };
+        const externalResources = WGFX.externalResources(width, height, outputOptions);
 
         try {
-            await runtime.compile(effectCode, externalResources);
+            await runtime.compile(effectCode, externalResources, { includeResolver, effectPath });
         } catch (error: any) {
             Logger.error('WGFX compilation failed:', error);
+            // Keep per-pass details of pipeline failures / 保留管線失敗時各通道的詳細資訊
+            if (error instanceof WGFXCompileError) throw error;
             throw new Error(`Shader compilation error: ${error.message}`);
         }
 
         const instance = new WGFX(runtime);
         instance.width = width;
         instance.height = height;
+        instance.autoResize = autoResize ?? false;
+        instance.resizePolicy = resizePolicy ?? 'reallocate';
+        instance.onResize = onResize ?? null;
+        instance.outputOptions = outputOptions;
         instance.initialized = true;
 
         Logger.info(`WGFX initialized: ${width}x${height}`);
         return instance;
     }
 
+    /**
+     * Change the processing size, recompiling only when `//! IF` selects other code at the new size.
+     * ---
+     * 變更處理尺寸。以新的 INPUT_WIDTH/INPUT_HEIGHT 重新計算紋理尺寸，只重新配置尺寸改變的紋理並更新場景資訊，
+     * 已編譯的管線與參數數值維持不變；若 `//! IF` 條件（例如 `INPUT_WIDTH >= 1920`）在新尺寸下選取不同的通道或程式碼，
+     * 則重新編譯特效並保留參數數值。
+     *
+     * @group Lifecycle
+     * @param width - New input width / 新的輸入寬度
+     * @param height - New input height / 新的輸入高度
+     * @throws {Error} 若實例尚未初始化、尺寸無效或重新編譯失敗則拋出錯誤
+     */
+    public async resize(width: number, height: number): Promise<void> {
+        const externalResources = this._resizeResources(width, height);
+        if (!externalResources) return;
+
+        if (this.runtime.selectionChanged(externalResources)) {
+            Logger.info(`WGFX: //! IF selection changes at ${width}x${height}, recompiling`);
+            await this.runtime.recompile(externalResources);
+            this._resized(width, height, [...this.runtime.resourceManager.textures.keys()], true);
+        } else {
+            this._resized(width, height, this.runtime.resize(externalResources), false);
+        }
+    }
+
     /**
      * Get information about the initialized effect.
      * ---
@@ -210,18 +367,28 @@ export class WGFX {
             throw new Error(error);
         }
 
+        const output = this.runtime.resourceManager.getTexture('OUTPUT');
         return {
             width: this.width,
             height: this.height,
+            outputWidth: output?.width ?? this.width,
+            outputHeight: output?.height ?? this.height,
             uniforms: shaderInfo.parameters.map((p: ParameterInfo) => ({
                 name: p.name,
-                type: p.type || 'f32',
-                default: (Array.isArray(p.default) ? p.default[0] : p.default) ?? 0.0,
+                label: p.label ?? p.name,
+                type: p.type || 'float',
+                default: p.default ?? 0.0,
                 min: p.min ?? 0.0,
                 max: p.max ?? 1.0,
                 step: p.step ?? 0.01
             })),
-            passes: shaderInfo.passes.length
+            passes: shaderInfo.passes.length,
+            metadata: {
+                ...shaderInfo.metadata,
+                use: { ...shaderInfo.metadata.use },
+                capability: { ...shaderInfo.metadata.capability }
+            },
+            missingCapabilities: [...this.runtime.missingCapabilities]
         };
     }
 
@@ -233,7 +400,7 @@ export class WGFX {
      * @group Rendering
      * @param uniforms - Key-value pairs of uniform names and values / 名稱與數值的鍵值對
      */
-    public updateUniforms(uniforms: Record<string, number | number[]>): void {
+    public updateUniforms(uniforms: Record<string, UniformValue>): void {
         if (!this.initialized) {
             Logger.warn('updateUniforms: Instance not initialized');
             return;
@@ -260,9 +427,9 @@ export class WGFX {
      *
      * @group Rendering
      * @param inputSource - The image/video source to process / 要處理的影像來源
-     * @param options - Optional parameters including target output dimensions / 選用參數，包含目標輸出尺寸
+     * @param options - Deprecated: the output size comes from the OUTPUT texture, set it with `outputWidth`/`outputHeight`/`outputScale` in {@link WGFX.create} / 已棄用：輸出尺寸取自 OUTPUT 紋理，請於 {@link WGFX.create} 設定
      * @returns A promise that resolves to the output {@link GPUTexture}
-     * @throws {Error} 當輸入來源維度與初始化不符時拋出錯誤
+     * @throws {Error} 當輸入來源維度與目前尺寸不符且未啟用 `autoResize` 時拋出錯誤
      */
     public async process(
         inputSource: ImageBitmap | VideoFrame | HTMLVideoElement | HTMLCanvasElement,
@@ -280,42 +447,39 @@ export class WGFX {
             throw new Error(error);
         }
 
-        let sourceWidth: number = 0;
-        let sourceHeight: number = 0;
+        const [sourceWidth, sourceHeight] = WGFX.sourceSize(inputSource);
 
-        if (inputSource instanceof HTMLVideoElement) {
-            sourceWidth = inputSource.videoWidth;
-            sourceHeight = inputSource.videoHeight;
-        } else if (inputSource instanceof VideoFrame) {
-            sourceWidth = inputSource.displayWidth;
-            sourceHeight = inputSource.displayHeight;
-        } else {
-            sourceWidth = inputSource.width;
-            sourceHeight = inputSource.height;
-        }
+        // Scaled copy of the input, closed after upload / 輸入的縮放副本，上傳後關閉
+        let scaledInput: ImageBitmap | null = null;
 
         if (sourceWidth !== this.width || sourceHeight !== this.height) {
-            const error = `Input dimensions (${sourceWidth}x${sourceHeight}) do not match initialized dimensions (${this.width}x${this.height})`;
-            Logger.error(error);
-            throw new Error(error);
+            if (!this.autoResize) {
+                const error = `Input dimensions (${sourceWidth}x${sourceHeight}) do not match initialized dimensions (${this.width}x${this.height})`;
+                Logger.error(error);
+                throw new Error(error);
+            }
+
+            if (this.resizePolicy === 'scale') {
+                scaledInput = await createImageBitmap(inputSource, {
+                    resizeWidth: this.width, resizeHeight: this.height, resizeQuality: 'high'
+                });
+            } else {
+                Logger.debug(`Input size changed to ${sourceWidth}x${sourceHeight}, reallocating`);
+                await this.resize(sourceWidth, sourceHeight);
+            }
         }
 
         try {
-            this.runtime.resourceManager.updateTextureFromImage('INPUT', inputSource, options.outWidth, options.outHeight);
-
-            const commandEncoder = this.runtime.device.createCommandEncoder({
-                label: 'WGFX Frame Processing'
-            });
-
-            if (this.runtime.shaderInfo) {
-                for (const pass of this.runtime.shaderInfo.passes) {
-                    this.runtime.dispatchPass(`PASS_${pass.index}`, commandEncoder);
-                }
+            const output = this.runtime.resourceManager.getTexture('OUTPUT');
+            if ((options.outWidth !== undefined && options.outWidth !== output?.width) ||
+                (options.outHeight !== undefined && options.outHeight !== output?.height)) {
+                Logger.warn('process: outWidth/outHeight are ignored, configure the output size in WGFX.create');
             }
+            this.runtime.resourceManager.updateTextureFromImage('INPUT', scaledInput ?? inputSource);
 
-            this.runtime.device.queue.submit([commandEncoder.finish()]);
+            // Dependency order, without dead passes / 依賴順序，不含未使用的通道
+            await this.runtime.executeFrame();
 
-            const output = this.runtime.resourceManager.getTexture('OUTPUT');
             if (!output) {
                 const error = "Output texture missing";
                 Logger.error(error);
@@ -326,6 +490,87 @@ export class WGFX {
         } catch (error) {
             Logger.error('Frame processing error:', error);
             throw error;
+        } finally {
+            scaledInput?.close();
+        }
+    }
+
+    /**
+     * Record every pass into a caller-provided command encoder without submitting it.
+     * ---
+     * 將所有通道記錄至呼叫端提供的指令編碼器，但不提交，
+     * 以便與自己的渲染通道合併或加入既有的幀圖。影像來源會立即上傳至佇列，
+     * 因此需在上傳下一幀之前提交此編碼器。效能分析僅涵蓋 {@link WGFX.process}，此處記錄的通道不計時。
+     *
+     * @group Rendering
+     * @param commandEncoder - Encoder to record into / 要記錄指令的編碼器
+     * @param options - Input frame and optional output target / 輸入影格與選用的輸出目標
+     * @throws {Error} 當輸入尺寸不符（且無法自動調整）、輸入或輸出紋理不相容時拋出錯誤
+     */
+    public encode(commandEncoder: GPUCommandEncoder, { input, output }: WGFXEncodeOptions): void {
+        if (!this.initialized) {
+            const error = 'Instance not initialized';
+            Logger.error(error);
+            throw new Error(error);
+        }
+
+        const [sourceWidth, sourceHeight] = WGFX.sourceSize(input);
+        if (sourceWidth !== this.width || sourceHeight !== this.height) {
+            // Scaling is asynchronous and only available in process() / 縮放為非同步，僅 process() 支援
+            if (!this.autoResize || this.resizePolicy === 'scale') {
+                const error = `Input dimensions (${sourceWidth}x${sourceHeight}) do not match initialized dimensions (${this.width}x${this.height})`;
+                Logger.error(error);
+                throw new Error(error);
+            }
+            // Recompiling is asynchronous, so only reallocation happens here / 重新編譯為非同步，此處僅重新配置紋理
+            const externalResources = this._resizeResources(sourceWidth, sourceHeight);
+            if (this.runtime.selectionChanged(externalResources)) {
+                const error = `//! IF selects other code at ${sourceWidth}x${sourceHeight}; await resize() or use process() before encode()`;
+                Logger.error(error);
+                throw new Error(error);
+            }
+            this._resized(sourceWidth, sourceHeight, this.runtime.resize(externalResources), false);
+        }
+
+        const resourceManager = this.runtime.resourceManager;
+        const inputTexture = resourceManager.getTexture('INPUT');
+        const outputTexture = resourceManager.getTexture('OUTPUT');
+        if (!inputTexture || !outputTexture) {
+            const error = 'INPUT or OUTPUT texture missing';
+            Logger.error(error);
+            throw new Error(error);
+        }
+
+        if (ResourceManager.isTexture(input)) {
+            if (input.format !== inputTexture.format) {
+                const error = `Input texture format ${input.format} does not match INPUT format ${inputTexture.format}`;
+                Logger.error(error);
+                throw new Error(error);
+            }
+            commandEncoder.copyTextureToTexture({ texture: input }, { texture: inputTexture }, [sourceWidth, sourceHeight]);
+        } else {
+            resourceManager.updateTextureFromImage('INPUT', input);
+        }
+
+        let outputView: GPUTextureView | undefined;
+        if (ResourceManager.isTexture(output)) {
+            if (output.width !== outputTexture.width || output.height !== outputTexture.height || output.format !== outputTexture.format) {
+                const error = `Output texture must be ${outputTexture.width}x${outputTexture.height} ${outputTexture.format}, got ${output.width}x${output.height} ${output.format}`;
+                Logger.error(error);
+                throw new Error(error);
+            }
+            outputView = output.createView({ label: 'OUTPUT_external' });
+        } else {
+            outputView = output;
+        }
+
+        // Bind groups are recorded with the caller's view, then OUTPUT is restored
+        // 以呼叫端的視圖記錄綁定群組後還原 OUTPUT
+        resourceManager.overrideView('OUTPUT', outputView);
+        try {
+            this.runtime.encodeFrame(commandEncoder);
+        } finally {
+            resourceManager.overrideView('OUTPUT');
         }
     }
 
@@ -341,6 +586,86 @@ export class WGFX {
         return this.runtime.getOutput();
     }
 
+    /**
+     * Read a texture back to the CPU, e.g. for screenshots or tests.
+     * ---
+     * 將紋理讀回 CPU，例如用於截圖或測試。
+     * 回傳緊密排列的 RGBA 陣列：`rgba8` 為 Uint8Array、`rgba16f` 為半精度位元模式的 Uint16Array、`rgba32f` 為 Float32Array。
+     *
+     * @group Rendering
+     * @param name - Texture name / 紋理名稱
+     * @param options - Output format and region / 輸出格式與區域
+     * @throws Error if the instance is not initialized or the texture cannot be read / 若實例尚未初始化或無法讀回紋理則拋出錯誤
+     *
+     * @example
+     * ```ts
+     * await wgfx.process(image);
+     * const pixels = await wgfx.readPixels('OUTPUT', { format: 'rgba8' });
+     * ```
+     */
+    public async readPixels<F extends keyof PixelArrays = 'rgba8'>(
+        name: string = 'OUTPUT',
+        options: ReadPixelsOptions<F> = {}
+    ): Promise<PixelArrays[F]> {
+        if (!this.initialized) {
+            const error = 'Instance not initialized';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        return this.runtime.readPixels(name, options);
+    }
+
+    /**
+     * Draw the output to a canvas, fitted to the canvas size.
+     * ---
+     * 將輸出繪製至畫布，並依畫布尺寸配置。渲染管線依畫布格式快取。
+     *
+     * @group Rendering
+     * @param context - Canvas context configured with this device / 以此裝置設定的畫布上下文
+     * @param options - Fit mode, filtering, sRGB encode and background / 配置模式、濾波、sRGB 轉換與背景色
+     * @throws Error if the instance is not initialized / 若實例尚未初始化則拋出錯誤
+     *
+     * @example
+     * ```ts
+     * await wgfx.process(video);
+     * wgfx.presentTo(canvas.getContext('webgpu')!, { fit: 'integer', filter: 'nearest' });
+     * ```
+     */
+    public presentTo(context: GPUCanvasContext, options: PresentOptions = {}): void {
+        const output = this.runtime.resourceManager.getTexture('OUTPUT');
+        if (!this.initialized || !output) {
+            const error = 'Instance not initialized';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        this.presenter ??= new Presenter(this.runtime.device);
+        this.presenter.present(output, context, options);
+    }
+
+    /**
+     * Enable or disable per-pass profiling.
+     * ---
+     * 啟用或停用各通道的效能分析。僅 {@link WGFX.process} 會被分析，{@link WGFX.encode} 不計時。
+     *
+     * @group Profiling
+     * @param enabled - Whether to profile each frame / 是否分析每一幀
+     */
+    public setProfiling(enabled: boolean): void {
+        this.runtime.setProfiling(enabled);
+    }
+
+    /**
+     * Get the latest per-pass timings, keyed by pass index with each pass's `//! DESC`.
+     * ---
+     * 獲取最近一次的各通道耗時，以通道索引為鍵並附上 `//! DESC`。
+     *
+     * @group Profiling
+     * @returns The latest profile, or null when profiling is off or nothing was measured yet / 最近的計時結果；未啟用或尚無結果時為 null
+     */
+    public getProfile(): FrameProfile | null {
+        return this.runtime.getProfile();
+    }
+
     /**
      * Dispose all resources and clean up.
      * ---
@@ -352,10 +677,118 @@ export class WGFX {
         if (this.runtime) {
             this.runtime.resourceManager.dispose();
             this.runtime.pipelineManager.dispose();
+            this.runtime.setProfiling(false);
         }
+        this.presenter?.dispose();
+        this.presenter = null;
         this.initialized = false;
         Logger.info('WGFX resources disposed');
     }
+
+    /**
+     * Validate a new size and build its external resources.
+     * ---
+     * 驗證新尺寸並建立對應的外部資源。
+     *
+     * @returns External resources, or null when the size is unchanged / 外部資源；尺寸未改變時為 null
+     */
+    private _resizeResources(width: number, height: number): any {
+        if (!this.initialized) {
+            const error = 'Instance not initialized';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        if (!width || !height || width <= 0 || height <= 0) {
+            const error = 'Width and height must be positive numbers';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        if (width === this.width && height === this.height) return null;
+        return WGFX.externalResources(width, height, this.outputOptions);
+    }
+
+    /**
+     * Record the new size and notify {@link WGFX.onResize}.
+     * ---
+     * 記錄新尺寸並通知 {@link WGFX.onResize}。
+     */
+    private _resized(width: number, height: number, reallocated: string[], recompiled: boolean): void {
+        const event: WGFXResizeEvent = {
+            width, height, previousWidth: this.width, previousHeight: this.height, reallocated, recompiled
+        };
+        this.width = width;
+        this.height = height;
+
+        Logger.info(`WGFX resized: ${width}x${height} (${recompiled ? 'recompiled' : `${reallocated.length} texture(s) reallocated`})`);
+        this.onResize?.(event);
+    }
+
+    /**
+     * Get the size of an input source, also in workers where some source types do not exist.
+     * ---
+     * 獲取輸入來源的尺寸，在缺少部分來源型別的 Worker 中亦可使用。
+     * 影片使用 `videoWidth`/`videoHeight`，VideoFrame 使用 `displayWidth`/`displayHeight`。
+     *
+     * @group Metadata
+     * @param source - Input source as accepted by {@link WGFX.process} / {@link WGFX.process} 可接受的輸入來源
+     * @returns Width and height in pixels / 以像素為單位的寬與高
+     */
+    public static sourceSize(source: GPUTexture | ImageBitmap | VideoFrame | HTMLVideoElement | HTMLCanvasElement): [number, number] {
+        // Workers have no HTMLVideoElement / Worker 中沒有 HTMLVideoElement
+        if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) return [source.videoWidth, source.videoHeight];
+        if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) return [source.displayWidth, source.displayHeight];
+        return [(source as GPUTexture | ImageBitmap | HTMLCanvasElement).width, (source as GPUTexture | ImageBitmap | HTMLCanvasElement).height];
+    }
+
+    /**
+     * Build the host-provided defines and textures for a processing size.
+     * ---
+     * 依處理尺寸建立由宿主提供的巨集定義與紋理。
+     *
+     * OUTPUT_WIDTH/OUTPUT_HEIGHT are only defined when configured, so the effect's
+     * `//! OUTPUT_WIDTH`/`//! OUTPUT_HEIGHT` apply otherwise; the runtime sizes OUTPUT from them.
+     * 僅在有設定時才定義 OUTPUT_WIDTH/OUTPUT_HEIGHT，否則套用特效的宣告；運行時會依此決定 OUTPUT 尺寸。
+     *
+     * @internal
+     * @param input - Existing texture to use as INPUT, e.g. the OUTPUT of a previous chain stage / 作為 INPUT 的既有紋理，例如特效鏈前一階段的 OUTPUT
+     */
+    public static externalResources(
+        width: number,
+        height: number,
+        { outputWidth, outputHeight, outputScale }: Pick<WGFXOptions, 'outputWidth' | 'outputHeight' | 'outputScale'> = {},
+        input?: GPUTexture
+    ) {
+        const defines: Record<string, number> = {
+            INPUT_WIDTH: width,
+            INPUT_HEIGHT: height
+        };
+        const scale = (size: number) => outputScale !== undefined ? Math.max(1, Math.round(size * outputScale)) : undefined;
+        const outWidth = outputWidth ?? scale(width);
+        const outHeight = outputHeight ?? scale(height);
+        if (outWidth !== undefined) defines.OUTPUT_WIDTH = outWidth;
+        if (outHeight !== undefined) defines.OUTPUT_HEIGHT = outHeight;
+
+        return {
+            defines,
+            textures: {
+                INPUT: input ?? {
+                    size: [width, height],
+                    format: 'rgba8unorm' as GPUTextureFormat,
+                    usage: GPUTextureUsage.TEXTURE_BINDING |
+                        GPUTextureUsage.COPY_DST |
+                        GPUTextureUsage.COPY_SRC |
+                        GPUTextureUsage.RENDER_ATTACHMENT
+                },
+                OUTPUT: {
+                    size: [width, height], // Replaced by OUTPUT_WIDTH/OUTPUT_HEIGHT / 由運行時依輸出尺寸取代
+                    format: 'rgba16float' as GPUTextureFormat,
+                    usage: GPUTextureUsage.STORAGE_BINDING |
+                        GPUTextureUsage.COPY_SRC |
+                        GPUTextureUsage.TEXTURE_BINDING
+                }
+            }
+        };
+    }
 }
 
 export default WGFX;
\ No newline at end of file
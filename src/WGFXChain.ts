@@ -0,0 +1,346 @@
+import { IncludeResolver, ParameterInfo } from './types/shader';
+import { WGFX, WGFXOptions } from './WGFX';
+import { WGFXRuntime } from './runtime/WGFXRuntime';
+import { WGFXCompileError } from './runtime/WGFXCompileError';
+import { UniformValue } from './runtime/UniformLayout';
+import { Logger } from './utils/Logger';
+
+/**
+ * One effect of a chain.
+ * ---
+ * 特效鏈中的單一特效。
+ *
+ * @category Interfaces
+ */
+export interface WGFXChainStage {
+    /** @zh 特效代碼字串 */
+    effectCode: string;
+    /** @zh 特效檔案的路徑或網址，相對的 `//! INCLUDE` 路徑以此解析 */
+    effectPath?: string;
+    /**
+     * Namespace of the stage's parameters, e.g. "Denoise" for "Denoise/Strength". Defaults to "stage0", "stage1", ...
+     * @zh 此階段參數的命名空間，例如 "Denoise" 對應 "Denoise/Strength"；預設為 "stage0"、"stage1"…
+     */
+    name?: string;
+    /** @zh 此階段的輸出寬度，優先於 `outputScale` 與特效的 `//! OUTPUT_WIDTH` */
+    outputWidth?: number;
+    /** @zh 此階段的輸出高度，優先於 `outputScale` 與特效的 `//! OUTPUT_HEIGHT` */
+    outputHeight?: number;
+    /** @zh 此階段的輸出尺寸相對於其輸入尺寸的倍數 */
+    outputScale?: number;
+}
+
+/**
+ * Options for creating an effect chain.
+ * ---
+ * 建立特效鏈的配置選項。
+ *
+ * @category Interfaces
+ */
+export interface WGFXChainOptions {
+    /** @zh 使用的 WebGPU 裝置 */
+    device: GPUDevice;
+    /**
+     * Effects in processing order; a string is shorthand for `{ effectCode }`.
+     * @zh 依處理順序排列的特效；字串為 `{ effectCode }` 的簡寫
+     */
+    effects: (string | WGFXChainStage)[];
+    /** @zh 第一個特效的輸入寬度 */
+    width: number;
+    /** @zh 第一個特效的輸入高度 */
+    height: number;
+    /** @zh `//! INCLUDE` 指令的解析器 */
+    includeResolver?: IncludeResolver;
+}
+
+/**
+ * A parameter of a chain stage, named `<stage>/<parameter>`.
+ * ---
+ * 特效鏈中某階段的參數，名稱為 `<階段>/<參數>`。
+ *
+ * @category Interfaces
+ */
+export interface WGFXChainParameter {
+    /** @zh 含命名空間的參數名稱，例如 "Denoise/Strength" */
+    name: string;
+    /** @zh 所屬階段名稱 */
+    stage: string;
+    /** @zh 特效中的參數名稱 */
+    parameter: string;
+    /** @zh 供 UI 顯示的參數標籤 */
+    label: string;
+    /** @zh 參數型別 */
+    type: string;
+    /** @zh 預設值 */
+    default: number | number[];
+    min: number;
+    max: number;
+    step: number;
+}
+
+/**
+ * Several effects run back to back in one command encoder.
+ * ---
+ * 在同一個指令編碼器中依序執行的多個特效，類似 Magpie 的特效串接。
+ * 每個階段的 OUTPUT 直接作為下一階段的 INPUT（不經複製，維持 rgba16float 精度），
+ * 各階段的尺寸依序由前一階段的輸出尺寸計算，參數以 `<階段>/<參數>` 區分命名空間。
+ *
+ * @example
+ * ```ts
+ * const chain = await WGFXChain.create({
+ *     device, width: 960, height: 540,
+ *     effects: [{ name: 'Denoise', effectCode: denoise }, { name: 'Upscale', effectCode: upscale }]
+ * });
+ * chain.updateUniforms({ 'Denoise/Strength': 0.5 });
+ * const output = await chain.process(videoElement); // 1920x1080 when Upscale is x2
+ * ```
+ */
+export class WGFXChain {
+    /** @zh 依處理順序排列的階段 */
+    public stages: { name: string; runtime: WGFXRuntime; options: WGFXChainStage }[];
+    /** @zh 實例是否已初始化完成 */
+    public initialized: boolean;
+    /** @zh 第一個特效的輸入寬度 */
+    public width: number;
+    /** @zh 第一個特效的輸入高度 */
+    public height: number;
+
+    /**
+     * @internal
+     * Internal constructor. Use {@link WGFXChain.create} instead.
+     */
+    constructor() {
+        this.stages = [];
+        this.initialized = false;
+        this.width = 0;
+        this.height = 0;
+    }
+
+    /**
+     * Compile every effect of the chain, sizing each stage from the previous stage's output.
+     * ---
+     * 編譯特效鏈中的所有特效，並依前一階段的輸出決定各階段尺寸。
+     *
+     * @group Lifecycle
+     * @param options - Configuration options / 配置選項
+     * @returns A promise that resolves to the chain
+     * @throws {Error} 當參數無效或任一特效編譯失敗時拋出錯誤
+     * @throws {@link WGFXCompileError} 當任一通道的 WGSL 編譯或管線驗證失敗時拋出
+     */
+    public static async create({ device, effects, width, height, includeResolver }: WGFXChainOptions): Promise<WGFXChain> {
+        if (!device) {
+            const error = 'Must provide a valid GPUDevice';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        if (!Array.isArray(effects) || effects.length === 0) {
+            const error = 'Must provide at least one effect';
+            Logger.error(error);
+            throw new Error(error);
+        }
+        if (!width || !height || width <= 0 || height <= 0) {
+            const error = 'Width and height must be positive numbers';
+            Logger.error(error);
+            throw new Error(error);
+        }
+
+        const chain = new WGFXChain();
+        const names = new Set<string>();
+        let input: GPUTexture | undefined;
+
+        try {
+            for (const [i, effect] of effects.entries()) {
+                const options = typeof effect === 'string' ? { effectCode: effect } : effect;
+                const name = options.name ?? `stage${i}`;
+                if (names.has(name) || name.includes('/')) {
+                    throw new Error(`Stage name "${name}" must be unique and must not contain "/"`);
+                }
+                names.add(name);
+
+                const runtime = new WGFXRuntime(device);
+                // Later stages read the previous OUTPUT directly / 後續階段直接讀取前一階段的 OUTPUT
+                const resources = WGFX.externalResources(
+                    input?.width ?? width, input?.height ?? height, WGFXChain._outputOptions(options), input
+                );
+                chain.stages.push({ name, runtime, options });
+                try {
+                    await runtime.compile(options.effectCode, resources, { includeResolver, effectPath: options.effectPath });
+                } catch (error: any) {
+                    if (error instanceof WGFXCompileError) throw error;
+                    throw new Error(`Stage "${name}": ${error.message}`);
+                }
+                input = runtime.resourceManager.getTexture('OUTPUT');
+            }
+        } catch (error) {
+            Logger.error('WGFXChain compilation failed:', error);
+            chain.dispose();
+            throw error;
+        }
+
+        chain.width = width;
+        chain.height = height;
+        chain.initialized = true;
+        Logger.info(`WGFXChain initialized: ${chain.stages.map(s => s.name).join(' -> ')} (${width}x${height} -> ${input!.width}x${input!.height})`);
+        return chain;
+    }
+
+    /**
+     * Get the parameters of every stage, namespaced by stage name.
+     * ---
+     * 獲取所有階段的參數，名稱以階段名稱區分命名空間。
+     *
+     * @group Metadata
+     */
+    public getParameters(): WGFXChainParameter[] {
+        return this.stages.flatMap(({ name, runtime }) => (runtime.shaderInfo?.parameters ?? []).map((p: ParameterInfo) => ({
+            name: `${name}/${p.name}`,
+            stage: name,
+            parameter: p.name,
+            label: p.label ?? p.name,
+            type: p.type || 'float',
+            default: p.default ?? 0.0,
+            min: p.min ?? 0.0,
+            max: p.max ?? 1.0,
+            step: p.step ?? 0.01
+        })));
+    }
+
+    /**
+     * Update uniform values by namespaced name, e.g. `{ 'Denoise/Strength': 0.5 }`.
+     * ---
+     * 以含命名空間的名稱更新 Uniform 數值。
+     *
+     * @group Rendering
+     * @param uniforms - Key-value pairs of `<stage>/<parameter>` names and values / `<階段>/<參數>` 名稱與數值的鍵值對
+     */
+    public updateUniforms(uniforms: Record<string, UniformValue>): void {
+        if (!this.initialized) {
+            Logger.warn('updateUniforms: Chain not initialized');
+            return;
+        }
+
+        for (const [name, value] of Object.entries(uniforms)) {
+            const separator = name.indexOf('/');
+            const stage = this.stages.find(s => s.name === name.slice(0, separator));
+            if (separator < 0 || !stage) {
+                Logger.warn(`Failed to update uniform "${name}": expected "<stage>/<parameter>" with a known stage`);
+                continue;
+            }
+            try {
+                stage.runtime.updateUniform(name.slice(separator + 1), value);
+            } catch (error: any) {
+                Logger.warn(`Failed to update uniform "${name}": ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Process an input source through every stage and return the last stage's output texture.
+     * ---
+     * 將輸入源依序經過所有階段處理，並回傳最後一個階段的輸出紋理。
+     *
+     * @group Rendering
+     * @param inputSource - The image/video source to process / 要處理的影像來源
+     * @returns A promise that resolves to the output {@link GPUTexture}
+     * @throws {Error} 當輸入來源維度與設定不符時拋出錯誤
+     */
+    public async process(inputSource: ImageBitmap | VideoFrame | HTMLVideoElement | HTMLCanvasElement): Promise<GPUTexture> {
+        if (!this.initialized) {
+            const error = 'Chain not initialized';
+            Logger.error(error);
+            throw new Error(error);
+        }
+
+        const [sourceWidth, sourceHeight] = WGFX.sourceSize(inputSource);
+        if (sourceWidth !== this.width || sourceHeight !== this.height) {
+            const error = `Input dimensions (${sourceWidth}x${sourceHeight}) do not match chain dimensions (${this.width}x${this.height})`;
+            Logger.error(error);
+            throw new Error(error);
+        }
+
+        const first = this.stages[0].runtime;
+        first.resourceManager.updateTextureFromImage('INPUT', inputSource);
+
+        // All stages in one submission / 所有階段一次提交
+        const commandEncoder = first.device.createCommandEncoder({ label: 'WGFX Chain Processing' });
+        this.stages.forEach(stage => stage.runtime.encodeFrame(commandEncoder));
+        first.device.queue.submit([commandEncoder.finish()]);
+
+        return this.getOutput();
+    }
+
+    /**
+     * Change the input size, resizing the stages one after another.
+     * ---
+     * 變更輸入尺寸，依序調整各階段的尺寸；僅在 `//! IF` 於新尺寸下選取不同程式碼的階段才重新編譯。
+     *
+     * @group Lifecycle
+     * @param width - New input width / 新的輸入寬度
+     * @param height - New input height / 新的輸入高度
+     * @throws {Error} 若尺寸無效或重新編譯失敗則拋出錯誤
+     */
+    public async resize(width: number, height: number): Promise<void> {
+        if (!width || !height || width <= 0 || height <= 0) {
+            const error = 'Width and height must be positive numbers';
+            Logger.error(error);
+            throw new Error(error);
+        }
+
+        let input: GPUTexture | undefined;
+        for (const { runtime, options } of this.stages) {
+            const externalResources = WGFX.externalResources(
+                input?.width ?? width, input?.height ?? height, WGFXChain._outputOptions(options), input
+            );
+            if (runtime.selectionChanged(externalResources)) {
+                await runtime.recompile(externalResources);
+            } else {
+                runtime.resize(externalResources);
+            }
+            input = runtime.resourceManager.getTexture('OUTPUT');
+        }
+        this.width = width;
+        this.height = height;
+    }
+
+    /**
+     * Get the output texture of the last stage.
+     * ---
+     * 獲取最後一個階段的輸出紋理。
+     *
+     * @group Rendering
+     * @throws {Error} 若找不到輸出紋理則拋出錯誤
+     */
+    public getOutput(): GPUTexture {
+        const output = this.stages[this.stages.length - 1]?.runtime.resourceManager.getTexture('OUTPUT');
+        if (!output) {
+            throw new Error("Output texture 'OUTPUT' not found.");
+        }
+        return output;
+    }
+
+    /**
+     * Dispose the resources of every stage.
+     * ---
+     * 釋放所有階段的資源。
+     *
+     * @group Lifecycle
+     */
+    public dispose(): void {
+        this.stages.forEach(({ runtime }) => {
+            runtime.resourceManager.dispose();
+            runtime.pipelineManager.dispose();
+        });
+        this.stages = [];
+        this.initialized = false;
+        Logger.info('WGFXChain resources disposed');
+    }
+
+    /**
+     * Pick the output size options of a stage.
+     * ---
+     * 取出階段的輸出尺寸設定。
+     */
+    private static _outputOptions(stage: WGFXChainStage): Pick<WGFXOptions, 'outputWidth' | 'outputHeight' | 'outputScale'> {
+        return { outputWidth: stage.outputWidth, outputHeight: stage.outputHeight, outputScale: stage.outputScale };
+    }
+}
@@ -1,6 +1,33 @@
 export { WGFX } from './WGFX';
+export { WGFXChain } from './WGFXChain';
+export type { WGFXChainStage, WGFXChainOptions, WGFXChainParameter } from './WGFXChain';
 export { WGFXRuntime } from './runtime/WGFXRuntime';
 export { ResourceManager } from './runtime/ResourceManager';
 export { PipelineManager } from './runtime/PipelineManager';
+export { WGFXCompileError } from './runtime/WGFXCompileError';
+export type { PassCompileMessage, PassCompileReport } from './runtime/WGFXCompileError';
 export { WGSLCodeGenerator } from './runtime/WGSLCodeGenerator';
+export { WGSLReflector } from './runtime/WGSLReflector';
+export { PassGraph } from './runtime/PassGraph';
+export { PassProfiler } from './runtime/PassProfiler';
+export { Presenter } from './runtime/Presenter';
+export { PixelReader } from './runtime/PixelReader';
+export { UniformLayout } from './runtime/UniformLayout';
+export { ShaderValidator } from './runtime/ShaderValidator';
+export { IncludeLoader } from './runtime/IncludeLoader';
+export { parse } from './runtime/ShaderParser';
+export { print, format } from './runtime/ShaderPrinter';
+export type { ParseOptions, ParseResult } from './runtime/ShaderParser';
+export type { GeneratedModule, PassBinding } from './runtime/WGSLCodeGenerator';
+export type { ReflectedBinding, ReflectedStruct, WGSLReflection } from './runtime/WGSLReflector';
+export type { UniformField, UniformValue } from './runtime/UniformLayout';
+export type { PassNode, PassEdge } from './runtime/PassGraph';
+export type { PassTiming, FrameProfile } from './runtime/PassProfiler';
+export type { PresentOptions } from './runtime/Presenter';
+export type { PixelArrays, ReadPixelsOptions } from './runtime/PixelReader';
+export type { ShaderDiagnostic, DiagnosticSeverity, SourcePosition, ValidationIssue, EffectMetadata,
+    IncludeFile, IncludeResolver, SourceLine, EffectSourceMap, GeneratedLineOrigin, MappedSourceLocation } from './types';
 export { Logger, LogLevel } from './utils/Logger';
+export { ExpressionEvaluator } from './utils/ExpressionEvaluator';
+export { TextureFormats } from './utils/TextureFormats';
+export type { TextureFormatInfo } from './utils/TextureFormats';
@@ -0,0 +1,141 @@
+import { IncludeFile, IncludeResolver } from '@/types';
+import { Logger } from '@/utils/Logger';
+
+/**
+ * Matches an `//! INCLUDE` directive and captures its argument.
+ * 匹配 `//! INCLUDE` 指令並擷取其參數。
+ */
+const INCLUDE_PATTERN = /^\s*\/\/!\s*INCLUDE\b(.*)$/gim;
+
+/**
+ * Loads the files referenced by `//! INCLUDE` ahead of parsing.
+ * ---
+ * 在解析前預先載入 `//! INCLUDE` 所引用的檔案。
+ * 解析器本身是同步的，因此非同步的解析器（檔案系統、fetch）需先在此載入，
+ * 再以同步的 `resolveInclude` 交給 {@link parse} 使用。
+ *
+ * @group Core
+ * @category Loaders
+ *
+ * @example
+ * ```ts
+ * const loader = new IncludeLoader(IncludeLoader.fromFetch('/effects/'));
+ * const resolveInclude = await loader.load(effectCode);
+ * const shaderInfo = parse(effectCode, { resolveInclude });
+ * ```
+ */
+export class IncludeLoader {
+    /** @zh 實際載入檔案的解析器（可為非同步） */
+    public resolver: IncludeResolver;
+
+    /**
+     * @param resolver - The resolver used to fetch include files / 用於載入 include 檔案的解析器
+     */
+    constructor(resolver: IncludeResolver) {
+        this.resolver = resolver;
+    }
+
+    /**
+     * Resolver reading files from the local file system (Node.js).
+     * ---
+     * 從本機檔案系統讀取檔案的解析器（Node.js）。
+     *
+     * @group Resolvers
+     * @param baseDir - Directory for includes of the main source, defaults to `process.cwd()` / 主檔案 include 的基準目錄
+     */
+    public static fromFileSystem(baseDir?: string): IncludeResolver {
+        return async (path: string, from?: string): Promise<IncludeFile | undefined> => {
+            const nodePath = await import('path');
+            const fs = await import('fs');
+            const dir = from ? nodePath.dirname(from) : (baseDir ?? process.cwd());
+            const id = nodePath.resolve(dir, path);
+            try {
+                return { id, code: await fs.promises.readFile(id, 'utf-8') };
+            } catch (e: any) {
+                Logger.debug(`IncludeLoader: Cannot read ${id}: ${e.message}`);
+                return undefined;
+            }
+        };
+    }
+
+    /**
+     * Resolver downloading files with `fetch` (browser).
+     * ---
+     * 透過 `fetch` 下載檔案的解析器（瀏覽器）。
+     *
+     * @group Resolvers
+     * @param baseUrl - URL for includes of the main source, defaults to the page location / 主檔案 include 的基準網址
+     */
+    public static fromFetch(baseUrl?: string): IncludeResolver {
+        return async (path: string, from?: string): Promise<IncludeFile | undefined> => {
+            const base = baseUrl ?? (typeof location !== 'undefined' ? location.href : undefined);
+            try {
+                // A relative main-source URL resolves against the base; without any base, URL throws
+                // 相對的主檔案網址以基準網址解析；沒有基準網址時 URL 會拋出錯誤
+                const id = new URL(path, from !== undefined ? new URL(from, base) : base).href;
+                const response = await fetch(id);
+                if (!response.ok) {
+                    Logger.debug(`IncludeLoader: ${id} responded ${response.status}`);
+                    return undefined;
+                }
+                return { id, code: await response.text() };
+            } catch (e: any) {
+                Logger.debug(`IncludeLoader: Cannot fetch ${path}${from !== undefined ? ` from ${from}` : ''}: ${e.message}`);
+                return undefined;
+            }
+        };
+    }
+
+    /**
+     * Pick the file system resolver in Node.js and the fetch resolver elsewhere.
+     * ---
+     * 在 Node.js 中使用檔案系統解析器，其他環境則使用 fetch 解析器。
+     *
+     * @group Resolvers
+     */
+    public static createDefaultResolver(): IncludeResolver {
+        const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+        return isNode ? IncludeLoader.fromFileSystem() : IncludeLoader.fromFetch();
+    }
+
+    /**
+     * Load every file reachable through `//! INCLUDE` from the given source.
+     * ---
+     * 載入從指定原始碼經由 `//! INCLUDE` 可到達的所有檔案。
+     * 無法載入的檔案會留給解析器回報為診斷訊息。
+     *
+     * @group Loading
+     * @param source - The main effect source / 主特效原始碼
+     * @param from - Id of the main source, if known / 主檔案的 id（若已知）
+     * @returns A synchronous resolver backed by the loaded files, for {@link ParseOptions.resolveInclude}
+     */
+    public async load(source: string, from?: string): Promise<(path: string, from?: string) => IncludeFile | undefined> {
+        const cache = new Map<string, IncludeFile | undefined>();
+        const visited = new Set<string>();
+        const key = (path: string, from?: string) => `${from ?? ''}\u0000${path}`;
+
+        const visit = async (text: string, textId?: string): Promise<void> => {
+            for (const match of text.matchAll(INCLUDE_PATTERN)) {
+                const path = match[1].trim().replace(/^"(.*)"$/, '$1');
+                const cacheKey = key(path, textId);
+                if (cache.has(cacheKey)) continue;
+
+                const file = await this.resolver(path, textId);
+                cache.set(cacheKey, file);
+
+                // Cycles are reported by the parser; only make sure we terminate here
+                // 循環引用由解析器回報，這裡只需確保遞迴會終止
+                if (file && !visited.has(file.id)) {
+                    visited.add(file.id);
+                    await visit(file.code, file.id);
+                }
+            }
+        };
+
+        if (from !== undefined) visited.add(from);
+        await visit(source, from);
+        Logger.debug(`IncludeLoader: Resolved ${cache.size} include reference(s)`);
+
+        return (path: string, from?: string) => cache.get(key(path, from));
+    }
+}
@@ -0,0 +1,249 @@
+import { WGFXShaderInfo, ValidationIssue } from '@/types';
+
+/**
+ * A pass in the dependency graph.
+ * ---
+ * 依賴圖中的通道。
+ *
+ * @category Interfaces
+ */
+export interface PassNode {
+    /** Pass index / 通道索引 */
+    index: number;
+    /** Value of //! DESC, if any / //! DESC 的值（若有） */
+    desc?: string;
+    /** Textures read / 讀取的紋理 */
+    in: string[];
+    /** Textures written / 寫入的紋理 */
+    out: string[];
+    /** Whether the pass contributes to OUTPUT / 是否對 OUTPUT 有貢獻 */
+    live: boolean;
+}
+
+/**
+ * An ordering constraint between two passes caused by a texture.
+ * ---
+ * 由紋理造成的兩個通道間的順序限制。
+ * - `read-after-write`：`to` 讀取 `from` 寫入的內容
+ * - `write-after-read`：`to` 覆寫 `from` 尚需讀取的內容
+ * - `write-after-write`：`to` 覆寫 `from` 寫入的內容
+ *
+ * @category Interfaces
+ */
+export interface PassEdge {
+    /** Pass that must run first / 必須先執行的通道 */
+    from: number;
+    /** Pass that must run after / 必須後執行的通道 */
+    to: number;
+    /** Texture causing the dependency / 造成依賴的紋理 */
+    resource: string;
+    /** Kind of dependency / 依賴種類 */
+    kind: 'read-after-write' | 'write-after-read' | 'write-after-write';
+}
+
+/**
+ * Resource dependency graph of the passes of an effect.
+ * ---
+ * 特效各通道的資源依賴圖。
+ * 由每個通道的 `//! IN` 與 `//! OUT` 建立，經拓撲排序得出執行順序，
+ * 並回報循環依賴、先讀後寫的危險，以及輸出從未流向 OUTPUT 的通道（這些通道會被略過）。
+ *
+ * 只有一個寫入者的紋理不受檔案順序限制；被多個通道寫入的紋理（如乒乓緩衝）
+ * 則依檔案順序區分版本，讀取者讀取檔案中位於其前、最近一次的寫入。
+ *
+ * @group Core
+ * @category Graph
+ *
+ * @example
+ * ```ts
+ * const graph = new PassGraph(shaderInfo, ['INPUT', 'OUTPUT']);
+ * graph.order;   // e.g. [1, 2, 4]: pass 3 is dead / 通道 3 未被使用
+ * graph.toDot(); // Graphviz source for visualization / 供視覺化的 Graphviz 原始碼
+ * ```
+ */
+export class PassGraph {
+    /** @zh 依檔案順序排列的通道節點 */
+    public nodes: PassNode[];
+    /** @zh 通道之間的順序限制 */
+    public edges: PassEdge[];
+    /** @zh 有效通道的執行順序（通道索引），不含未使用的通道 */
+    public order: number[];
+    /** @zh 輸出未流向 OUTPUT 而被略過的通道索引 */
+    public deadPasses: number[];
+    /** @zh 建立依賴圖時發現的問題 */
+    public issues: ValidationIssue[];
+
+    /**
+     * Build the graph and the execution order.
+     * ---
+     * 建立依賴圖與執行順序。
+     *
+     * @param shaderInfo - Shader info with conditions resolved / 已解析條件的著色器資訊
+     * @param externalTextures - Textures filled by the host before the passes run (e.g. INPUT) / 由主機端在通道執行前填入的紋理
+     * @param sink - Texture the effect produces / 特效產生的紋理
+     */
+    constructor(shaderInfo: WGFXShaderInfo, externalTextures: string[] = ['INPUT', 'OUTPUT'], sink: string = 'OUTPUT') {
+        this.nodes = shaderInfo.passes.map(p => ({
+            index: p.index, desc: p.desc, in: [...(p.in ?? [])], out: [...(p.out ?? [])], live: false
+        }));
+        this.edges = [];
+        this.issues = [];
+
+        this._buildEdges(new Set(externalTextures));
+        this._markLive(sink);
+        this.deadPasses = this.nodes.filter(n => !n.live).map(n => n.index);
+        this.deadPasses.forEach(index => this.issues.push({
+            severity: 'warning',
+            code: 'dead-pass',
+            message: `PASS ${index} does not contribute to ${sink} and is skipped / PASS ${index} 對 ${sink} 沒有貢獻，將被略過`,
+            pass: index
+        }));
+        this.order = this._sort().filter(index => !this.deadPasses.includes(index));
+    }
+
+    /**
+     * Get the passes a pass reads from.
+     * ---
+     * 獲取某通道所讀取內容的來源通道。
+     *
+     * @group Query
+     */
+    public getDependencies(index: number): number[] {
+        return [...new Set(this.edges.filter(e => e.to === index && e.kind === 'read-after-write').map(e => e.from))];
+    }
+
+    /**
+     * Serialize the graph as Graphviz DOT; dead passes are dashed.
+     * ---
+     * 以 Graphviz DOT 格式輸出依賴圖，未使用的通道以虛線表示。
+     *
+     * @group Query
+     */
+    public toDot(): string {
+        const lines = ['digraph WGFX {'];
+        this.nodes.forEach(n => {
+            const label = n.desc ? `PASS ${n.index}\\n${n.desc}` : `PASS ${n.index}`;
+            lines.push(`    p${n.index} [label="${label.replace(/"/g, '\\"')}"${n.live ? '' : ', style=dashed'}];`);
+        });
+        this.edges.forEach(e => {
+            const style = e.kind === 'read-after-write' ? '' : ', style=dotted';
+            lines.push(`    p${e.from} -> p${e.to} [label="${e.resource}"${style}];`);
+        });
+        lines.push('}');
+        return lines.join('\n');
+    }
+
+    /**
+     * Derive the edges of every texture from its writers and readers.
+     * ---
+     * 依各紋理的寫入者與讀取者推導依賴邊。
+     */
+    private _buildEdges(external: Set<string>): void {
+        const textures = new Set(this.nodes.flatMap(n => [...n.in, ...n.out]));
+
+        textures.forEach(texture => {
+            const writers = this.nodes.filter(n => n.out.includes(texture));
+            const readers = this.nodes.filter(n => n.in.includes(texture));
+
+            // Consecutive writers keep their file order / 多個寫入者維持檔案順序
+            for (let i = 1; i < writers.length; i++) {
+                this._addEdge(writers[i - 1].index, writers[i].index, texture, 'write-after-write');
+            }
+
+            readers.forEach(reader => {
+                const others = writers.filter(w => w !== reader);
+                if (others.length === 0) {
+                    if (!external.has(texture) && !writers.includes(reader)) {
+                        this.issues.push({
+                            severity: 'warning',
+                            code: 'read-before-write',
+                            message: `PASS ${reader.index} reads "${texture}", which no pass writes / PASS ${reader.index} 讀取的 "${texture}" 沒有任何通道寫入`,
+                            pass: reader.index,
+                            resource: texture
+                        });
+                    }
+                    return;
+                }
+                if (others.length === 1) {
+                    this._addEdge(others[0].index, reader.index, texture, 'read-after-write');
+                    return;
+                }
+
+                // Several writers: read the latest one before the reader in the file / 多個寫入者：讀取檔案中位於其前的最近一次寫入
+                const position = this.nodes.indexOf(reader);
+                const previous = others.filter(w => this.nodes.indexOf(w) < position).pop();
+                const next = others.find(w => this.nodes.indexOf(w) > (previous ? this.nodes.indexOf(previous) : -1));
+                if (previous) {
+                    this._addEdge(previous.index, reader.index, texture, 'read-after-write');
+                } else if (!external.has(texture)) {
+                    this.issues.push({
+                        severity: 'warning',
+                        code: 'read-before-write',
+                        message: `PASS ${reader.index} reads "${texture}" before any pass writes it, getting the previous frame / PASS ${reader.index} 在任何通道寫入 "${texture}" 之前讀取，將取得前一幀的內容`,
+                        pass: reader.index,
+                        resource: texture
+                    });
+                }
+                if (next) this._addEdge(reader.index, next.index, texture, 'write-after-read');
+            });
+        });
+    }
+
+    /**
+     * Add an edge unless it links a pass to itself or already exists.
+     * ---
+     * 新增依賴邊，忽略自我連結與重複的邊。
+     */
+    private _addEdge(from: number, to: number, resource: string, kind: PassEdge['kind']): void {
+        if (from === to) return;
+        if (this.edges.some(e => e.from === from && e.to === to && e.resource === resource && e.kind === kind)) return;
+        this.edges.push({ from, to, resource, kind });
+    }
+
+    /**
+     * Mark the passes whose results reach the sink texture.
+     * ---
+     * 標記結果能流向輸出紋理的通道。
+     */
+    private _markLive(sink: string): void {
+        const pending = this.nodes.filter(n => n.out.includes(sink));
+        while (pending.length > 0) {
+            const node = pending.pop()!;
+            if (node.live) continue;
+            node.live = true;
+            this.getDependencies(node.index).forEach(index => pending.push(this.nodes.find(n => n.index === index)!));
+        }
+    }
+
+    /**
+     * Topologically sort the passes, preferring file order among ready passes, and report cycles.
+     * ---
+     * 拓撲排序所有通道，在可執行的通道間優先採用檔案順序，並回報循環依賴。
+     */
+    private _sort(): number[] {
+        const incoming = new Map(this.nodes.map(n => [n.index, 0]));
+        this.edges.forEach(e => incoming.set(e.to, incoming.get(e.to)! + 1));
+
+        const order: number[] = [];
+        const remaining = [...this.nodes];
+        while (remaining.length > 0) {
+            const ready = remaining.findIndex(n => incoming.get(n.index) === 0);
+            if (ready < 0) break;
+            const [node] = remaining.splice(ready, 1);
+            order.push(node.index);
+            this.edges.filter(e => e.from === node.index).forEach(e => incoming.set(e.to, incoming.get(e.to)! - 1));
+        }
+
+        if (remaining.length > 0) {
+            const cycle = remaining.map(n => n.index);
+            this.issues.push({
+                severity: 'error',
+                code: 'pass-cycle',
+                message: `PASS ${cycle.join(', ')} cannot be ordered because of a dependency cycle / PASS ${cycle.join(', ')} 因循環依賴而無法排序`,
+                pass: cycle[0]
+            });
+            order.push(...cycle); // Keep file order for the rest / 其餘維持檔案順序
+        }
+        return order;
+    }
+}
@@ -0,0 +1,254 @@
+/// <reference types="@webgpu/types" />
+import { Logger } from '@/utils/Logger';
+
+/**
+ * Measured duration of one pass.
+ * ---
+ * 單一通道的量測耗時。
+ *
+ * @category Interfaces
+ */
+export interface PassTiming {
+    /** Pass index / 通道索引 */
+    index: number;
+    /** Value of //! DESC, if any / //! DESC 的值（若有） */
+    desc?: string;
+    /** Duration in milliseconds / 耗時（毫秒） */
+    durationMs: number;
+}
+
+/**
+ * Timings of one frame.
+ * ---
+ * 單一幀的計時結果。
+ *
+ * @category Interfaces
+ */
+export interface FrameProfile {
+    /** Frame number, counted from when profiling was enabled / 幀編號，自啟用分析起計算 */
+    frame: number;
+    /**
+     * 'gpu' for timestamp queries, 'cpu' for submit-to-completion time measured on the CPU.
+     * @zh 'gpu' 表示時間戳查詢；'cpu' 表示於 CPU 端量測的提交至完成時間
+     */
+    mode: 'gpu' | 'cpu';
+    /** Timings keyed by pass index / 以通道索引為鍵的計時 */
+    passes: Record<number, PassTiming>;
+    /** Sum of the pass durations in milliseconds / 各通道耗時總和（毫秒） */
+    totalMs: number;
+}
+
+/**
+ * Timestamps written by one frame, waiting to be read back.
+ * ---
+ * 單一幀寫入、等待讀回的時間戳。
+ *
+ * @internal
+ * @category Interfaces
+ */
+export interface PendingProfile {
+    /** Frame number / 幀編號 */
+    frame: number;
+    /** Readback buffer holding the resolved timestamps / 存放時間戳的讀回緩衝區 */
+    buffer: GPUBuffer;
+    /** Pass of each query pair / 各查詢對所屬的通道 */
+    slots: { index: number; desc?: string }[];
+}
+
+/**
+ * Number of readback buffers, so that a slow readback skips frames instead of stalling.
+ * 讀回緩衝區數量；讀回較慢時略過該幀而非阻塞。
+ */
+const READBACK_BUFFERS = 3;
+
+/**
+ * Per-pass GPU timing with `timestamp-query`, falling back to CPU-side submit timing.
+ * ---
+ * 以 `timestamp-query` 量測各通道的 GPU 耗時。
+ * 裝置需以 `requiredFeatures: ['timestamp-query']` 建立；不支援時改為在 CPU 端
+ * 逐一提交通道並等待完成來量測，結果較粗略且會讓該幀變慢，僅適合分析用途。
+ *
+ * @group Core
+ * @category Managers
+ *
+ * @example
+ * ```ts
+ * const profiler = new PassProfiler(device);
+ * profiler.beginFrame(passCount);
+ * pass = encoder.beginComputePass({ timestampWrites: profiler.timestampWrites(1, 'Conv-4x3x3x3') });
+ * const pending = profiler.resolve(encoder);
+ * device.queue.submit([encoder.finish()]);
+ * if (pending) console.log(await profiler.collect(pending));
+ * ```
+ */
+export class PassProfiler {
+    /** @zh WebGPU 裝置實例 */
+    public device: GPUDevice;
+    /** @zh 量測方式：'gpu' 使用時間戳查詢，'cpu' 為備援 */
+    public mode: 'gpu' | 'cpu';
+    /** @zh 最近一次完成讀回的計時結果 */
+    public lastProfile: FrameProfile | null;
+
+    private querySet: GPUQuerySet | null;
+    private resolveBuffer: GPUBuffer | null;
+    private readbackBuffers: GPUBuffer[];
+    private freeReadbackBuffers: GPUBuffer[];
+    private slots: { index: number; desc?: string }[];
+    private capacity: number;
+    private frame: number;
+
+    /**
+     * @param device - The active WebGPU device / 有效的 WebGPU 裝置
+     */
+    constructor(device: GPUDevice) {
+        this.device = device;
+        this.mode = device.features.has('timestamp-query') ? 'gpu' : 'cpu';
+        this.lastProfile = null;
+        this.querySet = null;
+        this.resolveBuffer = null;
+        this.readbackBuffers = [];
+        this.freeReadbackBuffers = [];
+        this.slots = [];
+        this.capacity = 0;
+        this.frame = 0;
+
+        if (this.mode === 'cpu') {
+            Logger.info('PassProfiler: "timestamp-query" is not enabled on the device, using CPU submit timing');
+        }
+    }
+
+    /**
+     * Start a frame, growing the query set when there are more passes.
+     * ---
+     * 開始新的一幀；通道數增加時擴充查詢集。
+     *
+     * @group Profiling
+     * @param passCount - Number of passes dispatched this frame / 此幀執行的通道數
+     */
+    public beginFrame(passCount: number): void {
+        this.frame++;
+        this.slots = [];
+        if (this.mode === 'gpu' && passCount > this.capacity) this._allocate(passCount);
+    }
+
+    /**
+     * Reserve the timestamp writes of a compute pass.
+     * ---
+     * 為計算通道保留時間戳寫入位置。
+     *
+     * @group Profiling
+     * @returns Descriptor for `beginComputePass`, or undefined in CPU mode or when the frame is full / 供 `beginComputePass` 使用的描述；CPU 模式或容量不足時為 undefined
+     */
+    public timestampWrites(index: number, desc?: string): GPUComputePassTimestampWrites | undefined {
+        if (this.mode !== 'gpu' || !this.querySet || this.slots.length >= this.capacity) return undefined;
+        const slot = this.slots.length;
+        this.slots.push({ index, desc });
+        return { querySet: this.querySet, beginningOfPassWriteIndex: slot * 2, endOfPassWriteIndex: slot * 2 + 1 };
+    }
+
+    /**
+     * Resolve this frame's timestamps into a readback buffer. Call before submitting the encoder.
+     * ---
+     * 將此幀的時間戳解析至讀回緩衝區，需在提交指令前呼叫。
+     *
+     * @group Profiling
+     * @returns Pending readback, or null when nothing was recorded or every readback buffer is busy / 待讀回的結果；未記錄或緩衝區皆忙碌時為 null
+     */
+    public resolve(encoder: GPUCommandEncoder): PendingProfile | null {
+        if (this.mode !== 'gpu' || this.slots.length === 0 || !this.querySet || !this.resolveBuffer) return null;
+        const buffer = this.freeReadbackBuffers.pop();
+        if (!buffer) return null;
+
+        const count = this.slots.length * 2;
+        encoder.resolveQuerySet(this.querySet, 0, count, this.resolveBuffer, 0);
+        encoder.copyBufferToBuffer(this.resolveBuffer, 0, buffer, 0, count * 8);
+        return { frame: this.frame, buffer, slots: this.slots };
+    }
+
+    /**
+     * Read back resolved timestamps once the GPU is done. Call after submitting.
+     * ---
+     * 在 GPU 完成後讀回時間戳，需在提交指令後呼叫。
+     *
+     * @group Profiling
+     * @returns The frame profile, also stored in {@link PassProfiler.lastProfile} / 該幀的計時結果
+     */
+    public async collect(pending: PendingProfile): Promise<FrameProfile> {
+        const { buffer, slots, frame } = pending;
+        try {
+            await buffer.mapAsync(GPUMapMode.READ, 0, slots.length * 16);
+            const times = new BigInt64Array(buffer.getMappedRange(0, slots.length * 16).slice(0));
+            buffer.unmap();
+
+            const timings = slots.map((slot, i) => ({
+                ...slot,
+                durationMs: Math.max(0, Number(times[i * 2 + 1] - times[i * 2])) / 1e6
+            }));
+            return this._store(frame, 'gpu', timings);
+        } finally {
+            // Buffers of a previous query set are dropped / 舊查詢集的緩衝區不再使用
+            if (this.readbackBuffers.includes(buffer)) this.freeReadbackBuffers.push(buffer);
+        }
+    }
+
+    /**
+     * Record timings measured on the CPU.
+     * ---
+     * 記錄在 CPU 端量測的計時。
+     *
+     * @group Profiling
+     */
+    public recordCpuTimings(timings: PassTiming[]): FrameProfile {
+        return this._store(this.frame, 'cpu', timings);
+    }
+
+    /**
+     * Release the query set and buffers.
+     * ---
+     * 釋放查詢集與緩衝區。
+     *
+     * @group Lifecycle
+     */
+    public destroy(): void {
+        this.querySet?.destroy();
+        this.resolveBuffer?.destroy();
+        this.readbackBuffers.forEach(b => b.destroy());
+        this.querySet = null;
+        this.resolveBuffer = null;
+        this.readbackBuffers = [];
+        this.freeReadbackBuffers = [];
+        this.capacity = 0;
+    }
+
+    /**
+     * Create the query set and buffers for a number of passes.
+     * ---
+     * 依通道數建立查詢集與緩衝區。
+     */
+    private _allocate(passCount: number): void {
+        this.destroy();
+        this.capacity = passCount;
+        const size = passCount * 2 * 8;
+        this.querySet = this.device.createQuerySet({ type: 'timestamp', count: passCount * 2, label: 'WGFX Pass Timestamps' });
+        this.resolveBuffer = this.device.createBuffer({
+            size, usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC, label: 'WGFX Timestamp Resolve'
+        });
+        this.readbackBuffers = Array.from({ length: READBACK_BUFFERS }, (_, i) => this.device.createBuffer({
+            size, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST, label: `WGFX Timestamp Readback ${i}`
+        }));
+        this.freeReadbackBuffers = [...this.readbackBuffers];
+    }
+
+    /**
+     * Build a frame profile and keep it as the latest one.
+     * ---
+     * 建立幀計時結果並保存為最新結果。
+     */
+    private _store(frame: number, mode: 'gpu' | 'cpu', timings: PassTiming[]): FrameProfile {
+        const passes: Record<number, PassTiming> = {};
+        timings.forEach(t => passes[t.index] = t);
+        const profile = { frame, mode, passes, totalMs: timings.reduce((sum, t) => sum + t.durationMs, 0) };
+        if (!this.lastProfile || frame >= this.lastProfile.frame) this.lastProfile = profile;
+        return profile;
+    }
+}
@@ -1,5 +1,8 @@
 /// <reference types="@webgpu/types" />
 import { ResourceManager } from './ResourceManager';
+import { GeneratedModule, PassBinding } from './WGSLCodeGenerator';
+import { WGFXCompileError, PassCompileMessage, PassCompileReport } from './WGFXCompileError';
+import { MappedSourceLocation } from '@/types';
 import { Logger } from '@/utils/Logger';
 
 /**
@@ -13,14 +16,29 @@ import { Logger } from '@/utils/Logger';
 export interface StoredPipeline {
     /** The WebGPU compute pipeline / WebGPU 計算管線 */
     computePipeline: GPUComputePipeline;
-    /** The bind group layout / 綁定組佈局 */
-    bindGroupLayout: GPUBindGroupLayout;
+    /** Bind group layouts, indexed by group / 綁定組佈局，以群組索引排列 */
+    bindGroupLayouts: GPUBindGroupLayout[];
     /** Resource requirements / 資源需求配置 */
     resources: any;
     /** Pass metadata / 通道元數據 */
     passInfo: any;
 }
 
+/**
+ * Bind groups of a pass and the resources they were created from.
+ * ---
+ * 通道的綁定組及建立它們時所使用的資源。
+ *
+ * @internal
+ * @category Interfaces
+ */
+interface CachedBindGroups {
+    /** Resolved resource of each binding, in binding order / 各綁定解析出的資源，依綁定順序排列 */
+    resources: (GPUBuffer | GPUSampler | GPUTextureView)[];
+    /** Bind groups, indexed by group / 綁定組，以群組索引排列 */
+    bindGroups: GPUBindGroup[];
+}
+
 /**
  * Manages the creation and execution of compute pipelines.
  * ---
@@ -33,120 +51,174 @@ export class PipelineManager {
     public resourceManager: ResourceManager;
     /** Map of pass index to pipeline / 通道索引與管線的映射 */
     public pipelines: Map<number, StoredPipeline>;
+    /** Bind groups reused across frames, keyed by pass index / 跨幀重複使用的綁定組，以通道索引為鍵 */
+    private bindGroupCache: Map<number, CachedBindGroups>;
+    /** Linear sampler for samplers without a SAMPLER block, created on first use / 沒有 SAMPLER 區塊之取樣器所用的線性取樣器 */
+    private fallbackSampler: GPUSampler | null;
 
     constructor(device: GPUDevice, resourceManager: ResourceManager) {
         this.device = device;
         this.resourceManager = resourceManager;
         this.pipelines = new Map();
+        this.bindGroupCache = new Map();
+        this.fallbackSampler = null;
     }
 
     /**
      * Create pipelines for all shader modules.
      * ---
      * 為所有產生的 WGSL 模組建立計算管線。
+     * 每個通道的編譯訊息與驗證錯誤都會被收集，任一通道失敗時以 {@link WGFXCompileError} 一併拋出。
      *
      * @group Pipelines
      * @param shaderInfo - Global shader metadata / 全域著色器元數據
      * @param generatedModules - Generated WGSL modules / 產生的 WGSL 模組
+     * @throws {@link WGFXCompileError} 當任一通道編譯或驗證失敗時拋出
      */
-    public async createPipelines(shaderInfo: any, generatedModules: any[]): Promise<void> {
+    public async createPipelines(shaderInfo: any, generatedModules: GeneratedModule[]): Promise<void> {
         this.pipelines.clear();
+        this.bindGroupCache.clear();
+        const failures: PassCompileReport[] = [];
 
         for (const module of generatedModules) {
             // Find corresponding pass info / 尋找對應的通道資訊
             const pass = shaderInfo.passes.find((p: any) => p.index === module.passIndex);
             if (!pass) continue;
 
-            // Create shader module from WGSL / 從 WGSL 代碼建立著色器模組
-            const shaderModule = this.device.createShaderModule({
-                code: module.wgslCode,
-                label: `Pass ${module.passIndex} Shader`
-            });
+            const messages: PassCompileMessage[] = [];
+            let created: { computePipeline: GPUComputePipeline; bindGroupLayouts: GPUBindGroupLayout[] } | null = null;
 
-            // Monitor compilation status and log messages / 監控編譯狀態並記錄訊息
-            shaderModule.getCompilationInfo().then(info => {
-                info.messages.forEach(msg => {
-                    const type = msg.type === 'error' ? 'ERROR' : (msg.type === 'warning' ? 'WARN' : 'INFO');
-                    const logMsg = `Shader ${module.passIndex}: [${type}] ${msg.message} at line ${msg.lineNum}, col ${msg.linePos}`;
-                    if (msg.type === 'error') Logger.error(logMsg);
-                    else if (msg.type === 'warning') Logger.warn(logMsg);
-                    else Logger.debug(logMsg);
+            // Capture validation errors of this pass / 捕捉此通道的驗證錯誤
+            this.device.pushErrorScope('validation');
+            try {
+                // Create shader module from WGSL / 從 WGSL 代碼建立著色器模組
+                const shaderModule = this.device.createShaderModule({
+                    code: module.wgslCode,
+                    label: `Pass ${module.passIndex} Shader`
                 });
-            });
 
-            const bindingMap = new Map<number, GPUBindGroupLayoutEntry>();
+                // Wait for compilation and log messages / 等待編譯完成並記錄訊息
+                const info = await shaderModule.getCompilationInfo();
+                info.messages.forEach(msg => {
+                    const message: PassCompileMessage = {
+                        type: msg.type,
+                        message: msg.message,
+                        lineNum: msg.lineNum,
+                        linePos: msg.linePos,
+                        location: this.mapLocation(module, msg.lineNum, msg.linePos)
+                    };
+                    messages.push(message);
+                    this._logCompileMessage(module.passIndex, message);
+                });
 
-            // Setup Default Bindings / 設定預設綁定項目
-            // Binding 0: Default sampler for texture sampling / 綁定 0：用於紋理取樣的預設取樣器
-            bindingMap.set(0, {
-                binding: 0,
-                visibility: GPUShaderStage.COMPUTE,
-                sampler: { type: 'filtering' }
-            });
+                if (!messages.some(m => m.type === 'error')) {
+                    created = await this._createPipeline(module, shaderModule);
+                }
+            } catch (e: any) {
+                // Rejected createComputePipelineAsync (GPUPipelineError) / createComputePipelineAsync 被拒絕
+                messages.push({ type: 'error', message: e.message, lineNum: 0, linePos: 0 });
+            } finally {
+                const scopeError = await this.device.popErrorScope();
+                if (scopeError) messages.push({ type: 'error', message: scopeError.message, lineNum: 0, linePos: 0 });
+            }
 
-            // Binding 1: Uniform buffer for parameters / 綁定 1：存放參數的 Uniform 緩衝區
-            if (module.resources.parameters.length > 0) {
-                bindingMap.set(1, {
-                    binding: 1,
-                    visibility: GPUShaderStage.COMPUTE,
-                    buffer: { type: 'uniform' }
-                });
+            if (!created || messages.some(m => m.type === 'error')) {
+                failures.push({ passIndex: module.passIndex, desc: pass.desc, messages });
+                continue;
             }
 
-            // Binding 4: Scene info (Global constants) / 綁定 4：場景資訊（全域常量）
-            bindingMap.set(4, {
-                binding: 4,
-                visibility: GPUShaderStage.COMPUTE,
-                buffer: { type: 'uniform' }
+            this.pipelines.set(module.passIndex, {
+                ...created, resources: module.resources, passInfo: pass
             });
+        }
 
-            // Process textures (Sampled or Storage) / 處理紋理資源（取樣或儲存型）
-            module.resources.textures.forEach((tex: any) => {
-                const format = 'rgba16float'; // Internal high-precision format / 內部高精度格式
-                if (tex.isStorage) {
-                    bindingMap.set(tex.binding, {
-                        binding: tex.binding,
-                        visibility: GPUShaderStage.COMPUTE,
-                        storageTexture: { format: format as GPUTextureFormat, access: 'write-only' }
-                    });
-                } else {
-                    bindingMap.set(tex.binding, {
-                        binding: tex.binding,
-                        visibility: GPUShaderStage.COMPUTE,
-                        texture: { sampleType: 'float' }
-                    });
-                }
-            });
+        if (failures.length > 0) {
+            this.pipelines.clear();
+            throw new WGFXCompileError(failures);
+        }
+    }
 
-            // Process custom samplers / 處理自定義取樣器
-            module.resources.samplers.forEach((samp: any) => {
-                if (samp.binding !== 0) {
-                    bindingMap.set(samp.binding, {
-                        binding: samp.binding,
-                        visibility: GPUShaderStage.COMPUTE,
-                        sampler: { type: 'filtering' }
-                    });
-                }
-            });
+    /**
+     * Build the bind group layouts and the compute pipeline of a module.
+     * ---
+     * 建立模組的綁定組佈局與計算管線。佈局完全由產生器反射出的綁定推導而來。
+     */
+    private async _createPipeline(
+        module: GeneratedModule,
+        shaderModule: GPUShaderModule
+    ): Promise<{ computePipeline: GPUComputePipeline; bindGroupLayouts: GPUBindGroupLayout[] }> {
+        const bindings: PassBinding[] = module.resources.bindings;
 
-            // Create layouts and pipeline / 建立佈局與管線
-            const entries = Array.from(bindingMap.values()).sort((a, b) => a.binding - b.binding);
-            const bindGroupLayout = this.device.createBindGroupLayout({ entries });
-            const pipelineLayout = this.device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
+        // One layout per group up to the highest used one / 每個群組一個佈局，直到使用到的最大群組
+        const groupCount = bindings.reduce((max, b) => Math.max(max, b.group + 1), 0);
+        const bindGroupLayouts = Array.from({ length: groupCount }, (_, group) => this.device.createBindGroupLayout({
+            entries: bindings.filter(b => b.group === group).map(b => this._toLayoutEntry(b)),
+            label: `Pass ${module.passIndex} Group ${group} Layout`
+        }));
+        const pipelineLayout = this.device.createPipelineLayout({ bindGroupLayouts });
 
-            // Compile pipeline asynchronously / 非同步編譯管線
-            const computePipeline = await this.device.createComputePipelineAsync({
-                layout: pipelineLayout,
-                compute: { module: shaderModule, entryPoint: 'main_cs' },
-                label: `Pass ${module.passIndex} Pipeline`
-            });
+        // Compile pipeline asynchronously / 非同步編譯管線
+        const computePipeline = await this.device.createComputePipelineAsync({
+            layout: pipelineLayout,
+            compute: { module: shaderModule, entryPoint: 'main_cs' },
+            label: `Pass ${module.passIndex} Pipeline`
+        });
 
-            this.pipelines.set(module.passIndex, {
-                computePipeline, bindGroupLayout, resources: module.resources, passInfo: pass
-            });
+        return { computePipeline, bindGroupLayouts };
+    }
+
+    /**
+     * Convert a pass binding into a bind group layout entry.
+     * ---
+     * 將通道綁定轉換為綁定組佈局項目。
+     */
+    private _toLayoutEntry(b: PassBinding): GPUBindGroupLayoutEntry {
+        const entry = { binding: b.binding, visibility: GPUShaderStage.COMPUTE };
+        switch (b.resource) {
+            case 'scene':
+            case 'uniforms':
+                return { ...entry, buffer: { type: 'uniform' } };
+            case 'sampler':
+                return { ...entry, sampler: { type: b.samplerType ?? 'filtering' } };
+            case 'storageTexture':
+                return { ...entry, storageTexture: { format: b.format as GPUTextureFormat, access: b.access ?? 'write-only' } };
+            case 'texture':
+                return { ...entry, texture: { sampleType: b.sampleType ?? 'float' } };
         }
     }
 
+    /**
+     * Log a compilation message with its effect location.
+     * ---
+     * 記錄編譯訊息及其在特效原始碼中的位置。
+     */
+    private _logCompileMessage(passIndex: number, msg: PassCompileMessage): void {
+        const type = msg.type === 'error' ? 'ERROR' : (msg.type === 'warning' ? 'WARN' : 'INFO');
+        const where = msg.location
+            ? `${msg.location.block} (${msg.location.source ?? 'effect'}:${msg.location.line}:${msg.location.column})`
+            : `generated line ${msg.lineNum}, col ${msg.linePos}`;
+        const logMsg = `Shader ${passIndex}: [${type}] ${msg.message} at ${where}`;
+        if (msg.type === 'error') Logger.error(logMsg);
+        else if (msg.type === 'warning') Logger.warn(logMsg);
+        else Logger.debug(logMsg);
+    }
+
+    /**
+     * Translate a position in a generated module back to the effect source.
+     * ---
+     * 將產生模組中的位置轉換回特效原始碼中的位置。
+     *
+     * @group Pipelines
+     * @param module - The generated module / 產生的模組
+     * @param lineNum - 1-based line in the generated WGSL / 產生之 WGSL 中的行號 (從 1 開始)
+     * @param linePos - 1-based column in the generated WGSL / 產生之 WGSL 中的欄號 (從 1 開始)
+     * @returns The effect location, or undefined for injected code / 特效原始碼位置；注入的代碼則為 undefined
+     */
+    public mapLocation(module: GeneratedModule, lineNum: number, linePos: number): MappedSourceLocation | undefined {
+        const origin = lineNum > 0 ? module.lineMap[lineNum - 1] : null;
+        return origin ? { ...origin, column: linePos } : undefined;
+    }
+
     /**
      * Dispatch a compute pass.
      * ---
@@ -155,60 +227,20 @@ export class PipelineManager {
      * @group Execution
      * @param passInfo - Pass metadata / 通道元數據
      * @param commandEncoder - GPU command encoder / 指令編碼器
+     * @param timestampWrites - Optional timestamp queries for profiling / 選用的分析用時間戳查詢
      */
-    public dispatchPass(passInfo: any, commandEncoder: GPUCommandEncoder): void {
+    public dispatchPass(passInfo: any, commandEncoder: GPUCommandEncoder, timestampWrites?: GPUComputePassTimestampWrites): void {
         const pipeline = this.pipelines.get(passInfo.index);
         if (!pipeline) {
             throw new Error(`Pipeline for pass ${passInfo.index} not found`);
         }
 
-        const { computePipeline, bindGroupLayout, resources, passInfo: originalPassInfo } = pipeline;
-        const groupEntries: GPUBindGroupEntry[] = [];
-
-        // 1. Get or create default sampler / 獲取或建立預設取樣器
-        let defaultSampler = this.resourceManager.getSampler('sam');
-        if (!defaultSampler) {
-            defaultSampler = this.device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
-        }
-        groupEntries.push({ binding: 0, resource: defaultSampler });
-
-        // 2. Bind uniform buffer if needed / 若有需要則綁定 Uniform 緩衝區
-        if (resources.parameters.length > 0) {
-            const ub = this.resourceManager.getUniformBuffer();
-            if (!ub) throw new Error("Uniform buffer missing");
-            groupEntries.push({ binding: 1, resource: { buffer: ub } });
-        }
-
-        // 3. Bind all required textures / 綁定所有需要的紋理
-        resources.textures.forEach((tex: any) => {
-            const mode = tex.isStorage ? 'storage' : 'sampled';
-            const view = this.resourceManager.getTextureView(tex.name, mode);
-            groupEntries.push({ binding: tex.binding, resource: view });
-        });
-
-        // 4. Bind additional samplers / 綁定額外的取樣器
-        resources.samplers.forEach((samp: any) => {
-            if (samp.binding !== 0) {
-                const s = this.resourceManager.getSampler(samp.name);
-                if (s) groupEntries.push({ binding: samp.binding, resource: s });
-            }
-        });
-
-        // 5. Bind global scene constants / 綁定全域場景常量
-        const sceneBuffer = this.resourceManager.getSceneBuffer();
-        if (sceneBuffer) {
-            groupEntries.push({ binding: 4, resource: { buffer: sceneBuffer } });
-        }
-
-        // Initialize compute pass / 初始化計算通道
-        const bindGroup = this.device.createBindGroup({
-            layout: bindGroupLayout,
-            entries: groupEntries
-        });
+        const { computePipeline, resources, passInfo: originalPassInfo } = pipeline;
+        const bindGroups = this._getBindGroups(passInfo.index, pipeline);
 
-        const passEncoder = commandEncoder.beginComputePass();
+        const passEncoder = commandEncoder.beginComputePass(timestampWrites ? { timestampWrites } : undefined);
         passEncoder.setPipeline(computePipeline);
-        passEncoder.setBindGroup(0, bindGroup);
+        bindGroups.forEach((bindGroup, group) => passEncoder.setBindGroup(group, bindGroup));
 
         // Determine dispatch dimensions based on output size / 根據輸出大小決定分發維度
         const outName = originalPassInfo.out[0];
@@ -216,7 +248,7 @@ export class PipelineManager {
         if (!outTex) throw new Error(`Output texture "${outName}" not found`);
 
         // Calculate grid size (Workgroups) / 計算網格大小
-        const workgroupSize = originalPassInfo.blockSize || originalPassInfo.numThreads;
+        const workgroupSize = resources.workgroupSize;
         const dx = Math.ceil(outTex.width / workgroupSize[0]);
         const dy = Math.ceil(outTex.height / workgroupSize[1]);
 
@@ -226,6 +258,77 @@ export class PipelineManager {
         passEncoder.end();
     }
 
+    /**
+     * Get the bind groups of a pass, rebuilding them only when a bound resource was recreated.
+     * ---
+     * 獲取通道的綁定組。只有在綁定的紋理視圖、取樣器或緩衝區被重新建立（例如調整尺寸後）時才重建。
+     */
+    private _getBindGroups(passIndex: number, pipeline: StoredPipeline): GPUBindGroup[] {
+        const bindings: PassBinding[] = pipeline.resources.bindings;
+        const resolved = bindings.map(b => this._resolveBinding(b));
+
+        const cached = this.bindGroupCache.get(passIndex);
+        if (cached && cached.resources.every((resource, i) => resource === resolved[i])) {
+            return cached.bindGroups;
+        }
+
+        // Resolve every reflected binding to its resource / 將每個反射出的綁定解析為實際資源
+        const groupEntries: GPUBindGroupEntry[][] = pipeline.bindGroupLayouts.map(() => []);
+        bindings.forEach((b, i) => {
+            const resource = resolved[i];
+            const isBuffer = b.resource === 'scene' || b.resource === 'uniforms';
+            groupEntries[b.group].push({ binding: b.binding, resource: isBuffer ? { buffer: resource as GPUBuffer } : resource as GPUSampler | GPUTextureView });
+        });
+
+        const bindGroups = pipeline.bindGroupLayouts.map((layout, group) => this.device.createBindGroup({
+            layout, entries: groupEntries[group], label: `Pass ${passIndex} Group ${group}`
+        }));
+        this.bindGroupCache.set(passIndex, { resources: resolved, bindGroups });
+        Logger.debug(`Bind groups of pass ${passIndex} (re)created`);
+        return bindGroups;
+    }
+
+    /**
+     * Find the resource bound to a reflected binding.
+     * ---
+     * 找出反射綁定所對應的資源。
+     *
+     * @throws {Error} 當所需的資源不存在時拋出錯誤
+     */
+    private _resolveBinding(b: PassBinding): GPUBuffer | GPUSampler | GPUTextureView {
+        switch (b.resource) {
+            case 'scene': {
+                const sceneBuffer = this.resourceManager.getSceneBuffer();
+                if (!sceneBuffer) throw new Error('Scene buffer missing');
+                return sceneBuffer;
+            }
+            case 'uniforms': {
+                const ub = this.resourceManager.getUniformBuffer();
+                if (!ub) throw new Error(`Uniform buffer missing for "${b.name}"`);
+                return ub;
+            }
+            case 'sampler':
+                // Fall back to a linear sampler for samplers without a SAMPLER block / 沒有 SAMPLER 區塊的取樣器使用線性取樣器
+                return this.resourceManager.getSampler(b.name) ?? this._getFallbackSampler();
+            case 'storageTexture':
+                return this.resourceManager.getTextureView(b.name, 'storage');
+            case 'texture':
+                return this.resourceManager.getTextureView(b.name, 'sampled');
+        }
+    }
+
+    /**
+     * Get the shared linear sampler, creating it once.
+     * ---
+     * 獲取共用的線性取樣器，只建立一次。
+     */
+    private _getFallbackSampler(): GPUSampler {
+        if (!this.fallbackSampler) {
+            this.fallbackSampler = this.device.createSampler({ magFilter: 'linear', minFilter: 'linear', label: 'WGFX Fallback Sampler' });
+        }
+        return this.fallbackSampler;
+    }
+
     /**
      * Clear all cached pipelines.
      * ---
@@ -235,5 +338,7 @@ export class PipelineManager {
      */
     public dispose(): void {
         this.pipelines.clear();
+        this.bindGroupCache.clear();
+        this.fallbackSampler = null;
     }
 }
\ No newline at end of file
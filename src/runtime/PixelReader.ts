@@ -0,0 +1,271 @@
+/// <reference types="@webgpu/types" />
+
+/**
+ * Pixel formats returned by readback, always with four channels.
+ * ---
+ * 讀回結果的像素格式，一律為四通道。
+ *
+ * @category Interfaces
+ */
+export interface PixelArrays {
+    /** 8-bit unsigned normalized, 0-255 / 8 位元無號正規化值，0 到 255 */
+    rgba8: Uint8Array;
+    /** IEEE half floats stored as their bit patterns / 以位元模式存放的 IEEE 半精度浮點數 */
+    rgba16f: Uint16Array;
+    /** 32-bit floats / 32 位元浮點數 */
+    rgba32f: Float32Array;
+}
+
+/**
+ * Options for reading pixels back from a texture.
+ * ---
+ * 從紋理讀回像素的選項。
+ *
+ * @category Interfaces
+ */
+export interface ReadPixelsOptions<F extends keyof PixelArrays = keyof PixelArrays> {
+    /**
+     * Format of the returned array.
+     * @zh 回傳陣列的格式
+     * @defaultValue 'rgba8'
+     */
+    format?: F;
+    /**
+     * Region to read, in texels. Defaults to the whole texture.
+     * @zh 讀取的區域（像素），預設為整張紋理
+     */
+    rect?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Texel layout of a readable format: channel count, channel encoding and channel order.
+ * 可讀回格式的像素佈局：通道數、通道編碼與通道順序。
+ */
+interface SourceLayout {
+    channels: number;
+    type: 'unorm8' | 'float16' | 'float32';
+    bgra?: boolean;
+}
+
+const SOURCE_LAYOUTS: Partial<Record<GPUTextureFormat, SourceLayout>> = {
+    'r8unorm': { channels: 1, type: 'unorm8' },
+    'rg8unorm': { channels: 2, type: 'unorm8' },
+    'rgba8unorm': { channels: 4, type: 'unorm8' },
+    'rgba8unorm-srgb': { channels: 4, type: 'unorm8' },
+    'bgra8unorm': { channels: 4, type: 'unorm8', bgra: true },
+    'bgra8unorm-srgb': { channels: 4, type: 'unorm8', bgra: true },
+    'r16float': { channels: 1, type: 'float16' },
+    'rg16float': { channels: 2, type: 'float16' },
+    'rgba16float': { channels: 4, type: 'float16' },
+    'r32float': { channels: 1, type: 'float32' },
+    'rg32float': { channels: 2, type: 'float32' },
+    'rgba32float': { channels: 4, type: 'float32' },
+};
+
+/** Channel encoding of each output format / 各輸出格式的通道編碼 */
+const TARGET_TYPES: Record<keyof PixelArrays, SourceLayout['type']> = {
+    rgba8: 'unorm8',
+    rgba16f: 'float16',
+    rgba32f: 'float32',
+};
+
+/** Bytes per channel of each encoding / 各編碼每通道的位元組數 */
+const CHANNEL_BYTES: Record<SourceLayout['type'], number> = { unorm8: 1, float16: 2, float32: 4 };
+
+/** `bytesPerRow` alignment required by `copyTextureToBuffer` / `copyTextureToBuffer` 要求的 `bytesPerRow` 對齊 */
+const ROW_ALIGNMENT = 256;
+
+/** Scratch views for float/half conversion / 浮點數與半精度轉換用的暫存視圖 */
+const scratchFloat = new Float32Array(1);
+const scratchBits = new Uint32Array(scratchFloat.buffer);
+
+/**
+ * Reads texture contents back to the CPU as tightly packed RGBA arrays.
+ * ---
+ * 將紋理內容讀回 CPU，回傳緊密排列的 RGBA 陣列。
+ * 會移除 `copyTextureToBuffer` 所需的 256 位元組列對齊填充，並在需要時轉換半精度浮點數；
+ * 缺少的通道以 (0, 0, 0, 1) 補齊。紋理需具備 `COPY_SRC` 用途。
+ *
+ * @group Utils
+ * @category Utility
+ *
+ * @example
+ * ```ts
+ * const pixels = await PixelReader.read(device, texture, { format: 'rgba8' });
+ * const image = new ImageData(new Uint8ClampedArray(pixels.buffer), texture.width, texture.height);
+ * ```
+ */
+export class PixelReader {
+    /**
+     * Copy a texture region to a mappable buffer and convert it to the requested format.
+     * ---
+     * 將紋理區域複製至可映射緩衝區，並轉換為指定格式。
+     *
+     * @param device - Device that owns the texture / 紋理所屬的裝置
+     * @param texture - Texture to read / 要讀取的紋理
+     * @param options - Output format and region / 輸出格式與區域
+     * @returns Row-major RGBA values, 4 per texel / 以列為主序的 RGBA 值，每像素 4 個
+     * @throws {Error} 當紋理缺少 COPY_SRC 用途、格式不受支援或區域超出範圍時拋出錯誤
+     */
+    public static async read<F extends keyof PixelArrays = 'rgba8'>(
+        device: GPUDevice,
+        texture: GPUTexture,
+        options: ReadPixelsOptions<F> = {}
+    ): Promise<PixelArrays[F]> {
+        const format = (options.format ?? 'rgba8') as F;
+        const { x, y, width, height } = options.rect ?? { x: 0, y: 0, width: texture.width, height: texture.height };
+        const layout = SOURCE_LAYOUTS[texture.format];
+
+        if (!TARGET_TYPES[format]) {
+            throw new Error(`Unsupported pixel format "${format}" / 不支援的像素格式`);
+        }
+        if (!layout) {
+            throw new Error(`Reading ${texture.format} textures is not supported / 不支援讀回此紋理格式`);
+        }
+        if (!(texture.usage & GPUTextureUsage.COPY_SRC)) {
+            throw new Error(`Texture ${texture.label || ''} lacks COPY_SRC usage / 紋理缺少 COPY_SRC 用途`);
+        }
+        if (![x, y, width, height].every(Number.isInteger) || x < 0 || y < 0 || width <= 0 || height <= 0
+            || x + width > texture.width || y + height > texture.height) {
+            throw new Error(`Rect ${x},${y} ${width}x${height} is outside the ${texture.width}x${texture.height} texture / 讀取區域超出紋理範圍`);
+        }
+
+        const texelBytes = layout.channels * CHANNEL_BYTES[layout.type];
+        const bytesPerRow = Math.ceil(width * texelBytes / ROW_ALIGNMENT) * ROW_ALIGNMENT;
+        const buffer = device.createBuffer({
+            size: bytesPerRow * height,
+            usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+            label: 'WGFX Pixel Readback'
+        });
+
+        try {
+            const encoder = device.createCommandEncoder({ label: 'WGFX Pixel Readback' });
+            encoder.copyTextureToBuffer(
+                { texture, origin: [x, y] },
+                { buffer, bytesPerRow, rowsPerImage: height },
+                [width, height]
+            );
+            device.queue.submit([encoder.finish()]);
+
+            await buffer.mapAsync(GPUMapMode.READ);
+            const pixels = PixelReader.convert(buffer.getMappedRange(), layout, format, width, height, bytesPerRow);
+            buffer.unmap();
+            return pixels;
+        } finally {
+            buffer.destroy();
+        }
+    }
+
+    /**
+     * Convert a half float bit pattern to a number.
+     * ---
+     * 將半精度浮點數的位元模式轉換為數值。
+     */
+    public static halfToFloat(bits: number): number {
+        const sign = bits & 0x8000 ? -1 : 1;
+        const exponent = (bits >> 10) & 0x1f;
+        const mantissa = bits & 0x3ff;
+        if (exponent === 0) return sign * mantissa * 2 ** -24;
+        if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+        return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+    }
+
+    /**
+     * Convert a number to a half float bit pattern, rounding to nearest even.
+     * ---
+     * 將數值轉換為半精度浮點數的位元模式（四捨六入五成雙）。
+     */
+    public static floatToHalf(value: number): number {
+        scratchFloat[0] = value;
+        const bits = scratchBits[0];
+        const sign = (bits >>> 16) & 0x8000;
+        const floatExponent = (bits >>> 23) & 0xff;
+        const exponent = floatExponent - 127 + 15;
+        let mantissa = bits & 0x7fffff;
+
+        if (floatExponent === 0xff) return sign | 0x7c00 | (mantissa ? 0x200 : 0); // Inf / NaN
+        if (exponent >= 0x1f) return sign | 0x7c00; // Overflow / 溢位
+        if (exponent <= 0) {
+            // Subnormal half / 半精度次正規數
+            if (exponent < -10) return sign;
+            mantissa |= 0x800000;
+            const shift = 14 - exponent;
+            const rest = mantissa & ((1 << shift) - 1);
+            const halfway = 1 << (shift - 1);
+            let half = mantissa >> shift;
+            if (rest > halfway || (rest === halfway && (half & 1))) half++;
+            return sign | half;
+        }
+
+        // A carry out of the mantissa correctly bumps the exponent / 尾數進位會正確進位至指數
+        let half = sign | (exponent << 10) | (mantissa >> 13);
+        const rest = mantissa & 0x1fff;
+        if (rest > 0x1000 || (rest === 0x1000 && (half & 1))) half++;
+        return half;
+    }
+
+    /**
+     * Strip the row padding and convert texels to RGBA in the target format.
+     * ---
+     * 移除列填充並將像素轉換為目標格式的 RGBA。
+     */
+    private static convert<F extends keyof PixelArrays>(
+        data: ArrayBuffer,
+        layout: SourceLayout,
+        format: F,
+        width: number,
+        height: number,
+        bytesPerRow: number
+    ): PixelArrays[F] {
+        const targetType = TARGET_TYPES[format];
+        const output = PixelReader.allocate(targetType, width * height * 4);
+
+        // Same layout: copy rows as-is / 佈局相同時直接逐列複製
+        if (layout.channels === 4 && !layout.bgra && layout.type === targetType) {
+            const rowLength = width * 4;
+            for (let row = 0; row < height; row++) {
+                output.set(PixelReader.view(layout.type, data, row * bytesPerRow, rowLength), row * rowLength);
+            }
+            return output as PixelArrays[F];
+        }
+
+        const defaults = [0, 0, 0, 1];
+        const order = layout.bgra ? [2, 1, 0, 3] : [0, 1, 2, 3];
+        for (let row = 0; row < height; row++) {
+            const source = PixelReader.view(layout.type, data, row * bytesPerRow, width * layout.channels);
+            for (let col = 0; col < width; col++) {
+                for (let c = 0; c < 4; c++) {
+                    const channel = order[c];
+                    const value = channel < layout.channels
+                        ? PixelReader.decode(layout.type, source[col * layout.channels + channel])
+                        : defaults[c];
+                    output[(row * width + col) * 4 + c] = PixelReader.encode(targetType, value);
+                }
+            }
+        }
+        return output as PixelArrays[F];
+    }
+
+    /** Typed array of an encoding / 對應編碼的型別陣列 */
+    private static allocate(type: SourceLayout['type'], length: number): Uint8Array | Uint16Array | Float32Array {
+        return type === 'unorm8' ? new Uint8Array(length) : type === 'float16' ? new Uint16Array(length) : new Float32Array(length);
+    }
+
+    /** Typed view over one row of the mapped buffer / 映射緩衝區中單列的型別視圖 */
+    private static view(type: SourceLayout['type'], data: ArrayBuffer, byteOffset: number, length: number): Uint8Array | Uint16Array | Float32Array {
+        return type === 'unorm8' ? new Uint8Array(data, byteOffset, length)
+            : type === 'float16' ? new Uint16Array(data, byteOffset, length)
+                : new Float32Array(data, byteOffset, length);
+    }
+
+    /** Raw channel value to a number / 將原始通道值轉為數值 */
+    private static decode(type: SourceLayout['type'], raw: number): number {
+        return type === 'unorm8' ? raw / 255 : type === 'float16' ? PixelReader.halfToFloat(raw) : raw;
+    }
+
+    /** Number to a raw channel value / 將數值轉為原始通道值 */
+    private static encode(type: SourceLayout['type'], value: number): number {
+        if (type === 'unorm8') return Math.round(Math.min(Math.max(value, 0), 1) * 255);
+        return type === 'float16' ? PixelReader.floatToHalf(value) : value;
+    }
+}
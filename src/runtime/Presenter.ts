@@ -0,0 +1,313 @@
+/// <reference types="@webgpu/types" />
+import { Logger } from '@/utils/Logger';
+import { TextureFormats } from '@/utils/TextureFormats';
+
+/**
+ * Options for presenting a texture to a canvas.
+ * ---
+ * 將紋理呈現至畫布的選項。
+ *
+ * @category Interfaces
+ */
+export interface PresentOptions {
+    /**
+     * How the image fits the canvas: keep the whole image (`contain`), fill the canvas and crop (`cover`),
+     * ignore the aspect ratio (`stretch`) or use the largest whole-number scale (`integer`).
+     * @zh 影像在畫布中的配置：完整顯示 (`contain`)、填滿並裁切 (`cover`)、忽略長寬比 (`stretch`) 或最大整數倍 (`integer`)
+     * @defaultValue 'contain'
+     */
+    fit?: 'contain' | 'cover' | 'stretch' | 'integer';
+    /**
+     * Sampling filter; sources in non-filterable formats such as `r32float` always use `nearest`.
+     * @zh 取樣濾波方式；`r32float` 等不可過濾格式的來源一律使用 `nearest`
+     * @defaultValue 'linear'
+     */
+    filter?: 'nearest' | 'linear';
+    /**
+     * Apply the sRGB transfer function in the shader, for linear content on a non-sRGB canvas format.
+     * @zh 在著色器中套用 sRGB 轉換，適用於在非 sRGB 畫布格式上顯示線性內容
+     * @defaultValue false
+     */
+    srgbEncode?: boolean;
+    /**
+     * Color of the area not covered by the image, as RGBA in 0-1.
+     * @zh 未被影像覆蓋區域的顏色 (RGBA，0 到 1)
+     * @defaultValue [0, 0, 0, 1]
+     */
+    background?: [number, number, number, number];
+}
+
+/**
+ * Fullscreen blit: maps canvas UVs into the image rectangle and fills the rest with the background.
+ * 全螢幕複製：將畫布 UV 映射至影像矩形，其餘區域填入背景色。
+ */
+const PRESENT_SHADER = /* wgsl */`
+struct PresentUniforms {
+    rect: vec4<f32>,       // offset.xy, size.xy in canvas UV
+    background: vec4<f32>,
+    srgbEncode: u32,
+};
+
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var sourceSampler: sampler;
+@group(0) @binding(2) var<uniform> present: PresentUniforms;
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) uv: vec2<f32>,
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) index: u32) -> VertexOutput {
+    var pos = array<vec2<f32>, 3>(vec2<f32>(-1.0, -1.0), vec2<f32>(3.0, -1.0), vec2<f32>(-1.0, 3.0));
+    var output: VertexOutput;
+    output.position = vec4<f32>(pos[index], 0.0, 1.0);
+    output.uv = vec2<f32>(pos[index].x * 0.5 + 0.5, 0.5 - pos[index].y * 0.5);
+    return output;
+}
+
+fn encodeSrgb(c: vec3<f32>) -> vec3<f32> {
+    return select(1.055 * pow(c, vec3<f32>(1.0 / 2.4)) - 0.055, c * 12.92, c <= vec3<f32>(0.0031308));
+}
+
+@fragment
+fn fs_main(@location(0) uv: vec2<f32>) -> @location(0) vec4<f32> {
+    let sourceUv = (uv - present.rect.xy) / present.rect.zw;
+    // Sample before branching to keep control flow uniform / 先取樣再分支以維持一致的控制流程
+    var color = clamp(textureSampleLevel(source, sourceSampler, sourceUv, 0.0), vec4<f32>(0.0), vec4<f32>(1.0));
+    if (any(sourceUv < vec2<f32>(0.0)) || any(sourceUv > vec2<f32>(1.0))) {
+        return present.background;
+    }
+    if (present.srgbEncode != 0u) {
+        color = vec4<f32>(encodeSrgb(color.rgb), color.a);
+    }
+    return color;
+}
+`;
+
+/**
+ * Draws a texture to a canvas context with fit modes, filtering and an optional sRGB encode.
+ * ---
+ * 將紋理繪製至畫布，支援配置模式、濾波方式與選用的 sRGB 轉換。
+ * 管線依來源格式與目標格式快取，綁定群組依來源紋理與濾波方式快取；
+ * 不可過濾的來源格式改以 `unfilterable-float` 與非過濾取樣器綁定。
+ *
+ * @group Core
+ * @category Managers
+ *
+ * @example
+ * ```ts
+ * const presenter = new Presenter(device);
+ * presenter.present(outputTexture, context, { fit: 'integer', filter: 'nearest' });
+ * ```
+ */
+export class Presenter {
+    /** @zh WebGPU 裝置實例 */
+    public device: GPUDevice;
+
+    private shaderModule: GPUShaderModule | null;
+    private bindGroupLayouts: Map<boolean, GPUBindGroupLayout>;
+    private pipelines: Map<string, GPURenderPipeline>;
+    private samplers: Map<'nearest' | 'linear', GPUSampler>;
+    private uniformBuffer: GPUBuffer | null;
+    private bindGroup: { texture: GPUTexture; filter: string; bindGroup: GPUBindGroup } | null;
+
+    /**
+     * @param device - The active WebGPU device / 有效的 WebGPU 裝置
+     */
+    constructor(device: GPUDevice) {
+        this.device = device;
+        this.shaderModule = null;
+        this.bindGroupLayouts = new Map();
+        this.pipelines = new Map();
+        this.samplers = new Map();
+        this.uniformBuffer = null;
+        this.bindGroup = null;
+    }
+
+    /**
+     * Draw a texture to the current texture of a canvas context and submit.
+     * ---
+     * 將紋理繪製至畫布目前的紋理並提交。
+     *
+     * @group Rendering
+     * @param texture - Texture to present, e.g. OUTPUT / 要呈現的紋理，例如 OUTPUT
+     * @param context - Configured canvas context / 已設定的畫布上下文
+     * @param options - Fit, filtering, sRGB and background settings / 配置、濾波、sRGB 與背景設定
+     */
+    public present(texture: GPUTexture, context: GPUCanvasContext, options: PresentOptions = {}): void {
+        const { fit = 'contain', filter = 'linear', srgbEncode = false, background = [0, 0, 0, 1] } = options;
+        const target = context.getCurrentTexture();
+
+        const data = new ArrayBuffer(48);
+        new Float32Array(data, 0, 8).set([...Presenter.fitRect(texture, target, fit), ...background]);
+        new Uint32Array(data, 32, 1)[0] = srgbEncode ? 1 : 0;
+        this.device.queue.writeBuffer(this._getUniformBuffer(), 0, data);
+
+        const commandEncoder = this.device.createCommandEncoder({ label: 'WGFX Present' });
+        const [r, g, b, a] = background;
+        const pass = commandEncoder.beginRenderPass({
+            colorAttachments: [{
+                view: target.createView(),
+                clearValue: { r, g, b, a },
+                loadOp: 'clear',
+                storeOp: 'store'
+            }]
+        });
+        pass.setPipeline(this._getPipeline(texture.format, target.format));
+        pass.setBindGroup(0, this._getBindGroup(texture, filter));
+        pass.draw(3);
+        pass.end();
+        this.device.queue.submit([commandEncoder.finish()]);
+    }
+
+    /**
+     * Compute where the image lands on the target, in target UV (offset x, offset y, width, height).
+     * ---
+     * 計算影像在目標上的位置，以目標 UV 表示（x 偏移、y 偏移、寬、高）。
+     *
+     * @group Query
+     * @param source - Image size / 影像尺寸
+     * @param target - Target size / 目標尺寸
+     * @param fit - Fit mode / 配置模式
+     */
+    public static fitRect(
+        source: { width: number; height: number },
+        target: { width: number; height: number },
+        fit: NonNullable<PresentOptions['fit']>
+    ): [number, number, number, number] {
+        if (fit === 'stretch') return [0, 0, 1, 1];
+
+        const containScale = Math.min(target.width / source.width, target.height / source.height);
+        let scale: number;
+        switch (fit) {
+            case 'cover': scale = Math.max(target.width / source.width, target.height / source.height); break;
+            // Whole-number scale, downscaling only when the image is larger than the target
+            // 整數倍縮放，僅在影像大於目標時縮小
+            case 'integer': scale = containScale >= 1 ? Math.floor(containScale) : containScale; break;
+            default: scale = containScale;
+        }
+
+        const width = source.width * scale / target.width;
+        const height = source.height * scale / target.height;
+        return [(1 - width) / 2, (1 - height) / 2, width, height];
+    }
+
+    /**
+     * Whether a source format can be sampled with a filtering sampler.
+     * ---
+     * 判斷來源格式是否可搭配過濾取樣器取樣。
+     * 未列於 {@link TextureFormats} 的格式視為可過濾。
+     *
+     * @group Query
+     * @param format - Source texture format / 來源紋理格式
+     */
+    public static isFilterable(format: GPUTextureFormat): boolean {
+        return TextureFormats.resolve(format)?.filterable ?? true;
+    }
+
+    /**
+     * Release the buffer and cached pipelines.
+     * ---
+     * 釋放緩衝區與快取的管線。
+     *
+     * @group Lifecycle
+     */
+    public dispose(): void {
+        this.uniformBuffer?.destroy();
+        this.uniformBuffer = null;
+        this.pipelines.clear();
+        this.samplers.clear();
+        this.bindGroup = null;
+        this.bindGroupLayouts.clear();
+        this.shaderModule = null;
+    }
+
+    /**
+     * Get the pipeline for a source and target format pair, creating it once.
+     * ---
+     * 獲取來源格式與目標格式組合的管線，每種組合只建立一次。
+     */
+    private _getPipeline(source: GPUTextureFormat, format: GPUTextureFormat): GPURenderPipeline {
+        const key = `${source}|${format}`;
+        let pipeline = this.pipelines.get(key);
+        if (pipeline) return pipeline;
+
+        this.shaderModule ??= this.device.createShaderModule({ label: 'WGFX Present Shader', code: PRESENT_SHADER });
+        pipeline = this.device.createRenderPipeline({
+            label: `WGFX Present (${source} -> ${format})`,
+            layout: this.device.createPipelineLayout({ bindGroupLayouts: [this._getBindGroupLayout(Presenter.isFilterable(source))] }),
+            vertex: { module: this.shaderModule, entryPoint: 'vs_main' },
+            fragment: { module: this.shaderModule, entryPoint: 'fs_main', targets: [{ format }] },
+            primitive: { topology: 'triangle-list' }
+        });
+        this.pipelines.set(key, pipeline);
+        Logger.debug(`Presenter: Created pipeline for ${source} -> ${format}`);
+        return pipeline;
+    }
+
+    /**
+     * Get the bind group layout for filterable or non-filterable sources.
+     * ---
+     * 獲取可過濾或不可過濾來源的綁定群組佈局。
+     * 不可過濾的來源使用 `unfilterable-float` 紋理與 `non-filtering` 取樣器。
+     */
+    private _getBindGroupLayout(filterable: boolean): GPUBindGroupLayout {
+        let layout = this.bindGroupLayouts.get(filterable);
+        if (layout) return layout;
+
+        layout = this.device.createBindGroupLayout({
+            label: filterable ? 'WGFX Present' : 'WGFX Present (unfilterable)',
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: filterable ? 'float' : 'unfilterable-float' } },
+                { binding: 1, visibility: GPUShaderStage.FRAGMENT, sampler: { type: filterable ? 'filtering' : 'non-filtering' } },
+                { binding: 2, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } }
+            ]
+        });
+        this.bindGroupLayouts.set(filterable, layout);
+        return layout;
+    }
+
+    /**
+     * Get the bind group for a source texture and filter, rebuilding it only when either changes.
+     * ---
+     * 獲取來源紋理與濾波方式的綁定群組，僅在兩者改變時重建。
+     */
+    private _getBindGroup(texture: GPUTexture, requested: 'nearest' | 'linear'): GPUBindGroup {
+        const filterable = Presenter.isFilterable(texture.format);
+        // A non-filtering sampler must not use linear filtering / 非過濾取樣器不可使用線性濾波
+        const filter = filterable ? requested : 'nearest';
+        if (this.bindGroup?.texture === texture && this.bindGroup.filter === filter) return this.bindGroup.bindGroup;
+
+        let sampler = this.samplers.get(filter);
+        if (!sampler) {
+            sampler = this.device.createSampler({ magFilter: filter, minFilter: filter });
+            this.samplers.set(filter, sampler);
+        }
+        const bindGroup = this.device.createBindGroup({
+            label: 'WGFX Present',
+            layout: this._getBindGroupLayout(filterable),
+            entries: [
+                { binding: 0, resource: texture.createView() },
+                { binding: 1, resource: sampler },
+                { binding: 2, resource: { buffer: this._getUniformBuffer() } }
+            ]
+        });
+        this.bindGroup = { texture, filter, bindGroup };
+        return bindGroup;
+    }
+
+    /**
+     * Get the uniform buffer holding the rectangle, background and sRGB flag.
+     * ---
+     * 獲取存放矩形、背景色與 sRGB 旗標的 Uniform 緩衝區。
+     */
+    private _getUniformBuffer(): GPUBuffer {
+        this.uniformBuffer ??= this.device.createBuffer({
+            size: 48,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+            label: 'WGFX Present Uniforms'
+        });
+        return this.uniformBuffer;
+    }
+}
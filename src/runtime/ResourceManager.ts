@@ -1,6 +1,9 @@
 /// <reference types="@webgpu/types" />
-import { WGFXShaderInfo, TextureInfo } from '../types/shader';
+import { WGFXShaderInfo, TextureInfo, ParameterInfo } from '../types/shader';
 import { Logger } from '../utils/Logger';
+import { ExpressionEvaluator } from '../utils/ExpressionEvaluator';
+import { TextureFormats } from '../utils/TextureFormats';
+import { UniformLayout } from './UniformLayout';
 
 /**
  * Manages WebGPU resources including textures, views, samplers, and buffers.
@@ -23,8 +26,14 @@ export class ResourceManager {
     public uniforms: Map<string, { buffer: GPUBuffer; offset: number; size: number }>;
     /** @zh 主要參數 Uniform 緩衝區 */
     public uniformBuffer: GPUBuffer | null;
+    /** @zh 參數在 Uniform 緩衝區中的佈局，與產生的 `Uniforms` 結構體一致 */
+    public uniformLayout: UniformLayout | null = null;
     /** @zh 場景資訊（寬高、解析度）Uniform 緩衝區 */
     public sceneBuffer: GPUBuffer | null = null;
+    /** @zh 由外部擁有的紋理名稱（例如特效鏈中前一階段的 OUTPUT），不會被此管理員銷毀 */
+    public sharedTextures: Set<string> = new Set();
+    /** @zh 暫時取代紋理視圖的外部視圖（例如直接寫入呼叫端提供的輸出） */
+    public viewOverrides: Map<string, GPUTextureView> = new Map();
 
     /**
      * Initialize the resource manager.
@@ -66,69 +75,17 @@ export class ResourceManager {
         // 2. Create external textures / 建立外部指定紋理
         if (externalResources.textures) {
             for (const [name, descriptor] of Object.entries(externalResources.textures)) {
-                Logger.debug(`Creating external texture: ${name}`, descriptor);
-                this.createTexture(name, descriptor as GPUTextureDescriptor);
-            }
-        }
-
-        /**
-         * Recursive helper to evaluate numeric expressions from shader strings.
-         * ---
-         * 遞迴輔助函式：解析並計算著色器定義中的數值運算式。
-         */
-        const evaluate = (expr: string | number, ctx: Record<string, number>): number => {
-            if (typeof expr === 'number') return expr;
-
-            expr = expr.replace(/\s+/g, ''); // Remove spaces / 移除空白
-            let pos = 0;
-
-            // Internal parser steps / 內部解析步驟
-            const parseNumber = (): number => {
-                let startKey = pos;
-                if (/[a-zA-Z_]/.test(expr[pos])) { // Handle variables / 處理變數
-                    while (pos < expr.length && /[a-zA-Z0-9_]/.test(expr[pos])) pos++;
-                    const key = expr.slice(startKey, pos);
-                    if (key in ctx) return ctx[key];
-                    throw new Error(`Undefined variable: ${key}`);
-                } else if (/[0-9.]/.test(expr[pos])) { // Handle constants / 處理常數
-                    while (pos < expr.length && /[0-9.]/.test(expr[pos])) pos++;
-                    return parseFloat(expr.slice(startKey, pos));
-                } else if (expr[pos] === '(') { // Handle parenthesis / 處理括號
-                    pos++;
-                    const val = parseExpression();
-                    pos++; // skip ')'
-                    return val;
-                }
-                throw new Error(`Unexpected character at ${pos}: ${expr[pos]}`);
-            };
-
-            const parseFactor = (): number => {
-                let val = parseNumber();
-                while (pos < expr.length && (expr[pos] === '*' || expr[pos] === '/')) {
-                    const op = expr[pos++];
-                    const right = parseNumber();
-                    val = (op === '*') ? val * right : val / right;
+                // An existing texture is shared as is / 既有紋理直接共用
+                if (ResourceManager.isTexture(descriptor)) {
+                    Logger.debug(`Sharing external texture: ${name}`);
+                    this.useTexture(name, descriptor);
+                    continue;
                 }
-                return val;
-            };
-
-            const parseExpression = (): number => {
-                let val = parseFactor();
-                while (pos < expr.length && (expr[pos] === '+' || expr[pos] === '-')) {
-                    const op = expr[pos++];
-                    const right = parseFactor();
-                    val = (op === '+') ? val + right : val - right;
-                }
-                return val;
-            };
-
-            try {
-                return parseExpression();
-            } catch (e: any) {
-                Logger.warn(`Failed to evaluate expression: ${expr}`, e.message);
-                return 0;
+                const finalDescriptor = this.externalDescriptor(shaderInfo, name, descriptor as GPUTextureDescriptor);
+                Logger.debug(`Creating external texture: ${name}`, finalDescriptor);
+                this.createTexture(name, finalDescriptor);
             }
-        };
+        }
 
         // 3. Create intermediate textures / 建立中間渲染紋理
         shaderInfo.textures.forEach((tex: TextureInfo) => {
@@ -137,27 +94,10 @@ export class ResourceManager {
                 return;
             }
 
-            const width = evaluate(tex.width, context);
-            const height = evaluate(tex.height, context);
-
-            if (!width || !height) {
-                throw new Error(`Failed to determine size for texture ${tex.name}`);
-            }
-
-            // Define format: INPUT uses rgba8, others use rgba16float / 定義格式：輸入用 rgba8，其餘用高精度浮點
-            const format: GPUTextureFormat = (tex.name === 'INPUT' ? 'rgba8unorm' : 'rgba16float');
-
-            const descriptor: GPUTextureDescriptor = {
-                size: [width, height],
-                format: format,
-                usage: GPUTextureUsage.TEXTURE_BINDING |
-                    GPUTextureUsage.STORAGE_BINDING |
-                    GPUTextureUsage.COPY_DST |
-                    GPUTextureUsage.COPY_SRC
-            };
-
+            const descriptor = this.intermediateDescriptor(tex, context);
+            const [width, height] = ResourceManager.extent(descriptor.size);
             this.createTexture(tex.name, descriptor);
-            Logger.debug(`Created texture: ${tex.name} (${width}x${height}, ${format})`);
+            Logger.debug(`Created texture: ${tex.name} (${width}x${height}, ${descriptor.format})`);
         });
 
         // 4. Create samplers / 建立取樣器
@@ -180,6 +120,49 @@ export class ResourceManager {
 
         // 6. Create Scene Buffer / 建立場景資訊緩衝區
         this.createSceneBuffer();
+        this.syncSceneBuffer();
+    }
+
+    /**
+     * Reallocate the textures whose size changes under new defines, keeping every other resource.
+     * ---
+     * 以新的巨集定義（如 INPUT_WIDTH）重新計算紋理尺寸，只重新配置尺寸改變的紋理，
+     * 其餘紋理、取樣器與緩衝區維持不變。重新配置的紋理內容會被清空。
+     *
+     * @group Lifecycle
+     * @param shaderInfo - Shader info the resources were initialized with / 初始化資源時使用的著色器資訊
+     * @param externalResources - External resource definitions with the new sizes / 含新尺寸的外部資源定義
+     * @returns Names of the reallocated textures / 重新配置的紋理名稱
+     */
+    public resize(shaderInfo: WGFXShaderInfo, externalResources: any = {}): string[] {
+        const context: Record<string, number> = { ...(externalResources.defines ?? {}) };
+        const external = externalResources.textures ?? {};
+        const resized: string[] = [];
+
+        const update = (name: string, descriptor: GPUTextureDescriptor) => {
+            const current = this.textures.get(name);
+            const [width, height] = ResourceManager.extent(descriptor.size);
+            if (current && current.width === width && current.height === height) return;
+            this.createTexture(name, descriptor);
+            resized.push(name);
+        };
+
+        for (const [name, descriptor] of Object.entries(external)) {
+            if (ResourceManager.isTexture(descriptor)) {
+                if (this.textures.get(name) === descriptor) continue;
+                this.useTexture(name, descriptor);
+                resized.push(name);
+                continue;
+            }
+            update(name, this.externalDescriptor(shaderInfo, name, descriptor as GPUTextureDescriptor));
+        }
+        shaderInfo.textures
+            .filter(tex => !(tex.name in external))
+            .forEach(tex => update(tex.name, this.intermediateDescriptor(tex, context)));
+
+        this.syncSceneBuffer();
+        Logger.debug(`Resized textures: ${resized.join(', ') || '(none)'}`);
+        return resized;
     }
 
     /**
@@ -193,12 +176,39 @@ export class ResourceManager {
      * @returns The newly created {@link GPUTexture}
      */
     public createTexture(name: string, descriptor: GPUTextureDescriptor): GPUTexture {
-        if (this.textures.has(name)) {
-            this.textures.get(name)!.destroy(); // Clean up old texture / 清理舊紋理
-        }
-
         const texture = this.device.createTexture(descriptor);
         texture.label = name;
+        this.setTexture(name, texture);
+        return texture;
+    }
+
+    /**
+     * Register a texture owned elsewhere under a name, e.g. the OUTPUT of the previous stage of a chain.
+     * ---
+     * 以指定名稱登記由外部擁有的紋理，例如特效鏈中前一階段的 OUTPUT。此紋理不會被此管理員銷毀。
+     *
+     * @group Management
+     * @param name - Texture name in this effect / 在此特效中的紋理名稱
+     * @param texture - Texture to share / 要共用的紋理
+     */
+    public useTexture(name: string, texture: GPUTexture): void {
+        this.setTexture(name, texture);
+        this.sharedTextures.add(name);
+    }
+
+    /**
+     * Store a texture and its views, destroying the texture it replaces unless shared.
+     * ---
+     * 儲存紋理及其視圖，並銷毀被取代的紋理（共用紋理除外）。
+     *
+     * @internal
+     */
+    private setTexture(name: string, texture: GPUTexture): void {
+        const previous = this.textures.get(name);
+        if (previous && previous !== texture && !this.sharedTextures.has(name)) {
+            previous.destroy(); // Clean up old texture / 清理舊紋理
+        }
+        this.sharedTextures.delete(name);
         this.textures.set(name, texture);
 
         // Create both views for flexible pipeline usage / 建立兩種視圖供不同管線階段使用
@@ -206,8 +216,6 @@ export class ResourceManager {
             sampled: texture.createView({ label: `${name}_sampled` }),
             storage: texture.createView({ label: `${name}_storage` })
         });
-
-        return texture;
     }
 
     /**
@@ -221,6 +229,8 @@ export class ResourceManager {
      * @returns The requested {@link GPUTextureView}
      */
     public getTextureView(name: string, type: 'sampled' | 'storage' = 'sampled'): GPUTextureView {
+        const override = this.viewOverrides.get(name);
+        if (override) return override;
         const v = this.views.get(name);
         if (!v) {
             throw new Error(`View "${name}" not found`);
@@ -228,6 +238,20 @@ export class ResourceManager {
         return v[type];
     }
 
+    /**
+     * Bind another view in place of a texture, or restore the texture's own views.
+     * ---
+     * 以其他視圖取代紋理的視圖，或還原紋理本身的視圖。取代的視圖需與原紋理的尺寸與格式一致。
+     *
+     * @group Management
+     * @param name - Texture name / 紋理名稱
+     * @param view - Replacement view, or undefined to restore / 取代用的視圖；undefined 表示還原
+     */
+    public overrideView(name: string, view?: GPUTextureView): void {
+        if (view) this.viewOverrides.set(name, view);
+        else this.viewOverrides.delete(name);
+    }
+
     /**
      * Get a GPUTexture object by name.
      * ---
@@ -380,6 +404,20 @@ export class ResourceManager {
         Logger.debug(`Updated scene buffer: IN(${width}x${height}), OUT(${outWidth}x${outHeight}), SCALE(${f32[8].toFixed(2)}, ${f32[9].toFixed(2)})`);
     }
 
+    /**
+     * Write the current INPUT and OUTPUT texture sizes to the scene buffer.
+     * ---
+     * 將目前 INPUT 與 OUTPUT 紋理的尺寸寫入場景資訊緩衝區。
+     *
+     * @group Update
+     */
+    public syncSceneBuffer(): void {
+        const input = this.textures.get('INPUT');
+        const output = this.textures.get('OUTPUT');
+        if (!input) return;
+        this.updateSceneBuffer(input.width, input.height, output?.width, output?.height);
+    }
+
     /** @group Query */
     public getSceneBuffer(): GPUBuffer | null {
         return this.sceneBuffer;
@@ -393,8 +431,12 @@ export class ResourceManager {
      * @group Lifecycle
      */
     public dispose(): void {
-        this.textures.forEach(t => t.destroy());
+        this.textures.forEach((t, name) => {
+            if (!this.sharedTextures.has(name)) t.destroy();
+        });
         this.textures.clear();
+        this.sharedTextures.clear();
+        this.viewOverrides.clear();
         this.views.clear();
         this.samplers.clear();
 
@@ -407,32 +449,124 @@ export class ResourceManager {
             this.sceneBuffer = null;
         }
         this.uniforms.clear();
+        this.uniformLayout = null;
         Logger.info('ResourceManager: All resources disposed');
     }
 
+    /**
+     * Build the descriptor of a host-provided texture.
+     * ---
+     * 建立由宿主提供的紋理描述符；特效宣告的 //! FORMAT 優先於宿主預設值。
+     *
+     * @internal
+     */
+    private externalDescriptor(shaderInfo: WGFXShaderInfo, name: string, descriptor: GPUTextureDescriptor): GPUTextureDescriptor {
+        const declared = shaderInfo.textures.find(t => t.name === name && t.format);
+        const formatInfo = declared ? TextureFormats.resolve(declared.format) : undefined;
+        return formatInfo ? { ...descriptor, format: formatInfo.format } : descriptor;
+    }
+
+    /**
+     * Build the descriptor of an intermediate texture from its size expressions and format.
+     * ---
+     * 依尺寸運算式與格式建立中間紋理的描述符。
+     *
+     * @internal
+     * @throws {Error} 當尺寸無法計算或格式不受支援時拋出錯誤
+     */
+    private intermediateDescriptor(tex: TextureInfo, context: Record<string, number>): GPUTextureDescriptor {
+        // OUTPUT follows OUTPUT_WIDTH/OUTPUT_HEIGHT when known / 已知 OUTPUT_WIDTH/OUTPUT_HEIGHT 時 OUTPUT 依其尺寸
+        const isOutput = tex.name === 'OUTPUT';
+        const width = isOutput && context.OUTPUT_WIDTH !== undefined ? context.OUTPUT_WIDTH : this.evaluateSize(tex.width, context);
+        const height = isOutput && context.OUTPUT_HEIGHT !== undefined ? context.OUTPUT_HEIGHT : this.evaluateSize(tex.height, context);
+
+        if (!width || !height) {
+            throw new Error(`Failed to determine size for texture ${tex.name}`);
+        }
+
+        // Use the declared //! FORMAT; INPUT defaults to rgba8 / 使用宣告的 //! FORMAT；INPUT 預設為 rgba8
+        const formatName = tex.format ?? (tex.name === 'INPUT' ? 'rgba8unorm' : undefined);
+        const formatInfo = TextureFormats.resolve(formatName);
+        if (!formatInfo) {
+            throw new Error(`Unsupported format "${tex.format}" for texture ${tex.name} / 不支援的紋理格式`);
+        }
+
+        // Storage usage is only valid for storable formats / 僅可儲存的格式才能加上儲存用途
+        let usage = GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.COPY_SRC;
+        if (formatInfo.storage) usage |= GPUTextureUsage.STORAGE_BINDING;
+
+        return { size: [width, height], format: formatInfo.format, usage };
+    }
+
+    /**
+     * Evaluate a size expression, falling back to 0 when it cannot be resolved.
+     * ---
+     * 計算尺寸運算式，無法解析時回傳 0。
+     *
+     * @internal
+     */
+    private evaluateSize(expr: string | number, context: Record<string, number>): number {
+        try {
+            return ExpressionEvaluator.evaluate(expr, context);
+        } catch (e: any) {
+            Logger.warn(`Failed to evaluate expression: ${expr}`, e.message);
+            return 0;
+        }
+    }
+
+    /**
+     * Whether an external texture entry is an existing texture rather than a descriptor.
+     * ---
+     * 判斷外部紋理項目是既有紋理而非描述符。
+     *
+     * @group Query
+     */
+    public static isTexture(value: unknown): value is GPUTexture {
+        return typeof (value as GPUTexture | undefined)?.createView === 'function';
+    }
+
+    /**
+     * Read width and height from a texture size.
+     * ---
+     * 從紋理尺寸讀取寬高。
+     *
+     * @internal
+     */
+    private static extent(size: GPUExtent3D): [number, number] {
+        const [width, height = 1] = Array.isArray(size) ? size : [(size as GPUExtent3DDict).width, (size as GPUExtent3DDict).height];
+        return [width, height];
+    }
+
     /**
      * Create the main uniform buffer and map parameter offsets.
      * ---
-     * 建立主要的 Uniform 緩衝區，並計算各參數在緩衝區中的偏移量（採 16 字節對齊）。
+     * 建立主要的 Uniform 緩衝區，依 {@link UniformLayout} 計算各參數的偏移量，並寫入預設值。
      *
      * @internal
      */
-    private createUniformBuffer(parameters: any[]): void {
-        let offset = 0;
-        parameters.forEach(p => {
-            const size = 4; // Assume f32 / 假設為單精度浮點
-            this.uniforms.set(p.name, { buffer: null as any, offset, size });
-            offset += 16; // Maintain standard 16-byte alignment / 維持標準 16 位元組對齊
-        });
+    private createUniformBuffer(parameters: ParameterInfo[]): void {
+        const layout = new UniformLayout(parameters);
+        this.uniformLayout = layout;
 
-        const bufferSize = Math.max(offset, 16);
         this.uniformBuffer = this.device.createBuffer({
-            size: bufferSize,
+            size: layout.size,
             usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
             label: 'GlobalUniforms'
         });
 
         // Link all parameters to this single buffer / 將所有參數關聯至此單一緩衝區
-        this.uniforms.forEach(u => u.buffer = this.uniformBuffer!);
+        layout.fields.forEach(f => {
+            this.uniforms.set(f.name, { buffer: this.uniformBuffer!, offset: f.offset, size: f.size });
+        });
+
+        // Upload default values / 上傳預設值
+        parameters.forEach(p => {
+            if (p.default === undefined) return;
+            try {
+                this.device.queue.writeBuffer(this.uniformBuffer!, layout.getField(p.name)!.offset, layout.encode(p.name, p.default));
+            } catch (e: any) {
+                Logger.warn(`Invalid default value for parameter "${p.name}": ${e.message}`);
+            }
+        });
     }
 }
\ No newline at end of file
@@ -1,4 +1,49 @@
-import { WGFXShaderInfo } from '@/types';
+import { WGFXShaderInfo, ShaderDiagnostic, IncludeFile, EffectSourceMap } from '@/types';
+
+/**
+ * Options accepted by {@link parse}.
+ * ---
+ * {@link parse} 可接受的選項。
+ *
+ * @group Parser
+ * @category Interfaces
+ */
+export interface ParseOptions {
+    /**
+     * Keep parsing after errors and return every diagnostic instead of throwing on the first one.
+     * @zh 遇到錯誤時繼續解析，並回傳所有診斷訊息而非在第一個錯誤時拋出
+     */
+    recover?: boolean;
+    /**
+     * Synchronously resolves `//! INCLUDE` paths. Use {@link IncludeLoader} to preload asynchronous resolvers.
+     * @zh 同步解析 `//! INCLUDE` 路徑。非同步解析器請先透過 {@link IncludeLoader} 預先載入
+     */
+    resolveInclude?: (path: string, from?: string) => IncludeFile | undefined;
+    /**
+     * Id of the main source, used as `from` for its includes and for error locations.
+     * @zh 主檔案的 id，作為其 include 的 `from` 與錯誤位置的來源
+     */
+    grammarSource?: string;
+    /** @zh 其他 Peggy 解析選項 */
+    [key: string]: any;
+}
+
+/**
+ * Result of a recovering parse.
+ * ---
+ * 復原模式解析的結果。
+ *
+ * @group Parser
+ * @category Interfaces
+ */
+export interface ParseResult {
+    /** @zh 解析後的著色器資訊（可能不完整） */
+    shaderInfo: WGFXShaderInfo;
+    /** @zh 解析過程中收集到的所有診斷訊息 */
+    diagnostics: ShaderDiagnostic[];
+    /** @zh 共通代碼與各通道程式碼每一行，以及各紋理與取樣器之指令在原始碼中的來源 */
+    sourceMap: EffectSourceMap;
+}
 
 /**
  * Parses the WGFX effect source code into structured shader information.
@@ -14,7 +59,7 @@ import { WGFXShaderInfo } from '@/types';
  * @returns Structured shader information / 結構化的著色器資訊物件
  *
  * @throws {@link SyntaxError}
- * 當原始碼語法不符合 WGFX 規範時拋出此異常。
+ * 當原始碼語法不符合 WGFX 規範時拋出此異常（復原模式下改為回傳診斷訊息）。
  *
  * @example
  * ```ts
@@ -26,9 +71,14 @@ import { WGFXShaderInfo } from '@/types';
  *     console.error(`Error at line ${err.location.start.line}: ${err.message}`);
  *   }
  * }
+ *
+ * // Recovering mode: collect every problem at once / 復原模式：一次收集所有問題
+ * const { shaderInfo, diagnostics } = parse(wgslCode, { recover: true });
+ * diagnostics.forEach(d => console.warn(`${d.start.line}:${d.start.column} [${d.code}] ${d.message}`));
  * ```
  */
-export function parse(input: string, options?: any): WGFXShaderInfo;
+export function parse(input: string, options: ParseOptions & { recover: true }): ParseResult;
+export function parse(input: string, options?: ParseOptions): WGFXShaderInfo;
 
 /**
  * Error class representing syntax errors during shader parsing.
@@ -12,6 +12,37 @@ class peg$SyntaxError extends SyntaxError {
         this.name = "SyntaxError";
     }
 
+    format(sources) {
+        let str = "Error: " + this.message;
+        if (this.location) {
+            let src = null;
+            const st = sources.find(s => s.source === this.location.source);
+            if (st) {
+                src = st.text.split(/\r\n|\n|\r/g);
+            }
+            const s = this.location.start;
+            const offset_s = (this.location.source && (typeof this.location.source.offset === "function"))
+                ? this.location.source.offset(s)
+                : s;
+            const loc = this.location.source + ":" + offset_s.line + ":" + offset_s.column;
+            if (src) {
+                const e = this.location.end;
+                const filler = "".padEnd(offset_s.line.toString().length, " ");
+                const line = src[s.line - 1];
+                const last = s.line === e.line ? e.column : line.length + 1;
+                const hatLen = (last - s.column) || 1;
+                str += "\n --> " + loc + "\n"
+                        + filler + " |\n"
+                        + offset_s.line + " | " + line + "\n"
+                        + filler + " | " + "".padEnd(s.column - 1, " ")
+                        + "".padEnd(hatLen, "^");
+            } else {
+                str += "\n at " + loc;
+            }
+        }
+        return str;
+    }
+
     static buildMessage(expected, found) {
         function hex(ch) {
             return ch.codePointAt(0).toString(16).toUpperCase();
@@ -20,10 +51,9 @@ class peg$SyntaxError extends SyntaxError {
         const nonPrintable = Object.prototype.hasOwnProperty.call(RegExp.prototype, "unicode")
             ? new RegExp("[\\p{C}\\p{Mn}\\p{Mc}]", "gu")
             : null;
-
         function unicodeEscape(s) {
             if (nonPrintable) {
-                return s.replace(nonPrintable, ch => "\\u{" + hex(ch) + "}");
+                return s.replace(nonPrintable,  ch => "\\u{" + hex(ch) + "}");
             }
             return s;
         }
@@ -31,13 +61,13 @@ class peg$SyntaxError extends SyntaxError {
         function literalEscape(s) {
             return unicodeEscape(s
                 .replace(/\\/g, "\\\\")
-                .replace(/"/g, "\\\"")
+                .replace(/"/g,  "\\\"")
                 .replace(/\0/g, "\\0")
                 .replace(/\t/g, "\\t")
                 .replace(/\n/g, "\\n")
                 .replace(/\r/g, "\\r")
-                .replace(/[\x00-\x0F]/g, ch => "\\x0" + hex(ch))
-                .replace(/[\x10-\x1F\x7F-\x9F]/g, ch => "\\x" + hex(ch)));
+                .replace(/[\x00-\x0F]/g,          ch => "\\x0" + hex(ch))
+                .replace(/[\x10-\x1F\x7F-\x9F]/g, ch => "\\x"  + hex(ch)));
         }
 
         function classEscape(s) {
@@ -45,13 +75,13 @@ class peg$SyntaxError extends SyntaxError {
                 .replace(/\\/g, "\\\\")
                 .replace(/\]/g, "\\]")
                 .replace(/\^/g, "\\^")
-                .replace(/-/g, "\\-")
+                .replace(/-/g,  "\\-")
                 .replace(/\0/g, "\\0")
                 .replace(/\t/g, "\\t")
                 .replace(/\n/g, "\\n")
                 .replace(/\r/g, "\\r")
-                .replace(/[\x00-\x0F]/g, ch => "\\x0" + hex(ch))
-                .replace(/[\x10-\x1F\x7F-\x9F]/g, ch => "\\x" + hex(ch)));
+                .replace(/[\x00-\x0F]/g,          ch => "\\x0" + hex(ch))
+                .replace(/[\x10-\x1F\x7F-\x9F]/g, ch => "\\x"  + hex(ch)));
         }
 
         const DESCRIBE_EXPECTATION_FNS = {
@@ -121,37 +151,6 @@ class peg$SyntaxError extends SyntaxError {
 
         return "Expected " + describeExpected(expected) + " but " + describeFound(found) + " found.";
     }
-
-    format(sources) {
-        let str = "Error: " + this.message;
-        if (this.location) {
-            let src = null;
-            const st = sources.find(s => s.source === this.location.source);
-            if (st) {
-                src = st.text.split(/\r\n|\n|\r/g);
-            }
-            const s = this.location.start;
-            const offset_s = (this.location.source && (typeof this.location.source.offset === "function"))
-                ? this.location.source.offset(s)
-                : s;
-            const loc = this.location.source + ":" + offset_s.line + ":" + offset_s.column;
-            if (src) {
-                const e = this.location.end;
-                const filler = "".padEnd(offset_s.line.toString().length, " ");
-                const line = src[s.line - 1];
-                const last = s.line === e.line ? e.column : line.length + 1;
-                const hatLen = (last - s.column) || 1;
-                str += "\n --> " + loc + "\n"
-                    + filler + " |\n"
-                    + offset_s.line + " | " + line + "\n"
-                    + filler + " | " + "".padEnd(s.column - 1, " ")
-                    + "".padEnd(hatLen, "^");
-            } else {
-                str += "\n at " + loc;
-            }
-        }
-        return str;
-    }
 }
 
 function peg$parse(input, options) {
@@ -181,115 +180,169 @@ function peg$parse(input, options) {
     function peg$f0() {
         // Commit the last block if it was a PASS and had accumulated code.
         // 如果最後一個區塊是 PASS 並且有累積的程式碼，則提交它。
-        if (currentBlock === 'PASS' && passCodeBuffer.length > 0) {
-            currentData.code = passCodeBuffer.join('\n');
-        }
+        closeBlockConditionals();
+        commitPassCode();
         // Commit any remaining current block data.
         // 提交任何剩餘的當前區塊資料。
         if (currentData) commitBlock(currentBlock, currentData);
-        return shaderInfo;
-    }
-
-    function peg$f1() {
-        return { type: "empty" };
+        conditionStack.filter(c => !c.reported).forEach(c => {
+            report('error', 'unterminated-if', `//! IF ${c.expr} has no matching //! ENDIF / //! IF ${c.expr} 缺少對應的 //! ENDIF`, c.loc);
+        });
+        return recover ? { shaderInfo, diagnostics, sourceMap } : shaderInfo;
     }
-
+    function peg$f1() {    return { type: "empty" };  }
     function peg$f2(name, value) {
         const directive = name.toUpperCase();
         const val = value.trim();
+        seenDirective = true;
+
+        // Handle conditional compilation directives. Conditions are evaluated later, when defines are known.
+        // 處理條件編譯指令。條件會在已知巨集定義時才求值。
+        if (directive === 'IF' || directive === 'ELSE' || directive === 'ENDIF') {
+                const top = conditionStack[conditionStack.length - 1];
+                if (directive === 'IF') {
+                        if (!val) report('error', 'invalid-condition', '//! IF requires a condition / //! IF 需要條件運算式', location());
+                        const inBlock = currentBlock === 'COMMON' || currentBlock === 'PASS';
+                        const markerIndex = currentBlock === 'COMMON' ? currentData.lines.length : passCodeBuffer.length;
+                        conditionStack.push({ expr: val, inElse: false, inBlock: inBlock, markerIndex: markerIndex, loc: location() });
+                        if (inBlock) pushCodeLine(`//! IF ${val}`, location());
+                } else if (!top) {
+                        report('error', `unmatched-${directive.toLowerCase()}`, `//! ${directive} has no matching //! IF / //! ${directive} 缺少對應的 //! IF`, location());
+                } else if (directive === 'ELSE') {
+                        if (top.inElse) report('error', 'duplicate-else', `//! IF ${top.expr} has more than one //! ELSE / //! IF ${top.expr} 有多個 //! ELSE`, location());
+                        top.inElse = true;
+                        if (top.inBlock) pushCodeLine('//! ELSE', location());
+                } else {
+                        conditionStack.pop();
+                        if (top.inBlock) pushCodeLine('//! ENDIF', location());
+                }
+                return { type: "directive", directive: directive, value: val };
+        }
 
         // Handle the 'END' directive, which explicitly closes the current block.
         // 處理 'END' 指令，它會明確關閉當前區塊。
         if (directive === 'END') {
-            // If a PASS block was active, commit its accumulated code.
-            // 如果 PASS 區塊處於活動狀態，則提交其累積的程式碼。
-            if (currentBlock === 'PASS' && passCodeBuffer.length > 0) {
-                currentData.code = passCodeBuffer.join('\n');
-                passCodeBuffer = [];
-            }
-            // Commit any remaining current block data before ending.
-            // 在結束前提交任何剩餘的當前區塊資料。
-            if (currentData) {
-                commitBlock(currentBlock, currentData);
-            }
-            currentBlock = null;
-            currentData = null;
-            return { type: "directive", directive: "END" };
+                closeBlockConditionals();
+                // If a PASS block was active, commit its accumulated code.
+                // 如果 PASS 區塊處於活動狀態，則提交其累積的程式碼。
+                commitPassCode();
+                // Commit any remaining current block data before ending.
+                // 在結束前提交任何剩餘的當前區塊資料。
+                if (currentData) {
+                        commitBlock(currentBlock, currentData);
+                }
+                currentBlock = null;
+                currentData = null;
+                declaredResource = null;
+                codeOrigins = [];
+                return { type: "directive", directive: "END" };
         }
 
         // Check for block-starting directives.
         // 檢查區塊起始指令。
-        if (["PARAMETER", "TEXTURE", "SAMPLER", "COMMON", "PASS", "VERSION", "SORT_NAME", "USE", "CAPABILITY"].includes(directive)) {
-            // If we were in a PASS block, commit its code first before starting a new block.
-            // 如果我們在 PASS 區塊中，則在開始新區塊之前先提交其程式碼。
-            if (currentBlock === 'PASS' && passCodeBuffer.length > 0) {
-                currentData.code = passCodeBuffer.join('\n');
-                passCodeBuffer = [];
-            }
-            // Commit the data of the previous block.
-            // 提交前一個區塊的資料。
-            if (currentData) {
-                commitBlock(currentBlock, currentData);
-            }
-
-            // Start a new block based on the directive.
-            // 根據指令開始一個新區塊。
-            if (["PARAMETER", "TEXTURE", "SAMPLER", "COMMON", "PASS"].includes(directive)) {
-                currentBlock = directive;
-                currentData = { id: val, lines: [] }; // Initialize currentData for the new block.
-                if (directive === 'PASS') currentData.index = parseInt(val, 10); // Special handling for PASS index.
-            } else { // Global directives (VERSION, SORT_NAME, USE, CAPABILITY) are self-contained and don't start a multi-line block.
-                currentBlock = null;
-                currentData = null;
-                commitBlock(directive, { id: val }); // Commit immediately as they are single-line directives.
-            }
+        if (["PARAMETER","TEXTURE","SAMPLER","COMMON","PASS", "VERSION","SORT_NAME","OUTPUT_WIDTH","OUTPUT_HEIGHT","USE","CAPABILITY"].includes(directive)) {
+                closeBlockConditionals();
+                // If we were in a PASS block, commit its code first before starting a new block.
+                // 如果我們在 PASS 區塊中，則在開始新區塊之前先提交其程式碼。
+                commitPassCode();
+                // Commit the data of the previous block.
+                // 提交前一個區塊的資料。
+                if (currentData) {
+                    commitBlock(currentBlock, currentData);
+                }
+                declaredResource = null;
+                codeOrigins = [];
+
+                // Start a new block based on the directive.
+                // 根據指令開始一個新區塊。
+                if (["PARAMETER","TEXTURE","SAMPLER","COMMON","PASS"].includes(directive)) {
+                    currentBlock = directive;
+                    currentData = { id: val, lines: [] }; // Initialize currentData for the new block.
+                    blockLocation = location();
+                    if (conditionStack.length > 0) currentData.conditions = currentConditions(); // Guarded by //! IF
+                    if (directive === 'PASS') { // Special handling for PASS index.
+                        currentData.index = parseInt(val,10);
+                        if (!/^[0-9]+$/.test(val)) {
+                            report('error', 'invalid-pass-index', `Invalid pass index "${val}" / 無效的通道索引 "${val}"`, location());
+                        }
+                    }
+                } else { // Global directives (VERSION, SORT_NAME, OUTPUT_WIDTH/HEIGHT, USE, CAPABILITY) are self-contained and don't start a multi-line block.
+                    currentBlock = null;
+                    currentData = null;
+                    if (conditionStack.length > 0) {
+                        report('warning', 'conditional-metadata', `//! ${directive} inside //! IF applies unconditionally / //! IF 內的 //! ${directive} 不受條件影響`, location());
+                    }
+                    commitBlock(directive, { id: val }); // Commit immediately as they are single-line directives.
+                }
         } else { // This is a sub-directive within an active block.
             // If there's no active block, this sub-directive is out of place.
             // 如果沒有活動區塊，則此子指令放置不當。
-            if (!currentData) throw new Error(`Directive //! ${directive} cannot be used here / 指令 //! ${directive} 不能在此處使用`);
-            parseSubDirective(currentData, directive, val); // Parse the sub-directive.
+            if (!currentData) {
+                report('error', 'misplaced-directive', `Directive //! ${directive} cannot be used here / 指令 //! ${directive} 不能在此處使用`, location());
+                return { type: "directive", directive: directive, value: val };
+            }
+            if (conditionStack.some(c => c.inBlock)) {
+                report('error', 'conditional-directive', `Directive //! ${directive} cannot be made conditional inside a block / 區塊內的 //! ${directive} 指令不能放在條件中`, location());
+                return { type: "directive", directive: directive, value: val };
+            }
+            parseSubDirective(currentData, directive, val, location()); // Parse the sub-directive.
         }
         return { type: "directive", directive: directive, value: val };
     }
-
     function peg$f3(text) {
         const lineStr = text.join("");
         const trimmedLine = lineStr.trim();
 
+        // HLSL-style parameter declarations such as "float Strength;" or "int Radius;".
+        // HLSL 風格的參數宣告，例如 "float Strength;" 或 "int Radius;"。
+        if (currentBlock === 'PARAMETER') {
+            const decl = trimmedLine.match(/^((?:float|int|uint)[234]?|bool)\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*;/);
+            if (decl) {
+                    currentData.type = decl[1];
+                    currentData.name = currentData.name || decl[2]; // //! VAR takes precedence
+                    keepLine(lineStr);
+                    return { type: "code", text: lineStr };
+            }
+        }
+
         // Special handling for resource declarations in TEXTURE, SAMPLER, PARAMETER blocks.
         // 對於 TEXTURE, SAMPLER, PARAMETER 區塊中的資源宣告進行特殊處理。
         if (currentBlock === 'TEXTURE' || currentBlock === 'SAMPLER' || currentBlock === 'PARAMETER') {
             const match = trimmedLine.match(/var\s+([a-zA-Z0-9_]+)\s*:/); // Regex to find variable declaration.
             if (match) {
-                currentData.isTemplate = true; // Mark as a template for resource creation.
-                const name = match[1]; // Extract the resource name.
-                const newResource = { ...currentData, name: name, id: name }; // Create a new resource object.
-                delete newResource.lines; // These are specific to COMMON blocks.
-                delete newResource.isTemplate;
-
-                // Push the new resource to the appropriate shaderInfo array.
-                // 將新資源推送到相應的 shaderInfo 陣列中。
-                if (currentBlock === 'TEXTURE') {
-                    shaderInfo.textures.push(newResource);
-                } else if (currentBlock === 'SAMPLER') {
-                    shaderInfo.samplers.push(newResource);
-                } else if (currentBlock === 'PARAMETER') {
-                    shaderInfo.parameters.push(newResource);
-                }
-                return { type: "code", text: lineStr };
+                    currentData.isTemplate = true; // Mark as a template for resource creation.
+                    const name = match[1]; // Extract the resource name.
+                    // The resource keeps the lines before its declaration and the declaration itself.
+                    // 資源保留其宣告之前的行與宣告本身。
+                    const newResource = { ...currentData, name: name, id: name, lines: [...currentData.lines, lineStr] };
+                    delete newResource.isTemplate;
+                    currentData.lines = [];
+                    declaredResource = newResource;
+
+                    // Push the new resource to the appropriate shaderInfo array.
+                    // 將新資源推送到相應的 shaderInfo 陣列中。
+                    if (currentBlock === 'TEXTURE') {
+                            shaderInfo.textures.push(newResource);
+                            sourceMap.textures.push(originOf(blockLocation));
+                    } else if (currentBlock === 'SAMPLER') {
+                            shaderInfo.samplers.push(newResource);
+                            sourceMap.samplers.push(originOf(blockLocation));
+                    } else if (currentBlock === 'PARAMETER') {
+                            const wgslType = trimmedLine.match(/var\s+[a-zA-Z0-9_]+\s*:\s*([^;=]+)/)[1].replace(/\s+/g, '');
+                            newResource.type = parameterType(wgslType, location());
+                            declaredResource = finalizeParameter(newResource);
+                            shaderInfo.parameters.push(declaredResource);
+                    }
+                    return { type: "code", text: lineStr };
             }
         }
 
-        // Accumulate code lines for COMMON and PASS blocks.
-        // 累積 COMMON 和 PASS 區塊的程式碼行。
-        if (currentBlock === 'COMMON') {
-            currentData.lines.push(lineStr);
-        } else if (currentBlock === 'PASS') {
-            passCodeBuffer.push(lineStr);
-        }
+        // Accumulate code lines for COMMON and PASS blocks, keep the others verbatim.
+        // 累積 COMMON 和 PASS 區塊的程式碼行，其餘的行原樣保留。
+        pushCodeLine(lineStr, location());
+        keepLine(lineStr);
         return { type: "code", text: lineStr };
     }
-
     let peg$currPos = options.peg$currPos | 0;
     let peg$savedPos = peg$currPos;
     const peg$posDetailsCache = [{ line: 1, column: 1 }];
@@ -386,8 +439,7 @@ function peg$parse(input, options) {
                 p = peg$posDetailsCache.length - 1;
             } else {
                 p = pos;
-                while (!peg$posDetailsCache[--p]) {
-                }
+                while (!peg$posDetailsCache[--p]) {}
             }
 
             details = peg$posDetailsCache[p];
@@ -438,9 +490,7 @@ function peg$parse(input, options) {
     }
 
     function peg$fail(expected) {
-        if (peg$currPos < peg$maxFailPos) {
-            return;
-        }
+        if (peg$currPos < peg$maxFailPos) { return; }
 
         if (peg$currPos > peg$maxFailPos) {
             peg$maxFailPos = peg$currPos;
@@ -493,9 +543,7 @@ function peg$parse(input, options) {
                     peg$currPos++;
                 } else {
                     s1 = peg$FAILED;
-                    if (peg$silentFails === 0) {
-                        peg$fail(peg$e0);
-                    }
+                    if (peg$silentFails === 0) { peg$fail(peg$e0); }
                 }
                 if (s1 !== peg$FAILED) {
                     peg$savedPos = s0;
@@ -517,9 +565,7 @@ function peg$parse(input, options) {
             peg$currPos += 3;
         } else {
             s1 = peg$FAILED;
-            if (peg$silentFails === 0) {
-                peg$fail(peg$e1);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e1); }
         }
         if (s1 !== peg$FAILED) {
             s2 = peg$parse_();
@@ -551,9 +597,7 @@ function peg$parse(input, options) {
             peg$currPos++;
         } else {
             s2 = peg$FAILED;
-            if (peg$silentFails === 0) {
-                peg$fail(peg$e2);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e2); }
         }
         if (s2 !== peg$FAILED) {
             while (s2 !== peg$FAILED) {
@@ -563,9 +607,7 @@ function peg$parse(input, options) {
                     peg$currPos++;
                 } else {
                     s2 = peg$FAILED;
-                    if (peg$silentFails === 0) {
-                        peg$fail(peg$e2);
-                    }
+                    if (peg$silentFails === 0) { peg$fail(peg$e2); }
                 }
             }
         } else {
@@ -577,9 +619,7 @@ function peg$parse(input, options) {
                 peg$currPos++;
             } else {
                 s2 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                    peg$fail(peg$e0);
-                }
+                if (peg$silentFails === 0) { peg$fail(peg$e0); }
             }
             if (s2 === peg$FAILED) {
                 s2 = null;
@@ -604,9 +644,7 @@ function peg$parse(input, options) {
             peg$currPos++;
         } else {
             s2 = peg$FAILED;
-            if (peg$silentFails === 0) {
-                peg$fail(peg$e3);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e3); }
         }
         if (s2 !== peg$FAILED) {
             while (s2 !== peg$FAILED) {
@@ -616,9 +654,7 @@ function peg$parse(input, options) {
                     peg$currPos++;
                 } else {
                     s2 = peg$FAILED;
-                    if (peg$silentFails === 0) {
-                        peg$fail(peg$e3);
-                    }
+                    if (peg$silentFails === 0) { peg$fail(peg$e3); }
                 }
             }
         } else {
@@ -643,9 +679,7 @@ function peg$parse(input, options) {
             peg$currPos++;
         } else {
             s2 = peg$FAILED;
-            if (peg$silentFails === 0) {
-                peg$fail(peg$e2);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e2); }
         }
         while (s2 !== peg$FAILED) {
             s1.push(s2);
@@ -654,9 +688,7 @@ function peg$parse(input, options) {
                 peg$currPos++;
             } else {
                 s2 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                    peg$fail(peg$e2);
-                }
+                if (peg$silentFails === 0) { peg$fail(peg$e2); }
             }
         }
         s0 = input.substring(s0, peg$currPos);
@@ -673,9 +705,7 @@ function peg$parse(input, options) {
             peg$currPos++;
         } else {
             s1 = peg$FAILED;
-            if (peg$silentFails === 0) {
-                peg$fail(peg$e4);
-            }
+            if (peg$silentFails === 0) { peg$fail(peg$e4); }
         }
         while (s1 !== peg$FAILED) {
             s0.push(s1);
@@ -684,9 +714,7 @@ function peg$parse(input, options) {
                 peg$currPos++;
             } else {
                 s1 = peg$FAILED;
-                if (peg$silentFails === 0) {
-                    peg$fail(peg$e4);
-                }
+                if (peg$silentFails === 0) { peg$fail(peg$e4); }
             }
         }
 
@@ -711,83 +739,374 @@ function peg$parse(input, options) {
     // Stores data for the current block being parsed.
     // 儲存當前正在解析的區塊資料。
     let currentData = null;
+    // Resource declared by the latest `var` line of the current TEXTURE/SAMPLER/PARAMETER block; it also keeps the lines left after the last declaration.
+    // 目前 TEXTURE/SAMPLER/PARAMETER 區塊中最近一個 `var` 行所宣告的資源；最後一個宣告之後剩餘的行也歸屬於它。
+    let declaredResource = null;
+    // Whether a directive has been seen; lines before the first one are the file header, which the parser ignores.
+    // 是否已出現過指令；第一個指令之前的行屬於檔頭，解析器不處理。
+    let seenDirective = false;
     // Buffer to accumulate code lines within a 'PASS' block.
     // 用於在 'PASS' 區塊內累積程式碼行的緩衝區。
     let passCodeBuffer = [];
+    // Origin ({ source, line }) of each code line of the active COMMON or PASS block, parallel to its code buffer.
+    // 目前 COMMON 或 PASS 區塊每一行程式碼的來源 ({ source, line })，與其程式碼緩衝區一一對應。
+    let codeOrigins = [];
+    // Origins of the lines of shaderInfo.commonCode and of each pass code (keyed by pass index), and of the
+    // directive of each texture and sampler, returned in recovering mode.
+    // shaderInfo.commonCode 與各通道程式碼（以通道索引為鍵）每一行的來源，以及各紋理與取樣器之指令的來源，在復原模式下回傳。
+    const sourceMap = { common: [], passes: {}, textures: [], samplers: [] };
+    // Location of the directive that opened the current block, for diagnostics.
+    // 開啟當前區塊之指令的位置，用於診斷訊息。
+    let blockLocation = null;
+    // Open //! IF regions: { expr, inElse, inBlock, loc }. inBlock marks regions opened inside a COMMON/PASS body,
+    // which are kept as marker lines in the code; the others become block-level conditions.
+    // 尚未關閉的 //! IF 區域。inBlock 表示在 COMMON/PASS 內開啟的區域，會以標記行保留在程式碼中；其餘則成為區塊層級條件。
+    const conditionStack = [];
+
+    // Whether the parser should keep going after an error instead of throwing.
+    // 是否在遇到錯誤時繼續解析而非立即拋出例外。
+    const recover = options.recover === true;
+    // Problems found so far, returned alongside shaderInfo in recovering mode.
+    // 目前收集到的問題，在復原模式下會與 shaderInfo 一併回傳。
+    const diagnostics = [];
+
+    // Maps each line of the (include-expanded) input back to its origin: { source, line }.
+    // null when the input contains no //! INCLUDE, in which case lines map to themselves.
+    // 將展開後輸入的每一行對應回其來源 { source, line }；若沒有 //! INCLUDE 則為 null。
+    let lineMap = null;
+
+    /**
+      * Stores a diagnostic, or throws it as a located SyntaxError in strict mode.
+      * 儲存診斷訊息；嚴格模式下遇到錯誤則以帶位置的 SyntaxError 拋出。
+      * @param {string} severity - 'error', 'warning' or 'info'.
+      * @param {string} code - Stable identifier of the problem (e.g. 'misplaced-directive').
+      * @param {string} message - Human readable description.
+      * @param {string|undefined} source - File the problem is in, undefined for the main input.
+      * @param {object} start - { line, column } in that file.
+      * @param {object} end - { line, column } in that file.
+      */
+    function pushDiagnostic(severity, code, message, source, start, end) {
+        if (severity === 'error' && !recover) {
+            error(message, {
+                source: source !== undefined ? source : options.grammarSource,
+                start: { offset: 0, line: start.line, column: start.column },
+                end: { offset: 0, line: end.line, column: end.column }
+            });
+        }
+        const diagnostic = { severity: severity, code: code, message: message, start: start, end: end };
+        if (source !== undefined) diagnostic.source = source;
+        diagnostics.push(diagnostic);
+    }
+
+    /**
+      * Records a diagnostic at the given location, translated through the include line map.
+      * 在指定位置記錄診斷訊息，並透過 include 行對應表轉換回原始檔案的位置。
+      * @param {string} severity - 'error', 'warning' or 'info'.
+      * @param {string} code - Stable identifier of the problem (e.g. 'misplaced-directive').
+      * @param {string} message - Human readable description.
+      * @param {object} loc - Peggy location object from location().
+      */
+    function report(severity, code, message, loc) {
+        const origin = lineMap ? lineMap[loc.start.line - 1] : null;
+        const source = origin ? origin.source : undefined;
+        const toOrigin = (pos) => {
+            const mapped = lineMap ? lineMap[pos.line - 1] : null;
+            return { line: mapped ? mapped.line : pos.line, column: pos.column };
+        };
+        pushDiagnostic(severity, code, message, source, toOrigin(loc.start), toOrigin(loc.end));
+    }
+
+    /**
+      * Returns the origin of the line a location starts on, translated through the include line map.
+      * 回傳位置起始行的來源，並透過 include 行對應表轉換。
+      * @param {object} loc - Peggy location object from location().
+      * @returns {object} { line, source? } in the original file.
+      */
+    function originOf(loc) {
+        const mapped = lineMap ? lineMap[loc.start.line - 1] : null;
+        const origin = { line: mapped ? mapped.line : loc.start.line };
+        if (mapped && mapped.source !== undefined) origin.source = mapped.source;
+        return origin;
+    }
 
     /**
-     * Commits the parsed data of a block to the main shaderInfo structure.
-     * 將解析後的區塊資料提交到主要的 shaderInfo 結構中。
-     * @param {string} blockType - The type of the block (e.g., 'PARAMETER', 'COMMON').
-     * @param {object} data - The parsed data for the block.
-     */
+      * Recursively replaces //! INCLUDE lines with the content returned by options.resolveInclude.
+      * 遞迴地將 //! INCLUDE 行替換為 options.resolveInclude 回傳的內容。
+      * @param {string} text - Source text to expand.
+      * @param {string|undefined} source - Id of the file the text comes from, undefined for the main input.
+      * @param {string[]} stack - Ids of the files currently being expanded, used to detect cycles.
+      * @returns {object[]} Expanded lines as { text, source, line }.
+      */
+    function expandIncludes(text, source, stack) {
+        const lines = text.split('\n');
+        if (source !== undefined && lines[lines.length - 1] === '') lines.pop();
+        const expanded = [];
+
+        lines.forEach((lineText, i) => {
+            const match = lineText.match(/^\s*\/\/!\s*INCLUDE\b(.*)$/i);
+            if (!match) {
+                expanded.push({ text: lineText, source: source, line: i + 1 });
+                return;
+            }
+
+            const path = unquote(match[1].trim());
+            const start = { line: i + 1, column: 1 };
+            const end = { line: i + 1, column: lineText.length + 1 };
+            const resolved = options.resolveInclude
+                ? options.resolveInclude(path, source !== undefined ? source : options.grammarSource)
+                : undefined;
+
+            if (!options.resolveInclude) {
+                pushDiagnostic('error', 'include-unresolved', `No include resolver available for "${path}" / 沒有可用的 include 解析器來載入 "${path}"`, source, start, end);
+            } else if (!resolved) {
+                pushDiagnostic('error', 'include-not-found', `Cannot resolve include "${path}" / 無法解析 include "${path}"`, source, start, end);
+            } else if (stack.includes(resolved.id)) {
+                const chain = [...stack, resolved.id].join(' -> ');
+                pushDiagnostic('error', 'include-cycle', `Include cycle detected: ${chain} / 偵測到循環 include：${chain}`, source, start, end);
+            } else {
+                expanded.push(...expandIncludes(resolved.code, resolved.id, [...stack, resolved.id]));
+                return;
+            }
+            // Keep the line count stable for the failed include / 保留失敗 include 的行以維持行號
+            expanded.push({ text: '', source: source, line: i + 1 });
+        });
+
+        return expanded;
+    }
+
+    // Expand includes up front so the grammar below only ever sees a single flat source.
+    // 預先展開 include，使下方的文法只需處理單一的扁平原始碼。
+    if (/^\s*\/\/!\s*INCLUDE\b/im.test(input)) {
+        const expanded = expandIncludes(input, undefined, options.grammarSource !== undefined ? [String(options.grammarSource)] : []);
+        lineMap = expanded.map(l => ({ source: l.source, line: l.line }));
+        input = expanded.map(l => l.text).join('\n');
+    }
+
+    /**
+      * Parses a number, reporting an 'invalid-number' error if it is not numeric.
+      * 解析數值，若非數字則回報 'invalid-number' 錯誤。
+      */
+    function parseNumber(directive, value, loc) {
+        const num = parseFloat(value);
+        if (Number.isNaN(num)) {
+            report('error', 'invalid-number', `Directive //! ${directive} expects a number, got "${value}" / 指令 //! ${directive} 需要數值，但得到 "${value}"`, loc);
+        }
+        return num;
+    }
+
+    /**
+      * Returns the conditions guarding the current position, one term per open //! IF.
+      * 回傳目前位置的條件列表，每個開啟的 //! IF 對應一項。
+      */
+    function currentConditions() {
+        return conditionStack.map(c => c.inElse ? `!(${c.expr})` : c.expr);
+    }
+
+    /**
+      * Appends a line to the code of the active COMMON or PASS block.
+      * 將一行附加至目前 COMMON 或 PASS 區塊的程式碼。
+      * @param {string} lineStr - The code line.
+      * @param {object} loc - Location of the line in the input, recorded in the source map.
+      */
+    function pushCodeLine(lineStr, loc) {
+        if (currentBlock === 'COMMON') {
+            currentData.lines.push(lineStr);
+        } else if (currentBlock === 'PASS') {
+            passCodeBuffer.push(lineStr);
+        } else {
+            return;
+        }
+        codeOrigins.push(originOf(loc));
+    }
+
+    /**
+      * Keeps a non-directive line outside COMMON/PASS code verbatim, so that the printer can write it back:
+      * in a TEXTURE/SAMPLER/PARAMETER block it belongs to the next resource declared, elsewhere to the metadata.
+      * 原樣保留 COMMON/PASS 程式碼以外的非指令行，供輸出器寫回：
+      * 在 TEXTURE/SAMPLER/PARAMETER 區塊內屬於下一個宣告的資源，其他位置則屬於元數據。
+      * @param {string} lineStr - The line.
+      */
+    function keepLine(lineStr) {
+        if (lineStr.trim() === '') return;
+        if (currentBlock === 'TEXTURE' || currentBlock === 'SAMPLER' || currentBlock === 'PARAMETER') {
+            currentData.lines.push(lineStr);
+        } else if (!currentBlock && seenDirective) {
+            (shaderInfo.metadata.lines = shaderInfo.metadata.lines || []).push(lineStr);
+        }
+    }
+
+    /**
+      * Stores the accumulated code of the active PASS block and its line origins.
+      * 儲存目前 PASS 區塊累積的程式碼及其各行來源。
+      */
+    function commitPassCode() {
+        if (currentBlock === 'PASS' && passCodeBuffer.length > 0) {
+            currentData.code = passCodeBuffer.join('\n');
+            sourceMap.passes[currentData.index] = codeOrigins;
+            passCodeBuffer = [];
+            codeOrigins = [];
+        }
+    }
+
+    /**
+      * Called when a block ends while //! IF regions opened inside it are still open.
+      * A region with no code after its marker (e.g. "//! IF X" right before "//! PASS 2") simply guards
+      * the following blocks; otherwise it is reported as unterminated. Either way it becomes block-level.
+      * 區塊結束時處理在其內開啟但未關閉的 //! IF。若標記之後沒有程式碼 (例如緊接在 "//! PASS 2" 之前)，
+      * 則僅作為後續區塊的條件；否則回報為未關閉。兩種情況都會轉為區塊層級條件。
+      */
+    function closeBlockConditionals() {
+        const buffer = currentBlock === 'COMMON' ? currentData.lines : (currentBlock === 'PASS' ? passCodeBuffer : []);
+        conditionStack.filter(c => c.inBlock).reverse().forEach(c => {
+            if (buffer.slice(c.markerIndex + 1).every(l => l.trim() === '')) {
+                buffer.splice(c.markerIndex, 1);
+                codeOrigins.splice(c.markerIndex, 1);
+            } else {
+                report('error', 'unterminated-if', `//! IF ${c.expr} is not closed before the end of the block / //! IF ${c.expr} 在區塊結束前未關閉`, c.loc);
+                c.reported = true;
+            }
+            c.inBlock = false;
+        });
+    }
+
+    /**
+      * Commits the parsed data of a block to the main shaderInfo structure.
+      * 將解析後的區塊資料提交到主要的 shaderInfo 結構中。
+      * @param {string} blockType - The type of the block (e.g., 'PARAMETER', 'COMMON').
+      * @param {object} data - The parsed data for the block.
+      */
     function commitBlock(blockType, data) {
         if (!blockType || !data || data.isTemplate) {
+            if (data && data.isTemplate) declaredResource.lines.push(...data.lines);
             currentData = null;
             return;
         }
-        switch (blockType) {
-            case 'PARAMETER':
-                shaderInfo.parameters.push(data);
-                break;
-            case 'COMMON':
-                shaderInfo.commonCode = data.lines.join('\n');
+        switch(blockType) {
+            case 'PARAMETER': shaderInfo.parameters.push(finalizeParameter(data)); break;
+            case 'COMMON': {
+                // Several COMMON blocks are concatenated; conditional ones keep their condition as markers.
+                // 多個 COMMON 區塊會被串接；帶條件的區塊以標記行保留其條件。
+                if (data.lines.length === 0) break;
+                const conditions = data.conditions || [];
+                const lines = [
+                    ...conditions.map(c => `//! IF ${c}`),
+                    ...data.lines,
+                    ...conditions.map(() => '//! ENDIF')
+                ];
+                shaderInfo.commonCode = shaderInfo.commonCode ? `${shaderInfo.commonCode}\n${lines.join('\n')}` : lines.join('\n');
+                // The generated markers point at the COMMON directive / 產生的標記行指向 COMMON 指令
+                const blockOrigin = originOf(blockLocation);
+                sourceMap.common.push(
+                    ...conditions.map(() => blockOrigin),
+                    ...codeOrigins,
+                    ...conditions.map(() => blockOrigin)
+                );
                 break;
+            }
             case 'TEXTURE':
                 shaderInfo.textures.push(data);
+                sourceMap.textures.push(originOf(blockLocation));
                 break;
             case 'SAMPLER':
                 shaderInfo.samplers.push(data);
+                sourceMap.samplers.push(originOf(blockLocation));
                 break;
-            case 'PASS':
-                shaderInfo.passes.push(data);
-                break;
-            case 'VERSION':
-                shaderInfo.metadata.version = parseInt(data.id, 10);
-                break;
-            case 'SORT_NAME':
-                shaderInfo.metadata.sortName = data.id;
-                break;
-            case 'USE':
-                data.id.split(',').forEach(f => shaderInfo.metadata.use[f.trim().toUpperCase()] = true);
-                break;
-            case 'CAPABILITY':
-                data.id.split(',').forEach(f => shaderInfo.metadata.capability[f.trim().toUpperCase()] = true);
-                break;
+            case 'PASS': shaderInfo.passes.push(data); break;
+            case 'VERSION': shaderInfo.metadata.version = parseInt(data.id,10); break;
+            case 'SORT_NAME': shaderInfo.metadata.sortName = data.id; break;
+            case 'OUTPUT_WIDTH': shaderInfo.metadata.outputWidth = data.id; break;
+            case 'OUTPUT_HEIGHT': shaderInfo.metadata.outputHeight = data.id; break;
+            case 'USE': data.id.split(',').forEach(f=>shaderInfo.metadata.use[f.trim().toUpperCase()]=true); break;
+            case 'CAPABILITY': data.id.split(',').forEach(f=>shaderInfo.metadata.capability[f.trim().toUpperCase()]=true); break;
         }
         currentData = null;
     }
 
     /**
-     * Parses sub-directives within a block (e.g., //! DEFAULT, //! MIN for PARAMETER).
-     * 解析區塊內部的子指令 (例如 PARAMETER 的 //! DEFAULT, //! MIN)。
-     * @param {object} data - The current block's data object to populate.
-     * @param {string} directive - The name of the sub-directive.
-     * @param {string} value - The value of the sub-directive.
-     */
-    function parseSubDirective(data, directive, value) {
+      * Removes one pair of surrounding double quotes, e.g. "Invert Amount" -> Invert Amount.
+      * 移除一組外圍的雙引號。
+      */
+    function unquote(value) {
+        return /^".*"$/.test(value) ? value.slice(1, -1) : value;
+    }
+
+    /**
+      * Converts the WGSL type of a `var` parameter declaration into a parameter type (e.g. vec3<f32> -> float3).
+      * 將 `var` 參數宣告的 WGSL 型別轉換為參數型別 (例如 vec3<f32> -> float3)。
+      */
+    function parameterType(wgslType, loc) {
+        const scalars = { f32: 'float', i32: 'int', u32: 'uint', bool: 'bool' };
+        const suffixes = { f: 'f32', i: 'i32', u: 'u32' }; // vec3f, vec2i, ...
+        if (scalars[wgslType]) return scalars[wgslType];
+        const vec = wgslType.match(/^vec([234])(?:<(f32|i32|u32)>|([fiu]))$/);
+        if (vec) return scalars[vec[2] || suffixes[vec[3]]] + vec[1];
+        report('error', 'invalid-parameter-type', `Unsupported parameter type "${wgslType}" / 不支援的參數型別 "${wgslType}"`, loc);
+        return 'float';
+    }
+
+    /**
+      * Resolves the final name, type and label of a parameter.
+      * Name priority: //! VAR, then a typed declaration line, then the PARAMETER block id.
+      * 決定參數最終的名稱、類型與標籤。名稱優先順序：//! VAR、型別宣告行、PARAMETER 區塊 id。
+      * @param {object} data - The parameter block data.
+      * @returns {object} The parameter with name, type and label resolved.
+      */
+    function finalizeParameter(data) {
+        const param = { ...data };
+        param.name = param.name || param.id || undefined;
+        param.type = param.type || 'float';
+        if (!param.name) {
+            report('error', 'missing-parameter-name', 'PARAMETER has no name; use //! VAR or a declaration such as "float X;" / PARAMETER 缺少名稱，請使用 //! VAR 或 "float X;" 之類的宣告', blockLocation);
+        }
+        if (param.label === undefined) param.label = param.name;
+        return param;
+    }
+
+    /**
+      * Parses sub-directives within a block (e.g., //! DEFAULT, //! MIN for PARAMETER).
+      * 解析區塊內部的子指令 (例如 PARAMETER 的 //! DEFAULT, //! MIN)。
+      * @param {object} data - The current block's data object to populate.
+      * @param {string} directive - The name of the sub-directive.
+      * @param {string} value - The value of the sub-directive.
+      * @param {object} loc - Location of the directive line, used for diagnostics.
+      */
+    function parseSubDirective(data, directive, value, loc) {
         const key = directive.toLowerCase();
-        switch (key) {
+        switch(key){
             case 'in':
             case 'out':
-                data[key] = value.split(',').map(s => s.trim());
-                break;
+                data[key] = value.split(',').map(s=>s.trim()); break;
             case 'block_size':
-                data.blockSize = value.split(',').map(Number);
-                if (data.blockSize.length === 1) data.blockSize.push(data.blockSize[0]); // Handle single value for block_size
+                data.blockSize = value.split(',').map(v=>parseNumber(directive, v.trim(), loc));
+                if(data.blockSize.length===1) data.blockSize.push(data.blockSize[0]); // Handle single value for block_size
                 break;
             case 'num_threads':
-                data.numThreads = value.split(',').map(Number);
-                while (data.numThreads.length < 3) data.numThreads.push(1); // Ensure 3 components for num_threads
+                data.numThreads = value.split(',').map(v=>parseNumber(directive, v.trim(), loc));
+                while(data.numThreads.length<3) data.numThreads.push(1); // Ensure 3 components for num_threads
                 break;
             case 'default':
+                // Vector parameters take one value per component / 向量參數每個分量一個數值
+                data[key] = value.includes(',')
+                    ? value.split(',').map(v => parseNumber(directive, v.trim(), loc))
+                    : parseNumber(directive, value, loc);
+                break;
             case 'min':
             case 'max':
             case 'step':
-                data[key] = parseFloat(value);
-                break;
+                data[key] = parseNumber(directive, value, loc); break;
             case 'format':
-                data[key] = value.toLowerCase() === 'r16g16b16a16_float' ? 'rgba16float' : value;
+                data[key] = value.toLowerCase()==='r16g16b16a16_float' ? 'rgba16float' : value;
+                break;
+            case 'var':
+                data.name = value; break; // Magpie style: //!VAR names an otherwise unnamed PARAMETER
+            case 'label':
+            case 'desc':
+                data[key] = unquote(value); break;
+            case 'style':
+                data.style = value.toUpperCase();
+                if (data.style !== 'CS' && data.style !== 'PS') {
+                    report('error', 'invalid-style', `//! STYLE expects CS or PS, got "${value}" / //! STYLE 只接受 CS 或 PS，但得到 "${value}"`, loc);
+                }
                 break;
             default:
                 data[key] = value;
@@ -797,7 +1116,6 @@ function peg$parse(input, options) {
     peg$result = peg$startRuleFunction();
 
     const peg$success = (peg$result !== peg$FAILED && peg$currPos === input.length);
-
     function peg$throw() {
         if (peg$result !== peg$FAILED && peg$currPos < input.length) {
             peg$fail(peg$endExpectation());
@@ -811,7 +1129,6 @@ function peg$parse(input, options) {
                 : peg$computeLocation(peg$maxFailPos, peg$maxFailPos)
         );
     }
-
     if (options.peg$library) {
         return /** @type {any} */ ({
             peg$result,
@@ -0,0 +1,218 @@
+import { parse, ParseOptions } from './ShaderParser';
+import { WGFXShaderInfo, TextureInfo, SamplerInfo, ParameterInfo, PassInfo } from '@/types';
+
+/**
+ * Properties that are printed explicitly or only describe parser state, never as generic sub-directives.
+ * 會被明確輸出或僅屬於解析器狀態的屬性，不會以一般子指令輸出。
+ */
+const STRUCTURAL_KEYS = new Set(['id', 'name', 'lines', 'index', 'code', 'conditions', 'type', 'label', 'desc']);
+
+/**
+ * A `var` declaration line, matched the same way as the parser does.
+ * 與解析器相同方式比對的 `var` 宣告行。
+ */
+const VAR_DECLARATION = /var\s+[a-zA-Z0-9_]+\s*:/;
+
+/**
+ * Canonical order of the sub-directives of each block type; anything else follows in insertion order.
+ * 各區塊子指令的標準順序；其餘子指令依原本順序排在後面。
+ */
+const SUB_DIRECTIVE_ORDER: Record<string, string[]> = {
+    PARAMETER: ['default', 'min', 'max', 'step'],
+    TEXTURE: ['width', 'height', 'format'],
+    SAMPLER: ['filter', 'address'],
+    PASS: ['in', 'out', 'blockSize', 'numThreads', 'style'],
+};
+
+/**
+ * Directive names of properties whose name differs from the lower-cased directive.
+ * 屬性名稱與小寫指令名稱不同者的對應。
+ */
+const DIRECTIVE_NAMES: Record<string, string> = {
+    blockSize: 'BLOCK_SIZE',
+    numThreads: 'NUM_THREADS',
+};
+
+/**
+ * Print parsed shader information back into a canonical effect source.
+ * ---
+ * 將解析後的著色器資訊輸出為標準格式的特效原始碼。
+ * 指令一律寫成 `//! NAME value`（大寫、單一空格），區塊依
+ * 元數據、PARAMETER、TEXTURE、SAMPLER、COMMON、PASS 的順序輸出。
+ * 解析器保留的非指令行（宣告、註解）原樣寫回其區塊；區塊外的行接在元數據指令之後。
+ * 對於解析所得的資訊，輸出結果保證 `parse(print(info))` 與 `info` 內容相等。
+ *
+ * @group Printer
+ * @category Functions
+ *
+ * @param shaderInfo - Parsed shader information / 解析後的著色器資訊
+ * @returns Canonical effect source / 標準格式的特效原始碼
+ *
+ * @example
+ * ```ts
+ * const source = print(parse(effectCode));
+ * ```
+ */
+export function print(shaderInfo: WGFXShaderInfo): string {
+    const sections: string[] = [];
+
+    const metadata = printMetadata(shaderInfo);
+    if (metadata) sections.push(metadata);
+
+    shaderInfo.parameters.forEach(p => sections.push(printBlock(p, printParameterBody(p))));
+    shaderInfo.textures.forEach(t => sections.push(printBlock(t, printResourceBody('TEXTURE', t, 'texture_2d<f32>'))));
+    shaderInfo.samplers.forEach(s => sections.push(printBlock(s, printResourceBody('SAMPLER', s, 'sampler'))));
+
+    if (shaderInfo.commonCode) {
+        sections.push(`//! COMMON\n${shaderInfo.commonCode}`);
+    }
+
+    shaderInfo.passes.forEach(p => {
+        const lines = [`//! PASS${formatId(p.id ?? String(p.index))}`];
+        if (p.desc !== undefined) lines.push(`//! DESC ${quote(p.desc)}`);
+        lines.push(...printSubDirectives('PASS', p));
+        if (p.code !== undefined) lines.push(p.code);
+        sections.push(printBlock(p, lines));
+    });
+
+    return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Reformat an effect source into the canonical style produced by {@link print}.
+ * ---
+ * 將特效原始碼重新整理為 {@link print} 所產生的標準格式。
+ * 第一個指令之前的註解（檔頭）、區塊內的宣告與註解，以及區塊外的註解都會原樣保留；COMMON/PASS 以外的空行則不保留。
+ * 使用 `//! INCLUDE` 的檔案無法在不內嵌引用內容的情況下格式化，因此會被拒絕。
+ *
+ * @group Printer
+ * @category Functions
+ *
+ * @param source - Effect source code / 特效原始碼
+ * @param options - Parser options / 解析器選項
+ * @returns Formatted effect source / 格式化後的特效原始碼
+ * @throws {@link SyntaxError} 當原始碼含有錯誤時拋出
+ * @throws {Error} 當原始碼使用 `//! INCLUDE` 時拋出
+ */
+export function format(source: string, options: ParseOptions = {}): string {
+    if (/^\/\/!\s*INCLUDE\b/im.test(source)) {
+        throw new Error('Sources using //! INCLUDE cannot be formatted without inlining them; format each file separately / 使用 //! INCLUDE 的原始碼無法在不內嵌的情況下格式化，請分別格式化各檔案');
+    }
+
+    const shaderInfo = parse(source, { ...options, recover: false });
+
+    // Keep the comment header before the first directive / 保留第一個指令之前的註解檔頭
+    const lines = source.split(/\r?\n/);
+    const firstDirective = lines.findIndex(l => l.startsWith('//!'));
+    const header = lines.slice(0, firstDirective < 0 ? lines.length : firstDirective).join('\n').trim();
+
+    const body = print(shaderInfo);
+    return header ? `${header}\n\n${body}` : body;
+}
+
+/**
+ * Wrap a block in `//! IF` / `//! ENDIF` lines for each of its conditions.
+ * ---
+ * 依區塊的每個條件以 `//! IF` / `//! ENDIF` 包覆區塊。
+ */
+function printBlock(block: { conditions?: string[] }, lines: string[]): string {
+    const conditions = block.conditions ?? [];
+    return [
+        ...conditions.map(c => `//! IF ${c}`),
+        ...lines,
+        ...conditions.map(() => '//! ENDIF')
+    ].join('\n');
+}
+
+/**
+ * Format a block id for the block directive line.
+ * ---
+ * 格式化區塊指令行上的 id。
+ */
+function formatId(id: string | undefined): string {
+    return id ? ` ${id}` : '';
+}
+
+/**
+ * Print the global metadata directives.
+ * ---
+ * 輸出全域元數據指令。
+ */
+function printMetadata(shaderInfo: WGFXShaderInfo): string {
+    const metadata = shaderInfo.metadata;
+    if (!metadata) return '';
+
+    const lines: string[] = [];
+    if (metadata.version !== undefined) lines.push(`//! VERSION ${metadata.version}`);
+    if (metadata.sortName !== undefined) lines.push(`//! SORT_NAME ${metadata.sortName}`);
+    if (metadata.outputWidth !== undefined) lines.push(`//! OUTPUT_WIDTH ${metadata.outputWidth}`);
+    if (metadata.outputHeight !== undefined) lines.push(`//! OUTPUT_HEIGHT ${metadata.outputHeight}`);
+    const use = Object.keys(metadata.use ?? {});
+    if (use.length > 0) lines.push(`//! USE ${use.join(', ')}`);
+    const capability = Object.keys(metadata.capability ?? {});
+    if (capability.length > 0) lines.push(`//! CAPABILITY ${capability.join(', ')}`);
+    lines.push(...(metadata.lines ?? []));
+    return lines.join('\n');
+}
+
+/**
+ * Print a PARAMETER block, ending with its original lines, or with a typed declaration when it has none.
+ * ---
+ * 輸出 PARAMETER 區塊，並以原本的行結尾；沒有保留的行時則以型別宣告結尾。
+ */
+function printParameterBody(param: ParameterInfo): string[] {
+    const lines = [`//! PARAMETER${formatId(param.id)}`];
+    if (param.name !== undefined && param.name !== param.id) lines.push(`//! VAR ${param.name}`);
+    if (param.label !== undefined && param.label !== param.name) lines.push(`//! LABEL ${quote(param.label)}`);
+    lines.push(...printSubDirectives('PARAMETER', param));
+    if (param.lines) lines.push(...param.lines);
+    else if (param.name !== undefined) lines.push(`${param.type || 'float'} ${param.name};`);
+    return lines;
+}
+
+/**
+ * Print a TEXTURE or SAMPLER block followed by its original lines. Resources declared by a `var` line get
+ * their name from that line, the others from the block id; a resource without lines gets a generated `var`.
+ * ---
+ * 輸出 TEXTURE 或 SAMPLER 區塊及其原本的行。以 `var` 宣告的資源由該行決定名稱，其餘則使用區塊 id；
+ * 沒有保留任何行的資源會產生一行 `var` 宣告。
+ */
+function printResourceBody(type: string, resource: TextureInfo | SamplerInfo, wgslType: string): string[] {
+    const declaredByVar = resource.lines
+        ? resource.lines.some(l => VAR_DECLARATION.test(l))
+        : resource.name !== undefined;
+    const lines = [`//! ${type}${declaredByVar ? '' : formatId(resource.id)}`];
+    lines.push(...printSubDirectives(type, resource));
+    if (resource.lines) lines.push(...resource.lines);
+    else if (declaredByVar) lines.push(`var ${resource.name}: ${wgslType};`);
+    return lines;
+}
+
+/**
+ * Print every remaining property of a block as a sub-directive, known ones first.
+ * ---
+ * 將區塊其餘屬性輸出為子指令，已知的子指令優先。
+ */
+function printSubDirectives(type: string, block: TextureInfo | SamplerInfo | ParameterInfo | PassInfo): string[] {
+    const data = block as Record<string, any>;
+    const order = SUB_DIRECTIVE_ORDER[type] ?? [];
+    const keys = [
+        ...order.filter(k => k in data),
+        ...Object.keys(data).filter(k => !order.includes(k))
+    ].filter(k => !STRUCTURAL_KEYS.has(k) && data[k] !== undefined);
+
+    return keys.map(key => {
+        const directive = DIRECTIVE_NAMES[key] ?? key.toUpperCase();
+        const value = data[key];
+        return `//! ${directive} ${Array.isArray(value) ? value.join(', ') : String(value)}`;
+    });
+}
+
+/**
+ * Quote a free-text value so that surrounding quotes survive re-parsing.
+ * ---
+ * 為自由文字加上引號，確保重新解析後內容不變。
+ */
+function quote(value: string): string {
+    return `"${value}"`;
+}
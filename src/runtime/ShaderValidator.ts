@@ -0,0 +1,222 @@
+import { WGFXShaderInfo, PassInfo, ValidationIssue, EffectSourceMap, SourceLine } from '@/types';
+import { TextureFormats } from '@/utils/TextureFormats';
+
+/**
+ * Semantic validator for parsed shader information.
+ * ---
+ * 解析後著色器資訊的語意驗證器。
+ * 在建立 GPU 資源之前檢查資源引用與通道結構，
+ * 讓錯誤在編譯階段就被回報，而不是在第一幀才以綁定錯誤的形式出現。
+ *
+ * @group Core
+ * @category Validators
+ */
+export class ShaderValidator {
+    constructor() {
+    }
+
+    /**
+     * Validate the shader info and return every issue found.
+     * ---
+     * 驗證著色器資訊並回傳所有發現的問題。
+     *
+     * @group Validation
+     * @param shaderInfo - The parsed shader metadata / 解析後的著色器元數據
+     * @param externalTextures - Names of textures supplied by the host (e.g. INPUT, OUTPUT) / 由主機端提供的紋理名稱
+     * @param options - Device support; passes reading and writing a texture are only checked when `readWriteFormats` is given.
+     *   `declared` is the effect before `//! IF` was resolved, used for the pass index and resource name checks;
+     *   `sourceMap` is its parser source map, used to locate nameless resources /
+     *   裝置支援資訊；提供 `readWriteFormats` 時才檢查同時讀寫紋理的通道。`declared` 為解析 `//! IF` 前的特效，用於通道索引與資源名稱檢查；
+     *   `sourceMap` 為其解析器行對應表，用於定位沒有名稱的資源
+     * @returns List of validation issues, empty when the effect is valid / 驗證問題列表，有效時為空
+     */
+    public validate(
+        shaderInfo: WGFXShaderInfo,
+        externalTextures: string[] = [],
+        options: { readWriteFormats?: Set<string>; declared?: WGFXShaderInfo; sourceMap?: EffectSourceMap } = {}
+    ): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const declared = options.declared ?? shaderInfo;
+
+        // 1. Resource names: every TEXTURE / SAMPLER block declares one, none repeats / 資源名稱：每個 TEXTURE / SAMPLER 區塊都需宣告，且不可重複
+        this._checkNames(declared.textures, 'TEXTURE', options.sourceMap?.textures, issues);
+        this._checkNames(declared.samplers, 'SAMPLER', options.sourceMap?.samplers, issues);
+        this._checkDuplicates(shaderInfo.textures.map(t => t.name), 'texture', issues);
+        this._checkDuplicates(shaderInfo.samplers.map(s => s.name), 'sampler', issues);
+        this._checkDuplicates(shaderInfo.parameters.map(p => p.name), 'parameter', issues);
+
+        // 2. Pass index uniqueness among active passes; contiguity as declared, so //! IF may drop a pass
+        // 2. 啟用通道的索引唯一性；連續性以宣告為準，讓 //! IF 可移除通道
+        this._checkPassIndices(shaderInfo.passes, declared.passes, issues);
+
+        // 3. IN / OUT references / IN 與 OUT 的紋理引用
+        const declaredTextures = new Set<string>([...externalTextures, ...shaderInfo.textures.map(t => t.name)]);
+        shaderInfo.passes.forEach(pass => {
+            const inputs = pass.in ?? [];
+            const outputs = pass.out ?? [];
+
+            [...inputs, ...outputs].forEach(name => {
+                if (!declaredTextures.has(name)) {
+                    issues.push({
+                        severity: 'error',
+                        code: 'unknown-texture',
+                        message: `PASS ${pass.index} references undeclared texture "${name}" / PASS ${pass.index} 引用了未宣告的紋理 "${name}"`,
+                        pass: pass.index,
+                        resource: name
+                    });
+                }
+            });
+
+            if (pass.style === 'PS' && outputs.length > 1) {
+                issues.push({
+                    severity: 'error',
+                    code: 'ps-multiple-outputs',
+                    message: `PASS ${pass.index} uses STYLE PS but writes ${outputs.length} textures; PS passes have a single OUT / PASS ${pass.index} 為 PS 風格但寫入 ${outputs.length} 個紋理；PS 通道只能有一個 OUT`,
+                    pass: pass.index
+                });
+            }
+
+            if (outputs.length === 0) {
+                issues.push({
+                    severity: 'error',
+                    code: 'missing-output',
+                    message: `PASS ${pass.index} has no //! OUT / PASS ${pass.index} 缺少 //! OUT`,
+                    pass: pass.index
+                });
+            }
+        });
+
+        // 4. Some pass must produce OUTPUT; execution order comes from the pass graph
+        // 4. 必須有通道寫入 OUTPUT；執行順序由通道依賴圖決定
+        if (shaderInfo.passes.length > 0 && !shaderInfo.passes.some(p => (p.out ?? []).includes('OUTPUT'))) {
+            issues.push({
+                severity: 'error',
+                code: 'output-not-written',
+                message: `No PASS writes OUTPUT / 沒有任何 PASS 寫入 OUTPUT`,
+                resource: 'OUTPUT'
+            });
+        }
+
+        // 5. Texture formats must be known, and storable when written / 紋理格式必須受支援，且被寫入時必須可作為儲存紋理
+        const writtenBy = new Map<string, number>();
+        shaderInfo.passes.forEach(pass => (pass.out ?? []).forEach(name => {
+            if (!writtenBy.has(name)) writtenBy.set(name, pass.index);
+        }));
+        shaderInfo.textures.forEach(tex => {
+            if (tex.format === undefined) return;
+            const info = TextureFormats.resolve(tex.format);
+            if (!info) {
+                issues.push({
+                    severity: 'error',
+                    code: 'unknown-format',
+                    message: `Texture "${tex.name}" uses unsupported format "${tex.format}" / 紋理 "${tex.name}" 使用了不支援的格式 "${tex.format}"`,
+                    resource: tex.name
+                });
+            } else if (!info.storage && writtenBy.has(tex.name)) {
+                const pass = writtenBy.get(tex.name)!;
+                issues.push({
+                    severity: 'error',
+                    code: 'format-not-storable',
+                    message: `PASS ${pass} writes "${tex.name}", but format ${info.format} cannot be used as a storage texture / PASS ${pass} 寫入 "${tex.name}"，但格式 ${info.format} 不能作為儲存紋理`,
+                    pass,
+                    resource: tex.name
+                });
+            }
+        });
+
+        // 6. Textures both read and written by a pass need read_write storage / 同一通道讀寫的紋理需要 read_write 儲存存取
+        if (options.readWriteFormats) {
+            shaderInfo.passes.forEach(pass => {
+                (pass.out ?? []).filter(name => (pass.in ?? []).includes(name)).forEach(name => {
+                    const declared = shaderInfo.textures.find(t => t.name === name);
+                    const format = TextureFormats.resolve(declared?.format)?.format;
+                    if (format && !options.readWriteFormats!.has(format)) {
+                        issues.push({
+                            severity: 'error',
+                            code: 'read-write-unsupported',
+                            message: `PASS ${pass.index} reads and writes "${name}", but the device does not support read_write storage textures of format ${format} / PASS ${pass.index} 同時讀寫 "${name}"，但裝置不支援 ${format} 格式的 read_write 儲存紋理`,
+                            pass: pass.index,
+                            resource: name
+                        });
+                    }
+                });
+            });
+        }
+
+        return issues;
+    }
+
+    /**
+     * Report TEXTURE / SAMPLER blocks without a `var` declaration, which would yield nameless resources.
+     * ---
+     * 回報沒有 `var` 宣告的 TEXTURE / SAMPLER 區塊，這類區塊會產生沒有名稱的資源。
+     */
+    private _checkNames(resources: { name?: string }[], block: string, origins: SourceLine[] | undefined, issues: ValidationIssue[]): void {
+        resources.forEach((resource, i) => {
+            if (resource.name) return;
+            const origin = origins?.[i];
+            const file = origin?.source !== undefined ? `${origin.source} ` : '';
+            issues.push({
+                severity: 'error',
+                code: 'missing-name',
+                message: origin
+                    ? `//! ${block} block at ${file}line ${origin.line} has no var declaration naming it / ${file}第 ${origin.line} 行的 //! ${block} 區塊缺少命名的 var 宣告`
+                    : `A //! ${block} block has no var declaration naming it / //! ${block} 區塊缺少命名的 var 宣告`
+            });
+        });
+    }
+
+    /**
+     * Report duplicate indices among the active passes, and gaps among the declared ones.
+     * ---
+     * 回報啟用通道中重複的索引，以及宣告通道中不連續的索引。
+     * 位於 `//! IF` / `//! ELSE` 不同分支的同一索引不視為重複。
+     */
+    private _checkPassIndices(passes: PassInfo[], declaredPasses: PassInfo[], issues: ValidationIssue[]): void {
+        const seenIndices = new Set<number>();
+        passes.forEach(pass => {
+            if (seenIndices.has(pass.index)) {
+                issues.push({
+                    severity: 'error',
+                    code: 'duplicate-pass-index',
+                    message: `PASS ${pass.index} is declared more than once / PASS ${pass.index} 重複宣告`,
+                    pass: pass.index
+                });
+            }
+            seenIndices.add(pass.index);
+        });
+
+        const sortedIndices = [...new Set(declaredPasses.map(p => p.index))].sort((a, b) => a - b);
+        const isContiguous = sortedIndices.every((index, i) => index === i + 1);
+        if (!isContiguous) {
+            issues.push({
+                severity: 'error',
+                code: 'non-contiguous-passes',
+                message: `PASS indices must be contiguous starting at 1, got ${sortedIndices.join(', ')} / PASS 索引必須從 1 開始連續，實際為 ${sortedIndices.join(', ')}`
+            });
+        }
+    }
+
+    /**
+     * Report names that appear more than once.
+     * ---
+     * 回報出現多次的名稱。
+     */
+    private _checkDuplicates(names: string[], kind: string, issues: ValidationIssue[]): void {
+        const seen = new Set<string>();
+        const reported = new Set<string>();
+        names.forEach(name => {
+            if (name === undefined) return;
+            if (seen.has(name) && !reported.has(name)) {
+                issues.push({
+                    severity: 'error',
+                    code: `duplicate-${kind}`,
+                    message: `Duplicate ${kind} name "${name}" / 重複的 ${kind} 名稱 "${name}"`,
+                    resource: name
+                });
+                reported.add(name);
+            }
+            seen.add(name);
+        });
+    }
+}
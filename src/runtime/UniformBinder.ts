@@ -1,4 +1,5 @@
 import { ResourceManager } from './ResourceManager';
+import { UniformValue } from './UniformLayout';
 import { Logger } from '@/utils/Logger';
 
 /**
@@ -33,52 +34,34 @@ export class UniformBinder {
      * Update a specific uniform value in the GPU buffer.
      * ---
      * 更新 GPU 緩衝區中特定 Uniform 的數值。
-     * 自動處理單一數值或陣列型數據的封裝與傳輸。
+     * 數值依參數型別編碼（f32、i32、u32，bool 以 u32 儲存），分量數必須與型別一致。
      *
      * @group Update
      * @param name - The name of the uniform defined in shader / 著色器中定義的 Uniform 名稱
-     * @param value - The new value(s) to upload / 要上傳的新數值（單一數值或數值陣列）
+     * @param value - The new value(s) to upload / 要上傳的新數值（純量、布林值或每個分量一個數值）
+     * @throws {Error} 當分量數不符或數值無效時拋出錯誤
      *
      * @example
      * ```ts
      * binder.updateUniform('u_Brightness', 0.5);
-     * binder.updateUniform('u_Color', [1.0, 0.0, 0.0]);
+     * binder.updateUniform('u_Color', [1.0, 0.0, 0.0]); // float3
+     * binder.updateUniform('u_Enabled', true);          // bool
      * ```
      */
-    public updateUniform(name: string, value: number | number[]): void {
+    public updateUniform(name: string, value: UniformValue): void {
         // Retrieve uniform metadata from manager / 從管理員獲取 Uniform 元數據
         const metadata = this.resourceManager.getUniform(name);
+        const layout = this.resourceManager.uniformLayout;
 
-        if (!metadata) {
+        if (!metadata || !layout) {
             Logger.warn(`Uniform "${name}" not found`);
             return;
         }
 
-        const { buffer, offset, size } = metadata;
-        let data: Float32Array | Int32Array;
+        // Typed encoding with length checks / 依型別編碼並檢查長度
+        const data = layout.encode(name, value);
 
-        // Convert value to TypedArray (Currently assuming Float32)
-        // 將數值轉換為類型化陣列（目前預設採 Float32）
-        // Note: Ideally this should be strictly typed based on metadata
-        // 註：理想情況下應根據元數據進行嚴格類型檢查
-        if (Array.isArray(value)) {
-            data = new Float32Array(value);
-        } else {
-            data = new Float32Array([value]);
-        }
-
-        // Optimized GPU buffer write / 優化的 GPU 緩衝區寫入操作
-        // We use the queue to schedule the data transfer
-        // 我們使用隊列（Queue）來排程數據傳輸
-        this.device.queue.writeBuffer(
-            buffer,            // Target GPU buffer / 目標 GPU 緩衝區
-            offset,            // Byte offset in buffer / 緩衝區中的位元組偏移量
-            data.buffer,       // Source array buffer / 來源陣列緩衝區
-            data.byteOffset,   // Offset in source data / 來源數據的起始偏移
-            data.byteLength    // Total bytes to copy / 要拷貝的總位元組長度
-        );
-
-        // Debugging log for sensitive updates / 針對敏感更新的偵錯記錄
-        // Logger.debug(`Uniform updated: ${name} at offset ${offset}`);
+        // Queue the transfer at the field offset / 排程寫入欄位偏移量
+        this.device.queue.writeBuffer(metadata.buffer, metadata.offset, data);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,175 @@
+import { ParameterInfo } from '@/types';
+
+/**
+ * Value accepted for a parameter: a number for scalars, one number per component for vectors.
+ * ---
+ * 參數可接受的數值：純量為單一數值，向量為每個分量一個數值。
+ *
+ * @category Types
+ */
+export type UniformValue = number | boolean | number[];
+
+/**
+ * Placement of one parameter inside the `Uniforms` struct.
+ * ---
+ * 單一參數在 `Uniforms` 結構體中的位置。
+ *
+ * @category Interfaces
+ */
+export interface UniformField {
+    /** Parameter name, also the struct member name / 參數名稱，亦為結構體成員名稱 */
+    name: string;
+    /** Parameter type as declared in the effect, e.g. 'float3' / 特效中宣告的參數型別 */
+    type: string;
+    /** WGSL member type, e.g. 'vec3<f32>'; bool is stored as u32 / WGSL 成員型別；bool 以 u32 儲存 */
+    wgslType: string;
+    /** Scalar type of each component / 各分量的純量型別 */
+    scalar: 'f32' | 'i32' | 'u32';
+    /** Number of components (1 to 4) / 分量數 (1 到 4) */
+    components: number;
+    /** Byte offset in the buffer / 在緩衝區中的位元組偏移量 */
+    offset: number;
+    /** Byte size / 位元組大小 */
+    size: number;
+    /** Required alignment in bytes / 所需的位元組對齊 */
+    align: number;
+}
+
+/**
+ * Scalar types of the supported parameter types, keyed by their name without the component count.
+ * 支援的參數型別所對應的純量型別，以不含分量數的名稱為鍵。
+ */
+const SCALAR_TYPES: Record<string, 'f32' | 'i32' | 'u32'> = { float: 'f32', int: 'i32', uint: 'u32', bool: 'u32' };
+
+/**
+ * Memory layout of the parameters in the WGSL uniform address space.
+ * ---
+ * 參數在 WGSL uniform 位址空間中的記憶體佈局。
+ * 產生器以此輸出 `Uniforms` 結構體，資源管理員以此配置緩衝區，兩者的偏移量因此一致。
+ * 遵循 WGSL 的對齊規則：純量 4 位元組、vec2 8 位元組、vec3 與 vec4 16 位元組；
+ * bool 不可存在於 uniform 中，因此以 u32 (0 或 1) 儲存。
+ *
+ * @group Core
+ * @category Generators
+ *
+ * @example
+ * ```ts
+ * const layout = new UniformLayout(shaderInfo.parameters);
+ * layout.toStruct();                        // "struct Uniforms { ... };"
+ * layout.encode('Tint', [1.0, 0.5, 0.0]);   // 12 bytes at layout.getField('Tint').offset
+ * ```
+ */
+export class UniformLayout {
+    /** @zh 依宣告順序排列的欄位 */
+    public fields: UniformField[];
+    /** @zh 結構體的位元組大小（已對齊至 16 位元組） */
+    public size: number;
+
+    /**
+     * Compute the layout of a parameter list.
+     * ---
+     * 計算參數列表的佈局。
+     *
+     * @param parameters - Parameters in declaration order / 依宣告順序排列的參數
+     * @throws {Error} 當參數型別不受支援時拋出錯誤
+     */
+    constructor(parameters: ParameterInfo[]) {
+        this.fields = [];
+        let offset = 0;
+        let structAlign = 4;
+
+        parameters.forEach(param => {
+            const type = param.type || 'float';
+            const match = type.match(/^(float|int|uint|bool)([234])?$/);
+            if (!match || (match[1] === 'bool' && match[2])) {
+                throw new Error(`Parameter "${param.name}" has unsupported type "${type}" / 參數型別不受支援`);
+            }
+
+            const scalar = SCALAR_TYPES[match[1]];
+            const components = match[2] ? parseInt(match[2], 10) : 1;
+            const align = components === 1 ? 4 : (components === 2 ? 8 : 16);
+            const size = 4 * components;
+
+            offset = UniformLayout._roundUp(offset, align);
+            this.fields.push({
+                name: param.name, type, scalar, components, offset, size, align,
+                wgslType: components === 1 ? scalar : `vec${components}<${scalar}>`
+            });
+            offset += size;
+            structAlign = Math.max(structAlign, align);
+        });
+
+        // Struct size rounds up to its alignment; buffers are kept 16-byte multiples
+        // 結構體大小向上對齊；緩衝區大小保持為 16 位元組的倍數
+        this.size = Math.max(UniformLayout._roundUp(UniformLayout._roundUp(offset, structAlign), 16), 16);
+    }
+
+    /**
+     * Get the field of a parameter.
+     * ---
+     * 獲取參數的欄位資訊。
+     *
+     * @group Query
+     */
+    public getField(name: string): UniformField | undefined {
+        return this.fields.find(f => f.name === name);
+    }
+
+    /**
+     * Emit the WGSL `Uniforms` struct matching this layout.
+     * ---
+     * 輸出與此佈局一致的 WGSL `Uniforms` 結構體。
+     *
+     * @group Generation
+     */
+    public toStruct(): string {
+        if (this.fields.length === 0) return '';
+        const members = this.fields.map(f => `    ${f.name}: ${f.wgslType},\n`).join('');
+        return `// Uniform Parameters / Uniform 參數\nstruct Uniforms {\n${members}};\n`;
+    }
+
+    /**
+     * Encode a value with the scalar type of its field.
+     * ---
+     * 以欄位的純量型別編碼數值。
+     *
+     * @group Update
+     * @param name - Parameter name / 參數名稱
+     * @param value - Scalar, boolean or one number per component / 純量、布林值或每個分量一個數值
+     * @returns Bytes to write at the field offset / 要寫入欄位偏移量的位元組
+     * @throws {Error} 當參數不存在、分量數不符或數值無效時拋出錯誤
+     */
+    public encode(name: string, value: UniformValue): ArrayBuffer {
+        const field = this.getField(name);
+        if (!field) {
+            throw new Error(`Uniform "${name}" not found / 找不到 Uniform`);
+        }
+
+        const values = (Array.isArray(value) ? value : [value]).map(v => typeof v === 'boolean' ? Number(v) : v);
+        if (values.length !== field.components) {
+            throw new Error(`Uniform "${name}" (${field.type}) expects ${field.components} value(s), got ${values.length} / 數值數量不符`);
+        }
+        if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+            throw new Error(`Uniform "${name}" expects finite numbers / 需要有限數值`);
+        }
+        if (field.scalar === 'u32' && values.some(v => v < 0)) {
+            throw new Error(`Uniform "${name}" (${field.type}) cannot be negative / 不可為負值`);
+        }
+
+        if (field.type === 'bool') return new Uint32Array([values[0] !== 0 ? 1 : 0]).buffer;
+        switch (field.scalar) {
+            case 'f32': return new Float32Array(values).buffer;
+            case 'i32': return new Int32Array(values.map(Math.trunc)).buffer;
+            case 'u32': return new Uint32Array(values.map(Math.trunc)).buffer;
+        }
+    }
+
+    /**
+     * Round a value up to a multiple of an alignment.
+     * ---
+     * 將數值向上對齊至指定倍數。
+     */
+    private static _roundUp(value: number, align: number): number {
+        return Math.ceil(value / align) * align;
+    }
+}
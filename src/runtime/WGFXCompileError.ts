@@ -0,0 +1,94 @@
+/// <reference types="@webgpu/types" />
+import { MappedSourceLocation } from '@/types';
+
+/**
+ * A WGSL compilation or pipeline validation message of one pass.
+ * ---
+ * 單一通道的 WGSL 編譯或管線驗證訊息。
+ *
+ * @category Interfaces
+ */
+export interface PassCompileMessage {
+    /** Message severity / 訊息嚴重程度 */
+    type: GPUCompilationMessageType;
+    /** Message reported by the WebGPU implementation / WebGPU 實作回報的訊息 */
+    message: string;
+    /** 1-based line in the generated WGSL, 0 when unknown / 產生之 WGSL 中的行號，未知時為 0 */
+    lineNum: number;
+    /** 1-based column in the generated WGSL, 0 when unknown / 產生之 WGSL 中的欄號，未知時為 0 */
+    linePos: number;
+    /** Location in the effect source, when the line comes from it / 特效原始碼中的位置（若該行來自原始碼） */
+    location?: MappedSourceLocation;
+}
+
+/**
+ * Compilation result of a pass that failed.
+ * ---
+ * 編譯失敗之通道的結果。
+ *
+ * @category Interfaces
+ */
+export interface PassCompileReport {
+    /** Index of the pass / 通道索引 */
+    passIndex: number;
+    /** Value of the pass //! DESC, if any / 通道的 //! DESC（若有） */
+    desc?: string;
+    /** Every message of the pass, including warnings / 通道的所有訊息（包含警告） */
+    messages: PassCompileMessage[];
+}
+
+/**
+ * Error thrown when one or more passes fail to compile into GPU pipelines.
+ * ---
+ * 當一個或多個通道無法編譯為 GPU 管線時拋出的錯誤。
+ * 依通道列出所有訊息，並附上對應回特效原始碼的位置。
+ *
+ * @group Core
+ * @category Exceptions
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await WGFX.create({ device, effectCode, width, height });
+ * } catch (e) {
+ *   if (e instanceof WGFXCompileError) {
+ *     e.passes.forEach(p => p.messages.forEach(m => console.error(p.passIndex, m.location?.line, m.message)));
+ *   }
+ * }
+ * ```
+ */
+export class WGFXCompileError extends Error {
+    /** @zh 編譯失敗的通道及其訊息 */
+    public passes: PassCompileReport[];
+
+    /**
+     * @param passes - Failed passes with their messages / 編譯失敗的通道及其訊息
+     */
+    constructor(passes: PassCompileReport[]) {
+        super(WGFXCompileError._formatMessage(passes));
+        this.name = 'WGFXCompileError';
+        this.passes = passes;
+
+        // Ensure the prototype is correctly set / 確保原型鏈正確（針對 TS 繼承 Error 的處理）
+        Object.setPrototypeOf(this, WGFXCompileError.prototype);
+    }
+
+    /**
+     * Build a readable summary listing every error of every failed pass.
+     * ---
+     * 建立列出每個失敗通道所有錯誤的摘要。
+     */
+    private static _formatMessage(passes: PassCompileReport[]): string {
+        const lines = passes.flatMap(pass => {
+            const title = `PASS ${pass.passIndex}${pass.desc ? ` (${pass.desc})` : ''}:`;
+            const errors = pass.messages.filter(m => m.type === 'error').map(m => {
+                const where = m.location
+                    ? `${m.location.source ?? 'effect'}:${m.location.line}:${m.location.column}`
+                    : (m.lineNum > 0 ? `generated ${m.lineNum}:${m.linePos}` : 'pipeline');
+                return `  ${where} ${m.message}`;
+            });
+            return [title, ...errors];
+        });
+        return `Failed to compile ${passes.length} pass(es):\n${lines.join('\n')}`;
+    }
+}
@@ -4,8 +4,25 @@ import { ResourceManager } from './ResourceManager';
 import { PipelineManager } from './PipelineManager';
 import { WGSLCodeGenerator } from './WGSLCodeGenerator';
 import { UniformBinder } from './UniformBinder';
-import { WGFXShaderInfo } from '@/types';
+import { UniformValue } from './UniformLayout';
+import { ShaderValidator } from './ShaderValidator';
+import { IncludeLoader } from './IncludeLoader';
+import { PassGraph } from './PassGraph';
+import { PassProfiler, PassTiming, FrameProfile } from './PassProfiler';
+import { PixelReader, PixelArrays, ReadPixelsOptions } from './PixelReader';
+import { WGFXShaderInfo, ShaderDiagnostic, ValidationIssue, EffectMetadata, IncludeResolver } from '@/types';
 import { Logger } from '@/utils/Logger';
+import { TextureFormats } from '@/utils/TextureFormats';
+import { ExpressionEvaluator } from '@/utils/ExpressionEvaluator';
+
+/**
+ * Device features required by each //! CAPABILITY flag.
+ * ---
+ * 各個 //! CAPABILITY 旗標所需的裝置功能。
+ */
+const CAPABILITY_FEATURES: Record<string, GPUFeatureName> = {
+    FP16: 'shader-f16',
+};
 
 /**
  * Core runtime for WGFX, managing resources, pipelines, and execution.
@@ -27,10 +44,30 @@ export class WGFXRuntime {
     public wgslCodeGenerator: WGSLCodeGenerator;
     /** @zh Uniform 更新繫結器：處理參數同步 */
     public uniformBinder: UniformBinder;
+    /** @zh 語意驗證器：在建立資源前檢查特效結構 */
+    public shaderValidator: ShaderValidator;
     /** @zh 目前載入的特效元數據資訊，未編譯前為 null */
     public shaderInfo: WGFXShaderInfo | null;
     /** @zh 生成的WGSL模組，用於除錯顯示 */
     public generatedModules: { wgslCode: string; passIndex: number; resources: any }[] | null;
+    /** @zh 最近一次編譯時解析器回報的診斷訊息 */
+    public diagnostics: ShaderDiagnostic[];
+    /** @zh 最近一次編譯時語意驗證回報的問題 */
+    public validationIssues: ValidationIssue[];
+    /** @zh 特效宣告但目前裝置不支援的 CAPABILITY 旗標 */
+    public missingCapabilities: string[];
+    /** @zh 通道的資源依賴圖與執行順序，未編譯前為 null */
+    public passGraph: PassGraph | null;
+    /** @zh 通道計時器，僅在啟用分析模式時存在 */
+    public profiler: PassProfiler | null;
+    /** @zh 解析 `//! IF` 前的著色器資訊，用於在尺寸改變時重新選取分支 */
+    private parsedInfo: WGFXShaderInfo | null;
+    /** @zh 最近一次編譯的原始碼與選項，用於重新編譯 */
+    private compileSource: { effectCode: string; options: { includeResolver?: IncludeResolver; effectPath?: string } } | null;
+    /** @zh 已設定的參數數值，重新編譯後重新套用 */
+    private uniformValues: Map<string, UniformValue>;
+    /** @zh 是否已提示 encodeFrame() 不在分析範圍內 */
+    private encodeProfilingLogged: boolean;
 
     /**
      * Initialize the WGFX runtime environment.
@@ -51,8 +88,50 @@ export class WGFXRuntime {
         this.pipelineManager = new PipelineManager(this.device, this.resourceManager);
         this.wgslCodeGenerator = new WGSLCodeGenerator();
         this.uniformBinder = new UniformBinder(this.device, this.resourceManager);
+        this.shaderValidator = new ShaderValidator();
         this.shaderInfo = null;
         this.generatedModules = null;
+        this.diagnostics = [];
+        this.validationIssues = [];
+        this.missingCapabilities = [];
+        this.passGraph = null;
+        this.profiler = null;
+        this.parsedInfo = null;
+        this.compileSource = null;
+        this.uniformValues = new Map();
+        this.encodeProfilingLogged = false;
+    }
+
+    /**
+     * Enable or disable per-pass profiling.
+     * ---
+     * 啟用或停用各通道的效能分析。
+     * 裝置以 `requiredFeatures: ['timestamp-query']` 建立時使用 GPU 時間戳；
+     * 否則 {@link WGFXRuntime.executeFrame} 會逐一提交通道並在 CPU 端量測，這會讓每幀變慢。
+     * 僅 {@link WGFXRuntime.executeFrame} 會被分析；以 {@link WGFXRuntime.encodeFrame} 編碼的通道不計時。
+     *
+     * @group Profiling
+     * @param enabled - Whether to profile each frame / 是否分析每一幀
+     */
+    public setProfiling(enabled: boolean): void {
+        if (enabled && !this.profiler) {
+            this.profiler = new PassProfiler(this.device);
+        } else if (!enabled && this.profiler) {
+            this.profiler.destroy();
+            this.profiler = null;
+        }
+    }
+
+    /**
+     * Get the latest frame profile. GPU timings arrive a few frames late.
+     * ---
+     * 獲取最近一次的幀計時結果。GPU 計時需非同步讀回，會延遲數幀。
+     *
+     * @group Profiling
+     * @returns The latest profile, or null when profiling is off or nothing was measured yet / 最近的計時結果；未啟用或尚無結果時為 null
+     */
+    public getProfile(): FrameProfile | null {
+        return this.profiler?.lastProfile ?? null;
     }
 
     /**
@@ -63,20 +142,61 @@ export class WGFXRuntime {
      * @group Lifecycle
      * @param effectCode - The source code of the effect / 特效原始碼
      * @param externalResources - Optional external resource definitions / 選用的外部資源定義
+     * @param options - Optional compile settings: the `//! INCLUDE` resolver and the effect's path or URL, which relative includes resolve against /
+     *   選用的編譯設定：`//! INCLUDE` 解析器，以及相對 include 路徑所依據的特效檔案路徑或網址
      * @returns A promise that resolves when compilation is successful
      * @throws {Error} 當語法解析、代碼產生或管線編譯失敗時拋出異常
+     * @throws {@link WGFXCompileError} 當管線編譯失敗時拋出，包含各通道的訊息與原始碼位置
      */
-    public async compile(effectCode: string, externalResources: any = {}): Promise<void> {
+    public async compile(
+        effectCode: string,
+        externalResources: any = {},
+        options: { includeResolver?: IncludeResolver; effectPath?: string } = {}
+    ): Promise<void> {
         Logger.debug("WGFXRuntime: Starting effect compilation.");
 
         try {
+            // Preload //! INCLUDE files, the parser itself is synchronous / 預先載入 include 檔案，解析器本身為同步
+            const includeLoader = new IncludeLoader(options.includeResolver ?? IncludeLoader.createDefaultResolver());
+            const resolveInclude = await includeLoader.load(effectCode, options.effectPath);
+
             // 1. Parse source code into metadata / 步驟 1：將原始碼解析為元數據
-            const shaderInfo = parse(effectCode);
-            this.shaderInfo = shaderInfo;
+            // Collect every diagnostic so authors can fix them in one go / 收集所有診斷訊息，讓作者能一次修正
+            const { shaderInfo: parsedInfo, diagnostics, sourceMap } = parse(effectCode, { recover: true, resolveInclude, grammarSource: options.effectPath });
+            this.diagnostics = diagnostics;
+            this.reportDiagnostics(diagnostics);
+            // Uniform values only carry over when the same effect is compiled again / 僅在重新編譯相同特效時保留參數數值
+            if (this.compileSource?.effectCode !== effectCode) this.uniformValues.clear();
+            this.parsedInfo = parsedInfo;
+            this.compileSource = { effectCode, options };
             Logger.debug("WGFXRuntime: ShaderInfo parsed");
 
+            // Resolve //! IF conditions against defines, features and metadata / 依巨集、裝置功能與元數據解析條件編譯
+            const conditionContext = this.buildConditionContext(parsedInfo.metadata, externalResources.defines);
+            const shaderInfo = this.wgslCodeGenerator.resolveConditionals(parsedInfo, conditionContext);
+            this.shaderInfo = shaderInfo;
+
+            // Size OUTPUT before creating resources / 建立資源前決定 OUTPUT 尺寸
+            externalResources = WGFXRuntime.resolveOutputSize(shaderInfo, externalResources);
+
+            // Validate resource references and pass structure / 驗證資源引用與通道結構
+            const externalTextures = Object.keys(externalResources.textures ?? {});
+            const readWriteFormats = TextureFormats.readWriteFormats(this.device);
+            const passGraph = new PassGraph(shaderInfo, externalTextures);
+            this.passGraph = passGraph;
+            const validationIssues = [
+                ...this.shaderValidator.validate(shaderInfo, externalTextures, { readWriteFormats, declared: parsedInfo, sourceMap }),
+                ...passGraph.issues
+            ];
+            this.validationIssues = validationIssues;
+            this.reportValidationIssues(validationIssues);
+            Logger.debug("WGFXRuntime: ShaderInfo validated");
+
+            // Check declared capabilities against the device / 檢查宣告的能力是否受裝置支援
+            this.missingCapabilities = this.checkCapabilities(shaderInfo.metadata);
+
             // 2. Generate optimized WGSL modules / 步驟 2：產生優化後的 WGSL 模組
-            const generatedModules = this.wgslCodeGenerator.generate(shaderInfo);
+            const generatedModules = this.wgslCodeGenerator.generate(shaderInfo, sourceMap, { readWriteFormats });
             this.generatedModules = generatedModules;
 
             // 3. Prepare GPU textures and buffers / 步驟 3：準備 GPU 紋理與緩衝區
@@ -94,6 +214,226 @@ export class WGFXRuntime {
         }
     }
 
+    /**
+     * Reallocate size-dependent textures for new external resources without recompiling.
+     * ---
+     * 依新的外部資源（如新的 INPUT_WIDTH/INPUT_HEIGHT）重新配置與尺寸相關的紋理，不重新編譯。
+     * 管線與 Uniform 數值維持不變。若新的巨集定義會改變 `//! IF` 選取的通道或程式碼，
+     * 已編譯的管線不再適用，此時拋出錯誤，需改用 {@link WGFXRuntime.recompile}。
+     *
+     * @group Lifecycle
+     * @param externalResources - External resource definitions with the new sizes / 含新尺寸的外部資源定義
+     * @returns Names of the reallocated textures / 重新配置的紋理名稱
+     * @throws {Error} 如果特效尚未編譯，或 `//! IF` 的選取結果改變時拋出錯誤
+     */
+    public resize(externalResources: any): string[] {
+        if (!this.shaderInfo) {
+            throw new Error("Effect not compiled. Call compile() first.");
+        }
+        if (this.selectionChanged(externalResources)) {
+            throw new Error("The //! IF selection changes with the new defines, call recompile() instead of resize().");
+        }
+        return this.resourceManager.resize(this.shaderInfo, WGFXRuntime.resolveOutputSize(this.shaderInfo, externalResources));
+    }
+
+    /**
+     * Whether new external resources select other passes or code through `//! IF` than the compiled ones.
+     * ---
+     * 判斷新的外部資源是否會讓 `//! IF` 選取與目前編譯結果不同的通道或程式碼。
+     *
+     * @group Query
+     * @param externalResources - External resource definitions with the new defines / 含新巨集定義的外部資源定義
+     * @throws {Error} 如果特效尚未編譯則拋出錯誤
+     */
+    public selectionChanged(externalResources: any): boolean {
+        if (!this.shaderInfo || !this.parsedInfo) {
+            throw new Error("Effect not compiled. Call compile() first.");
+        }
+        const context = this.buildConditionContext(this.parsedInfo.metadata, externalResources.defines);
+        const selected = this.wgslCodeGenerator.resolveConditionals(this.parsedInfo, context);
+        return WGFXRuntime.selectionKey(selected) !== WGFXRuntime.selectionKey(this.shaderInfo);
+    }
+
+    /**
+     * Compile the current effect again for new external resources, keeping the uniform values.
+     * ---
+     * 以新的外部資源重新編譯目前的特效，並保留已設定的參數數值。
+     * 原有的紋理、緩衝區與管線會先釋放；共用的外部紋理不受影響。
+     *
+     * @group Lifecycle
+     * @param externalResources - External resource definitions / 外部資源定義
+     * @throws {Error} 如果特效尚未編譯或重新編譯失敗時拋出錯誤
+     */
+    public async recompile(externalResources: any): Promise<void> {
+        if (!this.compileSource) {
+            throw new Error("Effect not compiled. Call compile() first.");
+        }
+        const { effectCode, options } = this.compileSource;
+        this.resourceManager.dispose();
+        this.pipelineManager.dispose();
+        await this.compile(effectCode, externalResources, options);
+
+        // Parameters removed by the new selection are dropped / 新選取結果中不存在的參數不再套用
+        const parameters = new Set(this.shaderInfo!.parameters.map(p => p.name));
+        this.uniformValues.forEach((value, name) => {
+            if (parameters.has(name)) this.uniformBinder.updateUniform(name, value);
+            else this.uniformValues.delete(name);
+        });
+    }
+
+    /**
+     * Summarize what `//! IF` selected, for comparing two selections.
+     * ---
+     * 摘要 `//! IF` 選取的內容，用於比較兩次選取結果。
+     */
+    private static selectionKey(shaderInfo: WGFXShaderInfo): string {
+        return JSON.stringify([
+            shaderInfo.commonCode,
+            shaderInfo.passes.map(p => [p.index, p.code]),
+            shaderInfo.textures.map(t => t.name),
+            shaderInfo.samplers.map(s => s.name),
+            shaderInfo.parameters.map(p => p.name)
+        ]);
+    }
+
+    /**
+     * Fill in the OUTPUT_WIDTH/OUTPUT_HEIGHT defines and size the OUTPUT texture with them.
+     * ---
+     * 補上 OUTPUT_WIDTH/OUTPUT_HEIGHT 巨集定義，並以此決定 OUTPUT 紋理尺寸，
+     * 讓輸出紋理、分派網格與 SceneInfo 保持一致。優先順序：外部巨集定義、
+     * `//! OUTPUT_WIDTH`/`//! OUTPUT_HEIGHT`、特效對 OUTPUT 紋理宣告的 WIDTH/HEIGHT，最後為輸入尺寸。
+     *
+     * @internal
+     * @param shaderInfo - Shader info with conditions resolved / 已解析條件的著色器資訊
+     * @param externalResources - External resource definitions / 外部資源定義
+     * @returns A copy of the external resources with the output size applied / 套用輸出尺寸後的外部資源副本
+     * @throws {Error} 當輸出尺寸運算式無法求值或結果不是正整數時拋出錯誤
+     */
+    public static resolveOutputSize(shaderInfo: WGFXShaderInfo, externalResources: any): any {
+        const defines: Record<string, number> = { ...(externalResources.defines ?? {}) };
+        const declared = shaderInfo.textures.find(t => t.name === 'OUTPUT');
+
+        const resolve = (name: string, directive: string | undefined, fallback: string | number | undefined) => {
+            if (defines[name] !== undefined) return;
+            const expr = directive ?? fallback;
+            if (expr === undefined) return;
+            let value: number;
+            try {
+                value = ExpressionEvaluator.evaluate(expr, defines);
+            } catch (e: any) {
+                throw new Error(`Failed to evaluate ${name} "${expr}": ${e.message}`);
+            }
+            if (!Number.isFinite(value) || Math.round(value) <= 0) {
+                throw new Error(`${name} "${expr}" must be a positive size, got ${value}`);
+            }
+            defines[name] = Math.round(value);
+        };
+        resolve('OUTPUT_WIDTH', shaderInfo.metadata.outputWidth, declared?.width ?? defines.INPUT_WIDTH);
+        resolve('OUTPUT_HEIGHT', shaderInfo.metadata.outputHeight, declared?.height ?? defines.INPUT_HEIGHT);
+
+        const width = defines.OUTPUT_WIDTH;
+        const height = defines.OUTPUT_HEIGHT;
+        if (width === undefined || height === undefined) return { ...externalResources, defines };
+
+        // OUTPUT follows the resolved size, whether provided by the host or declared by the effect
+        // OUTPUT 依解析後的尺寸建立，無論由宿主提供或由特效宣告
+        const textures = { ...(externalResources.textures ?? {}) };
+        if (textures.OUTPUT && !ResourceManager.isTexture(textures.OUTPUT)) {
+            textures.OUTPUT = { ...textures.OUTPUT, size: [width, height] };
+        }
+        return { ...externalResources, defines, textures };
+    }
+
+    /**
+     * Log parser diagnostics and throw if any of them is an error.
+     * ---
+     * 記錄解析器的診斷訊息，若其中包含錯誤則一併拋出。
+     *
+     * @internal
+     * @param diagnostics - Diagnostics returned by the parser / 解析器回傳的診斷訊息
+     * @throws {Error} 若存在任何錯誤等級的診斷訊息
+     */
+    private reportDiagnostics(diagnostics: ShaderDiagnostic[]): void {
+        const format = (d: ShaderDiagnostic) =>
+            `${d.source ? `${d.source}:` : ''}${d.start.line}:${d.start.column} [${d.code}] ${d.message}`;
+
+        diagnostics.forEach(d => {
+            if (d.severity === 'warning') Logger.warn(`WGFXRuntime: ${format(d)}`);
+            else if (d.severity === 'info') Logger.debug(`WGFXRuntime: ${format(d)}`);
+        });
+
+        const errors = diagnostics.filter(d => d.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(`Effect has ${errors.length} error(s):\n${errors.map(format).join('\n')}`);
+        }
+    }
+
+    /**
+     * Log semantic validation issues and throw if any of them is an error.
+     * ---
+     * 記錄語意驗證問題，若其中包含錯誤則一併拋出。
+     *
+     * @internal
+     * @param issues - Issues returned by the validator / 驗證器回傳的問題
+     * @throws {Error} 若存在任何錯誤等級的驗證問題
+     */
+    private reportValidationIssues(issues: ValidationIssue[]): void {
+        const format = (i: ValidationIssue) => `[${i.code}] ${i.message}`;
+
+        issues.forEach(i => {
+            if (i.severity === 'warning') Logger.warn(`WGFXRuntime: ${format(i)}`);
+            else if (i.severity === 'info') Logger.debug(`WGFXRuntime: ${format(i)}`);
+        });
+
+        const errors = issues.filter(i => i.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(`Effect failed validation with ${errors.length} error(s):\n${errors.map(format).join('\n')}`);
+        }
+    }
+
+    /**
+     * Build the values available to `//! IF` conditions.
+     * ---
+     * 建立 `//! IF` 條件可使用的數值：外部巨集定義 (如 INPUT_WIDTH)、
+     * 裝置功能 `FEATURE_*` (如 FEATURE_SHADER_F16)，以及元數據旗標 `USE_*` 與 `CAPABILITY_*`。
+     *
+     * @internal
+     * @param metadata - Effect metadata from the parser / 解析器產生的特效元數據
+     * @param defines - External defines / 外部巨集定義
+     */
+    private buildConditionContext(metadata: EffectMetadata, defines: Record<string, number> = {}): Record<string, number> {
+        const context: Record<string, number> = { ...defines };
+        this.device.features.forEach(feature => {
+            context[`FEATURE_${feature.toUpperCase().replace(/-/g, '_')}`] = 1;
+        });
+        Object.keys(metadata.use).forEach(flag => context[`USE_${flag}`] = 1);
+        Object.keys(metadata.capability).forEach(flag => context[`CAPABILITY_${flag}`] = 1);
+        return context;
+    }
+
+    /**
+     * Compare the effect's //! CAPABILITY flags with the device features.
+     * ---
+     * 比對特效宣告的 //! CAPABILITY 旗標與裝置支援的功能，並對缺少的功能發出警告。
+     *
+     * @group Query
+     * @param metadata - Effect metadata from the parser / 解析器產生的特效元數據
+     * @returns Capability flags the device cannot satisfy / 裝置無法滿足的能力旗標
+     */
+    public checkCapabilities(metadata: EffectMetadata): string[] {
+        const missing: string[] = [];
+
+        Object.keys(metadata?.capability ?? {}).forEach(capability => {
+            const feature = CAPABILITY_FEATURES[capability];
+            if (feature && !this.device.features.has(feature)) {
+                Logger.warn(`WGFXRuntime: Effect declares CAPABILITY ${capability} but the device lacks "${feature}"`);
+                missing.push(capability);
+            }
+        });
+
+        return missing;
+    }
+
     /**
      * Dispatch a specific rendering pass to the GPU commands.
      * ---
@@ -105,6 +445,15 @@ export class WGFXRuntime {
      * @throws {Error} 如果特效尚未編譯或找不到指定通道則拋出錯誤
      */
     public dispatchPass(passName: string, commandEncoder: GPUCommandEncoder): void {
+        this.encodePass(passName, commandEncoder, false);
+    }
+
+    /**
+     * Dispatch a pass, reserving its timestamp writes when the frame is profiled.
+     * ---
+     * 執行通道；分析中的幀會為其保留時間戳寫入位置。
+     */
+    private encodePass(passName: string, commandEncoder: GPUCommandEncoder, profiled: boolean): void {
         if (!this.shaderInfo) {
             throw new Error("Effect not compiled. Call compile() first.");
         }
@@ -118,7 +467,84 @@ export class WGFXRuntime {
         }
 
         // Delegate to pipeline manager / 委託給管線管理員執行
-        this.pipelineManager.dispatchPass(passInfo, commandEncoder);
+        const timestampWrites = profiled ? this.profiler?.timestampWrites(passIndex, passInfo.desc) : undefined;
+        this.pipelineManager.dispatchPass(passInfo, commandEncoder, timestampWrites);
+    }
+
+    /**
+     * Encode every live pass in dependency order into an existing command encoder, without submitting.
+     * ---
+     * 將所有有效通道依依賴順序編碼至既有的指令編碼器，不提交。
+     * 時間戳只能在提交後讀回，而提交由呼叫端負責，因此這些通道不會被分析。
+     *
+     * @group Execution
+     * @param commandEncoder - The active GPU command encoder / 目前的 GPU 指令編碼器
+     * @throws {Error} 如果特效尚未編譯則拋出錯誤
+     */
+    public encodeFrame(commandEncoder: GPUCommandEncoder): void {
+        if (this.profiler && !this.encodeProfilingLogged) {
+            Logger.warn('WGFXRuntime: Profiling only covers executeFrame() / process(); passes recorded by encodeFrame() / encode() are not timed');
+            this.encodeProfilingLogged = true;
+        }
+        this.encodePasses(commandEncoder, false);
+    }
+
+    /**
+     * Encode every live pass in dependency order.
+     * ---
+     * 依依賴順序編碼所有有效通道。
+     */
+    private encodePasses(commandEncoder: GPUCommandEncoder, profiled: boolean): void {
+        if (!this.passGraph) {
+            throw new Error("Effect not compiled. Call compile() first.");
+        }
+        for (const index of this.passGraph.order) {
+            this.encodePass(`PASS_${index}`, commandEncoder, profiled);
+        }
+    }
+
+    /**
+     * Encode and submit every live pass in dependency order.
+     * ---
+     * 依依賴順序編碼並提交所有有效通道。啟用分析模式時一併記錄各通道耗時。
+     *
+     * @group Execution
+     * @returns A promise that resolves once the commands are submitted (or, for CPU profiling, completed) / 指令提交後（CPU 分析模式下為執行完成後）解析的 Promise
+     * @throws {Error} 如果特效尚未編譯則拋出錯誤
+     */
+    public async executeFrame(): Promise<void> {
+        if (!this.shaderInfo || !this.passGraph) {
+            throw new Error("Effect not compiled. Call compile() first.");
+        }
+        const order = this.passGraph.order;
+        const profiler = this.profiler;
+        profiler?.beginFrame(order.length);
+
+        if (profiler?.mode === 'cpu') {
+            // One submission per pass, timed until the GPU is idle / 每個通道各自提交，計時至 GPU 完成
+            const timings: PassTiming[] = [];
+            for (const index of order) {
+                const commandEncoder = this.device.createCommandEncoder({ label: `WGFX Pass ${index}` });
+                this.dispatchPass(`PASS_${index}`, commandEncoder);
+                const start = performance.now();
+                this.device.queue.submit([commandEncoder.finish()]);
+                await this.device.queue.onSubmittedWorkDone();
+                const desc = this.shaderInfo.passes.find(p => p.index === index)?.desc;
+                timings.push({ index, desc, durationMs: performance.now() - start });
+            }
+            profiler.recordCpuTimings(timings);
+            return;
+        }
+
+        const commandEncoder = this.device.createCommandEncoder({ label: 'WGFX Frame Processing' });
+        this.encodePasses(commandEncoder, profiler !== null);
+        const pending = profiler?.resolve(commandEncoder);
+        this.device.queue.submit([commandEncoder.finish()]);
+
+        // Read back without blocking the frame / 非同步讀回，不阻塞本幀
+        if (pending) {
+            profiler!.collect(pending).catch(e => Logger.warn('WGFXRuntime: Failed to read pass timestamps', e));
+        }
     }
 
     /**
@@ -130,11 +556,12 @@ export class WGFXRuntime {
      * @param name - The uniform name defined in shader / 著色器中定義的名稱
      * @param value - New value(s) to upload / 要上傳的新數值
      */
-    public updateUniform(name: string, value: number | number[]): void {
+    public updateUniform(name: string, value: UniformValue): void {
         if (!this.shaderInfo) {
             throw new Error("Effect not compiled. Call compile() first.");
         }
         this.uniformBinder.updateUniform(name, value);
+        this.uniformValues.set(name, value);
     }
 
     /**
@@ -154,6 +581,27 @@ export class WGFXRuntime {
         return outputTexture.createView();
     }
 
+    /**
+     * Read a texture back to the CPU as a tightly packed RGBA array.
+     * ---
+     * 將紋理讀回 CPU，回傳緊密排列的 RGBA 陣列。需在提交寫入該紋理的指令後呼叫。
+     *
+     * @group Output
+     * @param name - Texture name / 紋理名稱
+     * @param options - Output format and region / 輸出格式與區域
+     * @throws {Error} 若找不到紋理或無法讀回則拋出錯誤
+     */
+    public async readPixels<F extends keyof PixelArrays = 'rgba8'>(
+        name: string = 'OUTPUT',
+        options: ReadPixelsOptions<F> = {}
+    ): Promise<PixelArrays[F]> {
+        const texture = this.resourceManager.getTexture(name);
+        if (!texture) {
+            throw new Error(`Texture '${name}' not found.`);
+        }
+        return PixelReader.read(this.device, texture, options);
+    }
+
     /**
      * Retrieve a resource (Texture, Sampler, or Buffer) by its name.
      * ---
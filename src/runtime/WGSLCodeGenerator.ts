@@ -1,4 +1,8 @@
-import { WGFXShaderInfo, PassInfo, TextureInfo, ParameterInfo } from '@/types';
+import { WGFXShaderInfo, PassInfo, TextureInfo, ParameterInfo, EffectSourceMap, GeneratedLineOrigin, SourceLine } from '@/types';
+import { ExpressionEvaluator } from '@/utils/ExpressionEvaluator';
+import { TextureFormats } from '@/utils/TextureFormats';
+import { WGSLReflector, ReflectedBinding } from './WGSLReflector';
+import { UniformLayout } from './UniformLayout';
 
 /**
  * Resource binding index configuration strategy.
@@ -6,6 +10,9 @@ import { WGFXShaderInfo, PassInfo, TextureInfo, ParameterInfo } from '@/types';
  * 資源綁定索引配置策略。
  * 定義標準資源的固定綁定位置，確保著色器(Shader)與主機端(Host)之間的一致性。
 
+ * Only bindings not declared by the effect itself are allocated, starting at these indices and skipping taken slots.
+ * 僅為特效未自行宣告的資源配置綁定，從下列索引開始並略過已被占用的位置。
+ *
  * Binding index calculation / 索引計算方式：
  * - **場景資訊**: $Index_{Scene} = 0$
  * - **通用緩衝**: $Index_{Uniforms} = 1$
@@ -20,6 +27,59 @@ const BINDING_LAYOUT = {
     TEXTURES_START: 10, // Texture start index / 紋理起始索引
 } as const;
 
+/**
+ * Workgroup size of pixel-shader style passes without //! NUM_THREADS.
+ * 未指定 //! NUM_THREADS 的像素著色器風格通道所使用的工作群組尺寸。
+ */
+const DEFAULT_PS_NUM_THREADS: [number, number, number] = [8, 8, 1];
+
+/**
+ * A resource binding used by a pass, derived from the declarations its entry point reaches.
+ * ---
+ * 通道使用的資源綁定，由其進入點實際使用的宣告推導而來。
+ *
+ * @category Interfaces
+ */
+export interface PassBinding {
+    /** Bind group index / 綁定組索引 */
+    group: number;
+    /** Binding index / 綁定索引 */
+    binding: number;
+    /** Variable name in WGSL, also the texture or sampler name / WGSL 中的變數名稱，亦為紋理或取樣器名稱 */
+    name: string;
+    /** Kind of resource bound / 綁定的資源種類 */
+    resource: 'scene' | 'uniforms' | 'sampler' | 'texture' | 'storageTexture';
+    /** Sample type of sampled textures / 取樣紋理的取樣型別 */
+    sampleType?: 'float' | 'unfilterable-float' | 'sint' | 'uint' | 'depth';
+    /** Texel format of storage textures / 儲存紋理的像素格式 */
+    format?: string;
+    /** Access mode of storage textures / 儲存紋理的存取模式 */
+    access?: 'write-only' | 'read-only' | 'read-write';
+    /** Type of samplers / 取樣器類型 */
+    samplerType?: 'filtering' | 'non-filtering' | 'comparison';
+}
+
+/**
+ * A generated WGSL module for one pass.
+ * ---
+ * 單一通道產生的 WGSL 模組。
+ *
+ * @category Interfaces
+ */
+export interface GeneratedModule {
+    /** Complete WGSL source of the pass / 通道的完整 WGSL 原始碼 */
+    wgslCode: string;
+    /** Index of the pass / 通道索引 */
+    passIndex: number;
+    /** Resource requirements / 資源需求配置 */
+    resources: any;
+    /**
+     * Origin of each generated line (index = line number - 1); null for injected code.
+     * @zh 每一行產生代碼的來源（索引為行號減一）；注入的代碼為 null
+     */
+    lineMap: (GeneratedLineOrigin | null)[];
+}
+
 /**
  * Generator for WGSL shader code from parsed shader information.
  * ---
@@ -30,7 +90,46 @@ const BINDING_LAYOUT = {
  * @category Generators
  */
 export class WGSLCodeGenerator {
+    /** @zh 用於分析各通道宣告的 WGSL 反射器 */
+    public reflector: WGSLReflector;
+
     constructor() {
+        this.reflector = new WGSLReflector();
+    }
+
+    /**
+     * Apply `//! IF` / `//! ELSE` / `//! ENDIF` conditions to the parsed shader info.
+     * ---
+     * 套用 `//! IF` / `//! ELSE` / `//! ENDIF` 條件。
+     * 移除條件不成立的區塊，並將程式碼中未選取分支的行替換為空行（保留行號）。
+     * 未定義的識別符視為 0。
+     *
+     * @group Generation
+     * @param shaderInfo - The parsed shader metadata / 解析後的著色器元數據
+     * @param context - Values available to conditions (defines, FEATURE_*, USE_*, CAPABILITY_*) / 條件可使用的數值
+     * @returns A copy of the shader info with every condition resolved / 已套用所有條件的著色器資訊副本
+     * @throws {Error} 當條件運算式無法解析時拋出錯誤
+     */
+    public resolveConditionals(shaderInfo: WGFXShaderInfo, context: Record<string, number>): WGFXShaderInfo {
+        const evaluateCondition = (expr: string): boolean => {
+            try {
+                return ExpressionEvaluator.evaluate(expr, context, { undefinedValue: 0 }) !== 0;
+            } catch (e: any) {
+                throw new Error(`Invalid condition "${expr}": ${e.message}`);
+            }
+        };
+        const isActive = (conditions?: string[]) => (conditions ?? []).every(evaluateCondition);
+
+        return {
+            ...shaderInfo,
+            textures: shaderInfo.textures.filter(t => isActive(t.conditions)),
+            samplers: shaderInfo.samplers.filter(s => isActive(s.conditions)),
+            parameters: shaderInfo.parameters.filter(p => isActive(p.conditions)),
+            passes: shaderInfo.passes
+                .filter(p => isActive(p.conditions))
+                .map(p => ({ ...p, code: this._resolveConditionalCode(p.code, evaluateCondition) })),
+            commonCode: this._resolveConditionalCode(shaderInfo.commonCode, evaluateCondition)
+        };
     }
 
     /**
@@ -41,116 +140,187 @@ export class WGSLCodeGenerator {
      *
      * @group Generation
      * @param shaderInfo - The parsed shader metadata / 解析後的著色器元數據
+     * @param sourceMap - Line origins from the parser, used to build each module's line map / 解析器提供的行來源，用於建立各模組的行對應表
+     * @param options - Formats the device supports as `read_write` storage; any format is accepted when omitted / 裝置支援 `read_write` 儲存的格式，省略時接受任何格式
      * @returns Array of generated modules / 產生的模組列表
+     * @throws {Error} 當通道缺少 PassN 進入點函式、紋理格式不受支援，或裝置不支援所需的 read_write 存取時拋出錯誤
      */
-    public generate(shaderInfo: WGFXShaderInfo): { wgslCode: string; passIndex: number; resources: any }[] {
-        const generatedModules: { wgslCode: string; passIndex: number; resources: any }[] = [];
+    public generate(
+        shaderInfo: WGFXShaderInfo,
+        sourceMap?: EffectSourceMap,
+        options: { readWriteFormats?: Set<string> } = {}
+    ): GeneratedModule[] {
+        const generatedModules: GeneratedModule[] = [];
+        const lineCount = (text: string) => text.split('\n').length - 1;
 
         // Prepare common code sections / 準備共通代碼區段
-        const commonCode = shaderInfo.commonCode
+        const commonSource = shaderInfo.commonCode
             ? `// --- COMMON CODE ---\n${shaderInfo.commonCode}\n\n`
             : '';
 
-        // Generate SceneInfo struct / 產生場景資訊結構體
-        const sceneInfoCode = this._generateSceneInfoStruct();
-
-        // Generate Uniform buffer struct / 產生 Uniform 緩衝區結構體
-        const uniformBufferCode = this._generateUniformStruct(shaderInfo.parameters);
-
         // Process each render pass / 處理每個渲染通道
         shaderInfo.passes.forEach(pass => {
             let wgsl = `// ========================================\n`;
             wgsl += `// Pass ${pass.index}\n`;
             wgsl += `// ========================================\n\n`;
 
-            // Prepare resource tracking object / 準備資源追蹤物件
-            const passResources = {
-                textures: [] as any[],
-                samplers: [] as any[],
-                parameters: shaderInfo.parameters,
-                hasScene: true
+            // Transform pass logic to compute shader entry point / 轉換通道邏輯為計算著色器進入點
+            // Bare parameter names read from the uniform buffer / 直接使用的參數名稱改為讀取 Uniform 緩衝區
+            const [commonCode, passCode] = this._qualifyParameters(
+                commonSource, this._transformPassToComputeShader(pass), shaderInfo.parameters);
+
+            // Reflect what the pass declares and what its entry point reaches / 反射通道的宣告與進入點實際使用的識別符
+            const reflection = this.reflector.reflect(`${commonCode}\n${passCode}`);
+            const used = this.reflector.collectUsedIdentifiers(reflection, 'main_cs')
+                ?? this.reflector.collectIdentifiers(`${commonCode}\n${passCode}`);
+            const declared = new Set(reflection.bindings.map(b => b.name));
+            const hasStruct = (name: string) => reflection.structs.some(st => st.name === name);
+
+            // Bindings declared by the effect keep their slots / 特效自行宣告的綁定保留原位置
+            const bindings: PassBinding[] = reflection.bindings
+                .filter(decl => used.has(decl.name))
+                .map(decl => this._toPassBinding(decl, pass, shaderInfo.textures));
+            const taken = new Set(reflection.bindings.filter(b => b.group === 0).map(b => b.binding));
+            const allocate = (start: number): number => {
+                let binding = start;
+                while (taken.has(binding)) binding++;
+                taken.add(binding);
+                return binding;
             };
 
             // Inject common code / 注入共通代碼
+            const commonStart = lineCount(wgsl) + 1; // After the "COMMON CODE" comment / 位於 "COMMON CODE" 註解之後
             wgsl += commonCode;
 
-            // Inject SceneInfo (Resolution, scaling etc.)
-            // Only inject if not manually declared in common section
-            if (!commonCode.includes('struct SceneInfo') && !commonCode.includes('var<uniform> scene')) {
-                wgsl += sceneInfoCode;
+            // Inject SceneInfo (Resolution, scaling etc.) when used but not declared / 使用但未宣告時注入場景資訊
+            if (used.has('scene') && !declared.has('scene')) {
+                if (!hasStruct('SceneInfo')) wgsl += this._generateSceneInfoStruct() + '\n';
+                const binding = allocate(BINDING_LAYOUT.SCENE_INFO);
+                wgsl += `@group(0) @binding(${binding}) var<uniform> scene: SceneInfo;\n\n`;
+                bindings.push({ group: 0, binding, name: 'scene', resource: 'scene' });
             }
 
-            // Inject Uniforms (Parameters)
-            // Only inject if parameters exist and not manually declared in common section
-            if (uniformBufferCode && !commonCode.includes('struct Uniforms') && !commonCode.includes('var<uniform> uniforms')) {
-                wgsl += uniformBufferCode;
+            // Inject Uniforms (Parameters) when used but not declared / 使用但未宣告時注入參數
+            if (shaderInfo.parameters.length > 0 && used.has('uniforms') && !declared.has('uniforms')) {
+                if (!hasStruct('Uniforms')) wgsl += this._generateUniformStruct(shaderInfo.parameters);
+                const binding = allocate(BINDING_LAYOUT.UNIFORMS);
+                wgsl += `@group(0) @binding(${binding}) var<uniform> uniforms: Uniforms;\n\n`;
+                bindings.push({ group: 0, binding, name: 'uniforms', resource: 'uniforms' });
             }
 
-            // Setup sampler bindings / 設定採樣器綁定
-            let samplerBinding = BINDING_LAYOUT.SAMPLERS_START;
+            // Setup sampler bindings for used SAMPLER blocks / 為使用到的 SAMPLER 區塊設定綁定
             shaderInfo.samplers.forEach(sampler => {
-                // Only declare if not in common code
-                if (!commonCode.includes(`var ${sampler.name}`)) {
-                    const currentBinding = samplerBinding++;
-                    wgsl += `@group(0) @binding(${currentBinding}) var ${sampler.name}: sampler;\n`;
-
-                    passResources.samplers.push({
-                        ...sampler,
-                        binding: currentBinding,
-                        group: 0
-                    });
-                }
+                if (!used.has(sampler.name) || declared.has(sampler.name)) return;
+                const binding = allocate(BINDING_LAYOUT.SAMPLERS_START);
+                wgsl += `@group(0) @binding(${binding}) var ${sampler.name}: sampler;\n`;
+                bindings.push({ group: 0, binding, name: sampler.name, resource: 'sampler', samplerType: 'filtering' });
             });
             wgsl += '\n';
 
-            // Setup texture bindings / 設定紋理綁定
-            const usedTextureNames = new Set([...pass.in, ...pass.out]);
-            let textureBinding = BINDING_LAYOUT.TEXTURES_START;
-
+            // Setup texture bindings for used TEXTURE blocks: sampled when read, storage when written
+            // 為使用到的 TEXTURE 區塊設定綁定：讀取時為取樣紋理，寫入時為儲存紋理，兩者皆有時為 read_write
             shaderInfo.textures.forEach(tex => {
-                const isUsed = [...usedTextureNames].some(usedName =>
-                    tex.name === usedName || tex.name.startsWith(usedName + "_")
-                );
-                if (!isUsed) return;
-
-                // Only declare if not in common code
-                if (!commonCode.includes(`var ${tex.name}`)) {
-                    const isOutputInThisPass = pass.out.includes(tex.name);
-                    const isStorage = (tex.name === 'OUTPUT' || isOutputInThisPass);
-
-                    const format = tex.format || 'rgba16float';
-                    const textureType = isStorage
-                        ? `texture_storage_2d<${format}, write>`
-                        : `texture_2d<f32>`;
-
-                    const currentBinding = textureBinding++;
-                    wgsl += `@group(0) @binding(${currentBinding}) var ${tex.name}: ${textureType};\n`;
-
-                    passResources.textures.push({
-                        ...tex,
-                        format: format,
-                        binding: currentBinding,
-                        group: 0,
-                        isStorage: isStorage
-                    });
+                if (!used.has(tex.name) || declared.has(tex.name)) return;
+
+                const isStorage = pass.out.includes(tex.name);
+                const isReadWrite = isStorage && pass.in.includes(tex.name);
+                const formatInfo = TextureFormats.resolve(tex.format);
+                if (!formatInfo) throw new Error(`Texture "${tex.name}" uses unsupported format "${tex.format}" / 不支援的紋理格式`);
+                if (isStorage && !formatInfo.storage) {
+                    throw new Error(`PASS ${pass.index}: format ${formatInfo.format} of "${tex.name}" cannot be used as a storage texture / 該格式不能作為儲存紋理`);
                 }
+                const format = formatInfo.format;
+                if (isReadWrite && options.readWriteFormats && !options.readWriteFormats.has(format)) {
+                    throw new Error(`PASS ${pass.index}: the device does not support read_write storage textures of format ${format} used by "${tex.name}" / 裝置不支援該格式的 read_write 儲存紋理`);
+                }
+                const textureType = isStorage
+                    ? `texture_storage_2d<${format}, ${isReadWrite ? 'read_write' : 'write'}>`
+                    : `texture_2d<f32>`;
+
+                const binding = allocate(BINDING_LAYOUT.TEXTURES_START);
+                wgsl += `@group(0) @binding(${binding}) var ${tex.name}: ${textureType};\n`;
+                bindings.push(isStorage
+                    ? { group: 0, binding, name: tex.name, resource: 'storageTexture', format, access: isReadWrite ? 'read-write' : 'write-only' }
+                    : { group: 0, binding, name: tex.name, resource: 'texture', sampleType: formatInfo.filterable ? 'float' : 'unfilterable-float' });
             });
             wgsl += '\n';
 
-            // Transform pass logic to compute shader entry point / 轉換通道邏輯為計算著色器進入點
-            let passCode = this._transformPassToComputeShader(pass);
+            // The transformation keeps the pass code lines in place / 轉換後通道代碼的行位置保持不變
+            const passStart = lineCount(wgsl);
             wgsl += passCode;
 
+            // Map generated lines back to the effect source / 將產生的行對應回特效原始碼
+            const lineMap: (GeneratedLineOrigin | null)[] = new Array(lineCount(wgsl) + 1).fill(null);
+            const addOrigins = (origins: SourceLine[] | undefined, start: number, block: string) => {
+                (origins ?? []).forEach((origin, i) => { lineMap[start + i] = { ...origin, block }; });
+            };
+            if (commonCode) addOrigins(sourceMap?.common, commonStart, 'COMMON');
+            addOrigins(sourceMap?.passes[pass.index], passStart, `PASS ${pass.index}`);
+
             generatedModules.push({
                 wgslCode: wgsl,
                 passIndex: pass.index,
-                resources: passResources
+                resources: {
+                    bindings: bindings.sort((a, b) => a.group - b.group || a.binding - b.binding),
+                    parameters: shaderInfo.parameters,
+                    workgroupSize: this._getDispatchBlockSize(pass)
+                },
+                lineMap
             });
         });
 
         return generatedModules;
     }
 
+    /**
+     * Describe a binding declared by the effect code.
+     * ---
+     * 描述特效程式碼自行宣告的綁定。
+     * Uniform 變數若為 SceneInfo 型別或名為 scene 則綁定場景資訊，Uniforms 型別或名為 uniforms 則綁定參數緩衝區，
+     * 其餘 Uniform 變數沒有資料來源，視為錯誤。
+     * 紋理的取樣型別與儲存格式會依對應 TEXTURE 區塊的格式檢查。
+     *
+     * @throws {Error} 當宣告的型別不受支援、Uniform 變數沒有資料來源，或與紋理格式不符時拋出錯誤
+     */
+    private _toPassBinding(decl: ReflectedBinding, pass: PassInfo, textures: TextureInfo[]): PassBinding {
+        const base = { group: decl.group, binding: decl.binding, name: decl.name };
+        const space = decl.addressSpace ?? '';
+        const texture = textures.find(t => t.name === decl.name);
+        const textureFormat = texture ? TextureFormats.resolve(texture.format) : undefined;
+
+        if (space === 'uniform') {
+            if (decl.type === 'SceneInfo' || decl.name === 'scene') return { ...base, resource: 'scene' };
+            if (decl.type === 'Uniforms' || decl.name === 'uniforms') return { ...base, resource: 'uniforms' };
+            throw new Error(`PASS ${pass.index}: uniform "${decl.name}: ${decl.type}" has no data source; declare parameters with //! PARAMETER and read scene sizes from "scene" / Uniform 變數沒有對應的資料來源`);
+        }
+        if (decl.type === 'sampler' || decl.type === 'sampler_comparison') {
+            return { ...base, resource: 'sampler', samplerType: decl.type === 'sampler' ? 'filtering' : 'comparison' };
+        }
+
+        const storage = decl.type.match(/^texture_storage_2d<(\w+),(\w+)>$/);
+        if (storage) {
+            const access = ({ write: 'write-only', read: 'read-only', read_write: 'read-write' } as const)[storage[2] as 'write' | 'read' | 'read_write'];
+            if (access) {
+                if (textureFormat && textureFormat.format !== storage[1]) {
+                    throw new Error(`PASS ${pass.index}: "${decl.name}" is declared as ${storage[1]} but the texture format is ${textureFormat.format} / 宣告的儲存格式與紋理格式不符`);
+                }
+                return { ...base, resource: 'storageTexture', format: storage[1], access };
+            }
+        }
+
+        const sampled = decl.type.match(/^texture_2d<(f32|i32|u32)>$/);
+        if (sampled) {
+            const sampleType = ({ f32: 'float', i32: 'sint', u32: 'uint' } as const)[sampled[1] as 'f32' | 'i32' | 'u32'];
+            const unfilterable = sampleType === 'float' && textureFormat && !textureFormat.filterable;
+            return { ...base, resource: 'texture', sampleType: unfilterable ? 'unfilterable-float' : sampleType };
+        }
+        if (decl.type === 'texture_depth_2d') {
+            return { ...base, resource: 'texture', sampleType: 'depth' };
+        }
+
+        throw new Error(`PASS ${pass.index}: unsupported binding "${decl.name}: ${decl.type}"${space ? ` in <${space}>` : ''} / 不支援的綁定型別`);
+    }
+
     /**
      * Generate SceneInfo struct definition.
      * ---
@@ -168,27 +338,74 @@ struct SceneInfo {
 }`;
     }
 
+    /**
+     * Rewrite bare parameter names in common and pass code into `uniforms` member accesses.
+     * ---
+     * 將共通與通道代碼中直接使用的參數名稱改寫為 `uniforms` 的成員存取，讓移植的特效不需修改即可編譯。
+     * 被區域變數、函式參數或同名模組層級宣告遮蔽的名稱保持不變；bool 參數改寫為比較運算以得到 bool 值。
+     */
+    private _qualifyParameters(commonCode: string, passCode: string, parameters: ParameterInfo[]): [string, string] {
+        const moduleNames = this.reflector.collectModuleDeclarations(`${commonCode}\n${passCode}`);
+        const replacements = new Map<string, string>(parameters
+            .filter(p => !moduleNames.has(p.name))
+            .map(p => [p.name, p.type === 'bool' ? `(uniforms.${p.name} != 0u)` : `uniforms.${p.name}`]));
+        return [
+            this.reflector.rewriteIdentifiers(commonCode, replacements),
+            this.reflector.rewriteIdentifiers(passCode, replacements)
+        ];
+    }
+
     /**
      * Generate Uniform buffer struct definition.
      * ---
      * 產生 Uniform 緩衝區結構體定義。
-     * 根據參數列表產生對應的 WGSL 結構體。
-     * 注意：不再自動加入填充，由呼叫方負責記憶體對齊。
+     * 成員型別與偏移量來自 {@link UniformLayout}，與資源管理員配置的緩衝區一致。
      */
     private _generateUniformStruct(parameters: ParameterInfo[]): string {
-        if (parameters.length === 0) return '';
-
-        let code = `// Uniform Parameters / Uniform 參數\nstruct Uniforms {\n`;
-
-        parameters.forEach(param => {
-            const wgslType = param.type === 'int' ? 'i32' : 'f32';
-            code += `    ${param.name}: ${wgslType},\n`;
-        });
+        return new UniformLayout(parameters).toStruct();
+    }
 
-        code += `};\n`;
-        code += `@group(0) @binding(${BINDING_LAYOUT.UNIFORMS}) var<uniform> uniforms: Uniforms;\n\n`;
+    /**
+     * Keep only the selected branches of `//! IF` markers in a code block.
+     * ---
+     * 只保留程式碼中 `//! IF` 標記所選取的分支，其餘行（包含標記本身）替換為空行。
+     */
+    private _resolveConditionalCode(code: string | undefined, evaluateCondition: (expr: string) => boolean): string {
+        if (!code) return code ?? '';
+
+        // One entry per open //! IF: its condition and whether the current branch is selected
+        // 每個開啟的 //! IF 一層：其條件結果與目前分支是否被選取
+        const stack: { active: boolean; condition: boolean }[] = [];
+        const isActive = () => stack.every(s => s.active);
+
+        return code.split('\n').map(line => {
+            const marker = line.match(/^\s*\/\/!\s*(IF|ELSE|ENDIF)\b(.*)$/i);
+            if (!marker) return isActive() ? line : '';
+
+            const directive = marker[1].toUpperCase();
+            if (directive === 'IF') {
+                // Skip evaluating conditions in branches that are already disabled / 已停用的分支中不再求值
+                const condition = isActive() ? evaluateCondition(marker[2].trim()) : false;
+                stack.push({ active: condition, condition });
+            } else if (directive === 'ELSE') {
+                const top = stack[stack.length - 1];
+                if (top) top.active = !top.condition;
+            } else {
+                stack.pop();
+            }
+            return '';
+        }).join('\n');
+    }
 
-        return code;
+    /**
+     * Number of output pixels covered by one workgroup, used to size the dispatch grid.
+     * ---
+     * 每個工作群組涵蓋的輸出像素數，用於計算分發網格大小。
+     * PS 通道每個執行緒處理一個像素，因此使用工作群組尺寸。
+     */
+    private _getDispatchBlockSize(pass: PassInfo): number[] {
+        if (pass.style === 'PS') return pass.numThreads || DEFAULT_PS_NUM_THREADS;
+        return pass.blockSize || pass.numThreads || [1, 1, 1];
     }
 
     /**
@@ -196,22 +413,57 @@ struct SceneInfo {
      * ---
      * 將 Pass 函式轉換為計算著色器進入點。
      * 重新命名函式為 main_cs 並套用 @compute 屬性。
+     * 不增減任何行，使行對應表維持正確。
+     *
+     * @throws {Error} 當通道沒有 PassN 函式時拋出錯誤
      */
     private _transformPassToComputeShader(pass: PassInfo): string {
-        // Remove meta-command comments / 移除元指令註解
-        let code = pass.code.replace(/\/\/!.*\n/g, '');
-
-        // Rename PassX function to main_cs / 將 PassX 函式重新命名為 main_cs
-        code = code.replace(
-            new RegExp(`fn Pass${pass.index}\\s*\\(`),
-            `fn main_cs(`
-        );
-
-        // Apply @compute attribute and workgroup size / 套用 @compute 屬性與工作群組大小
+        // Blank out meta-command comments / 清空元指令註解
+        let code = (pass.code ?? '').replace(/\/\/!.*$/gm, '');
+
+        // Find PassN outside comments / 在註解以外尋找 PassN
+        const entry = new RegExp(`fn\\s+Pass${pass.index}\\s*\\(`).exec(code.replace(/\/\/.*$/gm, m => ' '.repeat(m.length)));
+        if (!entry) {
+            throw new Error(`PASS ${pass.index}: entry function Pass${pass.index} not found / 找不到進入點函式 Pass${pass.index}`);
+        }
+        if (pass.style === 'PS') return this._wrapPixelShaderPass(pass);
+
+        // Rename PassX function to main_cs and apply @compute attribute and workgroup size
+        // 將 PassX 函式重新命名為 main_cs，並套用 @compute 屬性與工作群組大小
         const numThreads = pass.numThreads || [1, 1, 1];
-        code = code.replace(/@compute\s*@workgroup_size\([^)]+\)\s*/g, '');
-        code = `@compute @workgroup_size(${numThreads[0]}, ${numThreads[1]}, ${numThreads[2]})\n${code}`;
+        const attribute = `@compute @workgroup_size(${numThreads[0]}, ${numThreads[1]}, ${numThreads[2]})`;
+        const before = code.slice(0, entry.index);
+        const after = code.slice(entry.index + entry[0].length);
+
+        // Drop existing compute attributes but keep their line breaks / 移除既有的計算屬性，但保留換行
+        const dropAttributes = (text: string) => text.replace(/@compute\s*@workgroup_size\([^)]+\)\s*/g, m => m.replace(/[^\n]/g, ''));
+        return `${dropAttributes(before)}${attribute} fn main_cs(${dropAttributes(after)}`;
+    }
 
-        return code;
+    /**
+     * Wrap a pixel-shader style pass into a compute shader entry point.
+     * ---
+     * 將像素著色器風格的通道包裝為計算著色器進入點。
+     * 作者撰寫 `fn PassN(pos: vec2<f32>) -> vec4<f32>`（pos 為像素中心的 UV），
+     * 產生的 main_cs 會依 global_invocation_id 計算 UV、略過超出輸出範圍的執行緒，
+     * 並將結果寫入唯一的 OUT 紋理。
+     */
+    private _wrapPixelShaderPass(pass: PassInfo): string {
+        const code = (pass.code ?? '').replace(/\/\/!.*$/gm, '');
+        const output = pass.out[0];
+        const numThreads = pass.numThreads || DEFAULT_PS_NUM_THREADS;
+
+        return `${code}
+
+@compute @workgroup_size(${numThreads[0]}, ${numThreads[1]}, ${numThreads[2]})
+fn main_cs(@builtin(global_invocation_id) id: vec3<u32>) {
+    let outputSize = textureDimensions(${output});
+    if (id.x >= outputSize.x || id.y >= outputSize.y) {
+        return;
+    }
+    let pos = (vec2<f32>(id.xy) + vec2<f32>(0.5, 0.5)) / vec2<f32>(outputSize);
+    textureStore(${output}, id.xy, Pass${pass.index}(pos));
+}
+`;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,368 @@
+/**
+ * A module-scope resource declaration such as `@group(0) @binding(1) var<uniform> scene: SceneInfo;`.
+ * ---
+ * 模組層級的資源宣告。
+ *
+ * @category Interfaces
+ */
+export interface ReflectedBinding {
+    /** Value of `@group`, 0 when absent / `@group` 的值，省略時為 0 */
+    group: number;
+    /** Value of `@binding` / `@binding` 的值 */
+    binding: number;
+    /** Variable name / 變數名稱 */
+    name: string;
+    /** Address space and access mode inside `var<...>`, e.g. 'uniform' or 'storage, read' / `var<...>` 中的位址空間與存取模式 */
+    addressSpace?: string;
+    /** Declared type, e.g. 'texture_2d<f32>' / 宣告的型別 */
+    type: string;
+}
+
+/**
+ * A struct declaration and its members.
+ * ---
+ * 結構體宣告及其成員。
+ *
+ * @category Interfaces
+ */
+export interface ReflectedStruct {
+    /** Struct name / 結構體名稱 */
+    name: string;
+    /** Members in declaration order / 依宣告順序排列的成員 */
+    members: { name: string; type: string }[];
+}
+
+/**
+ * Declarations found in a WGSL module.
+ * ---
+ * 在 WGSL 模組中找到的宣告。
+ *
+ * @category Interfaces
+ */
+export interface WGSLReflection {
+    /** Resource declarations with `@binding` / 帶有 `@binding` 的資源宣告 */
+    bindings: ReflectedBinding[];
+    /** Struct declarations / 結構體宣告 */
+    structs: ReflectedStruct[];
+    /** Identifiers referenced by each function (signature and body), keyed by function name / 各函式（簽名與主體）引用的識別符 */
+    functions: Map<string, Set<string>>;
+}
+
+/**
+ * Identifiers, numbers (so that suffixes such as `1.0f` are not identifiers) and single punctuation characters.
+ * 識別符、數值（避免 `1.0f` 的後綴被視為識別符）與單一標點字元。
+ */
+const TOKEN_PATTERN = /[A-Za-z_]\w*|(?:\d+\.?\d*|\.\d+)(?:[eEpP][+-]?\d+)?\w*|\S/g;
+
+/**
+ * Keywords followed by the name they declare.
+ * 其後緊接所宣告名稱的關鍵字。
+ */
+const DECLARATION_KEYWORDS = new Set(['const', 'override', 'var', 'let', 'fn', 'struct', 'alias']);
+
+/**
+ * Lightweight reflector for the WGSL declarations WGFX needs to build bind group layouts.
+ * ---
+ * 輕量的 WGSL 宣告反射器，擷取 WGFX 建立綁定組佈局所需的資訊：
+ * 帶有 `@group/@binding` 的 `var` 宣告、結構體，以及函式之間的引用關係。
+ * 這不是完整的 WGSL 解析器；註解會先被移除，其餘以詞法規則比對。
+ *
+ * @group Core
+ * @category Generators
+ *
+ * @example
+ * ```ts
+ * const reflector = new WGSLReflector();
+ * const reflection = reflector.reflect(wgslCode);
+ * const used = reflector.collectUsedIdentifiers(reflection, 'main_cs');
+ * const usedBindings = reflection.bindings.filter(b => used.has(b.name));
+ * ```
+ */
+export class WGSLReflector {
+    constructor() {
+    }
+
+    /**
+     * Reflect the module-scope declarations of a WGSL source.
+     * ---
+     * 反射 WGSL 原始碼的模組層級宣告。
+     *
+     * @group Reflection
+     * @param code - WGSL source / WGSL 原始碼
+     * @returns The declarations found / 找到的宣告
+     */
+    public reflect(code: string): WGSLReflection {
+        const source = this._stripComments(code);
+        return {
+            bindings: this._reflectBindings(source),
+            structs: this._reflectStructs(source),
+            functions: this._reflectFunctions(source)
+        };
+    }
+
+    /**
+     * Collect every identifier reachable from an entry function through the functions it calls.
+     * ---
+     * 收集從進入點函式經由其呼叫的函式可到達的所有識別符。
+     *
+     * @group Reflection
+     * @param reflection - Result of {@link WGSLReflector.reflect} / 反射結果
+     * @param entryPoint - Name of the entry function / 進入點函式名稱
+     * @returns Referenced identifiers, or undefined when the entry function does not exist / 引用的識別符；找不到進入點時為 undefined
+     */
+    public collectUsedIdentifiers(reflection: WGSLReflection, entryPoint: string): Set<string> | undefined {
+        if (!reflection.functions.has(entryPoint)) return undefined;
+
+        const used = new Set<string>();
+        const visited = new Set<string>();
+        const pending = [entryPoint];
+        while (pending.length > 0) {
+            const fn = pending.pop()!;
+            if (visited.has(fn)) continue;
+            visited.add(fn);
+            reflection.functions.get(fn)!.forEach(id => {
+                used.add(id);
+                if (reflection.functions.has(id)) pending.push(id);
+            });
+        }
+        return used;
+    }
+
+    /**
+     * Collect every identifier of a source, for modules without a known entry point.
+     * ---
+     * 收集原始碼中的所有識別符，用於沒有已知進入點的模組。
+     *
+     * @group Reflection
+     */
+    public collectIdentifiers(code: string): Set<string> {
+        return new Set(this._stripComments(code).match(/[A-Za-z_]\w*/g) ?? []);
+    }
+
+    /**
+     * Collect the names declared at module scope (const, override, var, let, fn, struct, alias).
+     * ---
+     * 收集模組層級宣告的名稱（const、override、var、let、fn、struct、alias）。
+     *
+     * @group Reflection
+     */
+    public collectModuleDeclarations(code: string): Set<string> {
+        const source = this._stripComments(code);
+        const names = new Set<string>();
+        let depth = 0;
+        let templateDepth = 0;
+        let expectName = false;
+        for (const token of source.match(TOKEN_PATTERN) ?? []) {
+            if (token === '{' || token === '(') depth++;
+            else if (token === '}' || token === ')') depth--;
+            else if (expectName && token === '<') templateDepth++;
+            else if (expectName && token === '>') templateDepth--;
+            else if (depth === 0 && DECLARATION_KEYWORDS.has(token)) expectName = true;
+            else if (expectName && templateDepth === 0 && /^[A-Za-z_]/.test(token)) {
+                names.add(token);
+                expectName = false;
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Replace references to module-scope identifiers, leaving member accesses, declarations
+     * and names shadowed by local variables or function parameters untouched.
+     * ---
+     * 取代對模組層級識別符的引用。成員存取（`a.x`）、宣告（`x: f32`）、
+     * 以及被區域變數或函式參數遮蔽的名稱都不會被取代。行數與註解保持不變。
+     *
+     * @group Transformation
+     * @param code - WGSL source / WGSL 原始碼
+     * @param replacements - Replacement text keyed by identifier / 以識別符為鍵的取代文字
+     * @returns The rewritten source / 取代後的原始碼
+     *
+     * @example
+     * ```ts
+     * reflector.rewriteIdentifiers('fn f(a: f32) -> f32 { return a * Strength; }', new Map([['Strength', 'uniforms.Strength']]));
+     * // 'fn f(a: f32) -> f32 { return a * uniforms.Strength; }'
+     * ```
+     */
+    public rewriteIdentifiers(code: string, replacements: Map<string, string>): string {
+        if (replacements.size === 0) return code;
+        const source = this._stripComments(code);
+
+        const scopes: Set<string>[] = [new Set()];
+        let header = false;         // Inside a fn or for header / 位於 fn 或 for 的標頭
+        let pending: string[] = []; // Names visible in the next block / 於下一個區塊可見的名稱
+        let statement: string[] = []; // Locals visible after the current statement / 目前敘述結束後才可見的區域變數
+        let declaring = false;
+        let templateDepth = 0;
+        let previous = '';
+        const edits: { index: number; name: string }[] = [];
+
+        for (const match of source.matchAll(TOKEN_PATTERN)) {
+            const token = match[0];
+            const next = source.slice(match.index! + token.length).match(/^\s*(\S)/)?.[1];
+
+            if (token === '{') {
+                scopes.push(new Set(header ? pending : []));
+                header = false;
+                pending = [];
+            } else if (token === '}') {
+                if (scopes.length > 1) scopes.pop();
+            } else if (token === ';') {
+                statement.forEach(name => scopes[scopes.length - 1].add(name));
+                statement = [];
+            } else if (token === 'fn' || token === 'for') {
+                header = true;
+            } else if (DECLARATION_KEYWORDS.has(token)) {
+                declaring = true;
+            } else if (declaring && (token === '<' || token === '>')) {
+                // Address space of var<...> / var<...> 的位址空間
+                templateDepth += token === '<' ? 1 : -1;
+            } else if (/^[A-Za-z_]/.test(token)) {
+                if (declaring) {
+                    // Name after let / var / const / 宣告的名稱
+                    if (templateDepth === 0) {
+                        (header ? pending : statement).push(token);
+                        declaring = false;
+                    }
+                } else if (next === ':') {
+                    // Struct member or function parameter / 結構體成員或函式參數
+                    if (header) pending.push(token);
+                } else if (previous !== '.' && replacements.has(token)
+                    && !scopes.some(scope => scope.has(token)) && !(header && pending.includes(token))) {
+                    edits.push({ index: match.index!, name: token });
+                }
+            }
+            previous = token;
+        }
+
+        // Apply from the end so earlier offsets stay valid / 由後往前套用，保持前方偏移量不變
+        let result = code;
+        for (let i = edits.length - 1; i >= 0; i--) {
+            const { index, name } = edits[i];
+            result = result.slice(0, index) + replacements.get(name)! + result.slice(index + name.length);
+        }
+        return result;
+    }
+
+    /**
+     * Replace comments with spaces, keeping line breaks and offsets.
+     * ---
+     * 以空白取代註解，保留換行與字元位置。
+     */
+    private _stripComments(code: string): string {
+        let result = '';
+        let depth = 0; // Block comments nest in WGSL / WGSL 的區塊註解可巢狀
+        for (let i = 0; i < code.length; i++) {
+            const pair = code.substr(i, 2);
+            if (depth === 0 && pair === '//') {
+                while (i < code.length && code[i] !== '\n') { result += ' '; i++; }
+                if (i < code.length) result += '\n';
+            } else if (pair === '/*') {
+                depth++;
+                result += '  ';
+                i++;
+            } else if (depth > 0 && pair === '*/') {
+                depth--;
+                result += '  ';
+                i++;
+            } else {
+                result += depth > 0 && code[i] !== '\n' ? ' ' : code[i];
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Find `var` declarations carrying a `@binding` attribute.
+     * ---
+     * 找出帶有 `@binding` 屬性的 `var` 宣告。
+     */
+    private _reflectBindings(source: string): ReflectedBinding[] {
+        const bindings: ReflectedBinding[] = [];
+        const pattern = /((?:@\s*\w+\s*(?:\([^)]*\))?\s*)+)var\s*(?:<([^>]*)>)?\s*([A-Za-z_]\w*)\s*:\s*([^;=]+?)\s*[;=]/g;
+
+        for (const match of source.matchAll(pattern)) {
+            const attributes = match[1];
+            const binding = attributes.match(/@\s*binding\s*\(\s*(\d+)\s*\)/);
+            if (!binding) continue;
+            const group = attributes.match(/@\s*group\s*\(\s*(\d+)\s*\)/);
+
+            bindings.push({
+                group: group ? parseInt(group[1], 10) : 0,
+                binding: parseInt(binding[1], 10),
+                name: match[3],
+                addressSpace: match[2]?.replace(/\s+/g, ' ').trim(),
+                type: match[4].replace(/\s+/g, '')
+            });
+        }
+        return bindings;
+    }
+
+    /**
+     * Find struct declarations and their members.
+     * ---
+     * 找出結構體宣告及其成員。
+     */
+    private _reflectStructs(source: string): ReflectedStruct[] {
+        const structs: ReflectedStruct[] = [];
+        for (const match of source.matchAll(/\bstruct\s+([A-Za-z_]\w*)\s*\{([^}]*)\}/g)) {
+            const members = this._splitTopLevel(match[2])
+                .map(m => m.replace(/@\s*\w+\s*(\([^)]*\))?/g, '').trim())
+                .filter(m => m.length > 0)
+                .map(m => {
+                    const separator = m.indexOf(':');
+                    return { name: m.slice(0, separator).trim(), type: m.slice(separator + 1).replace(/\s+/g, '') };
+                });
+            structs.push({ name: match[1], members });
+        }
+        return structs;
+    }
+
+    /**
+     * Find function declarations and the identifiers each one references.
+     * ---
+     * 找出函式宣告及各函式引用的識別符。
+     */
+    private _reflectFunctions(source: string): Map<string, Set<string>> {
+        const functions = new Map<string, Set<string>>();
+        for (const match of source.matchAll(/\bfn\s+([A-Za-z_]\w*)\s*\(/g)) {
+            const bodyStart = source.indexOf('{', match.index! + match[0].length);
+            if (bodyStart < 0) continue;
+
+            // Match braces to find the end of the body / 比對大括號以找出函式主體結尾
+            let depth = 0;
+            let end = bodyStart;
+            for (; end < source.length; end++) {
+                if (source[end] === '{') depth++;
+                else if (source[end] === '}' && --depth === 0) break;
+            }
+
+            const text = source.slice(match.index! + match[0].length, end + 1);
+            functions.set(match[1], new Set(text.match(/[A-Za-z_]\w*/g) ?? []));
+        }
+        return functions;
+    }
+
+    /**
+     * Split a comma separated list, ignoring commas nested in `<>` or `()`.
+     * ---
+     * 分割以逗號分隔的列表，忽略 `<>` 或 `()` 內的逗號。
+     */
+    private _splitTopLevel(text: string): string[] {
+        const parts: string[] = [];
+        let depth = 0;
+        let current = '';
+        for (const ch of text) {
+            if (ch === '<' || ch === '(') depth++;
+            else if (ch === '>' || ch === ')') depth--;
+            if (ch === ',' && depth === 0) {
+                parts.push(current);
+                current = '';
+            } else {
+                current += ch;
+            }
+        }
+        parts.push(current);
+        return parts;
+    }
+}
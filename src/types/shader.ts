@@ -5,6 +5,8 @@
  * 著色器中使用的紋理資源資訊
  */
 export interface TextureInfo {
+  /** Id written on the block directive line; a `var` declaration sets it to the name / 區塊指令行上的 id；以 `var` 宣告時與名稱相同 */
+  id?: string;
   /** Texture identifier used in code / 程式碼中使用的紋理識別符 */
   name: string;
   /** Width can be a numeric literal or expression / 寬度可以是數值或運算式 */
@@ -13,6 +15,10 @@ export interface TextureInfo {
   height: string | number;
   /** GPU texture format / GPU 紋理格式 */
   format?: GPUTextureFormat;
+  /** Other lines of the block (declarations, comments), kept verbatim for the printer / 區塊內的其他行（宣告、註解），原樣保留供輸出器使用 */
+  lines?: string[];
+  /** Conditions from enclosing //! IF directives, all must hold / 外圍 //! IF 指令的條件，需全部成立 */
+  conditions?: string[];
 }
 
 /**
@@ -20,12 +26,18 @@ export interface TextureInfo {
  * 著色器中使用的取樣器資源資訊
  */
 export interface SamplerInfo {
+  /** Id written on the block directive line; a `var` declaration sets it to the name / 區塊指令行上的 id；以 `var` 宣告時與名稱相同 */
+  id?: string;
   /** Sampler identifier used in code / 程式碼中使用的取樣器識別符 */
   name: string;
   /** Filter mode: 'LINEAR' or 'NEAREST' / 過濾模式 */
   filter: string;
   /** Address mode: 'WRAP' or 'CLAMP' / 定址模式 */
   address: string;
+  /** Other lines of the block (declarations, comments), kept verbatim for the printer / 區塊內的其他行（宣告、註解），原樣保留供輸出器使用 */
+  lines?: string[];
+  /** Conditions from enclosing //! IF directives, all must hold / 外圍 //! IF 指令的條件，需全部成立 */
+  conditions?: string[];
 }
 
 /**
@@ -33,9 +45,13 @@ export interface SamplerInfo {
  * 可調整的參數 (Uniform) 資訊
  */
 export interface ParameterInfo {
-  /** Parameter identifier / 參數識別符 */
+  /** Id written on the //! PARAMETER line / //! PARAMETER 行上的 id */
+  id?: string;
+  /** Parameter identifier, resolved from //! VAR, a typed declaration or the block id / 參數識別符，取自 //! VAR、型別宣告或區塊 id */
   name: string;
-  /** Data type: 'float' or 'int' / 資料類型 */
+  /** Human-readable label from //! LABEL, defaults to the name / 來自 //! LABEL 的顯示名稱，預設為參數名稱 */
+  label?: string;
+  /** Data type: 'float', 'int', 'uint', 'bool' or a vector such as 'float3' / 資料類型：float、int、uint、bool 或向量如 float3 */
   type: string;
   /** Default value or array of values / 預設值或數值陣列 */
   default: number | number[];
@@ -45,6 +61,10 @@ export interface ParameterInfo {
   max?: number;
   /** Step value for UI adjustment / UI 調整的步進值 */
   step?: number;
+  /** Other lines of the block (declarations, comments), kept verbatim for the printer / 區塊內的其他行（宣告、註解），原樣保留供輸出器使用 */
+  lines?: string[];
+  /** Conditions from enclosing //! IF directives, all must hold / 外圍 //! IF 指令的條件，需全部成立 */
+  conditions?: string[];
 }
 
 /**
@@ -54,6 +74,8 @@ export interface ParameterInfo {
 export interface PassInfo {
   /** 1-based index of the pass / 通道索引 (從 1 開始) */
   index: number;
+  /** Id written on the //! PASS line, the index as text / //! PASS 行上的 id，即索引的文字 */
+  id?: string;
   /** Names of input textures / 輸入紋理名稱列表 */
   in: string[];
   /** Names of output textures / 輸出紋理名稱列表 */
@@ -64,6 +86,33 @@ export interface PassInfo {
   numThreads: [number, number, number];
   /** Optional block size for coordinate calculation / 用於座標計算的選用區塊大小 */
   blockSize?: number[];
+  /** Description from //! DESC / 來自 //! DESC 的描述 */
+  desc?: string;
+  /** Upper-cased //! STYLE: 'CS' (compute, default) or 'PS' (pixel shader wrapped into compute) / 通道風格：CS（計算，預設）或 PS（像素著色器，自動包裝為計算） */
+  style?: 'CS' | 'PS';
+  /** Conditions from enclosing //! IF directives, all must hold / 外圍 //! IF 指令的條件，需全部成立 */
+  conditions?: string[];
+}
+
+/**
+ * Effect-level metadata declared by global directives
+ * 由全域指令宣告的特效層級元數據
+ */
+export interface EffectMetadata {
+  /** Value of //! VERSION / //! VERSION 的值 */
+  version?: number;
+  /** Display name used for sorting, from //! SORT_NAME / 用於排序的顯示名稱 */
+  sortName?: string;
+  /** Output width expression from //! OUTPUT_WIDTH, e.g. "INPUT_WIDTH * 2" / //! OUTPUT_WIDTH 的輸出寬度運算式 */
+  outputWidth?: string;
+  /** Output height expression from //! OUTPUT_HEIGHT / //! OUTPUT_HEIGHT 的輸出高度運算式 */
+  outputHeight?: string;
+  /** Upper-cased flags from //! USE (e.g. MULADD) / //! USE 宣告的旗標 (大寫) */
+  use: Record<string, boolean>;
+  /** Upper-cased flags from //! CAPABILITY (e.g. FP16) / //! CAPABILITY 宣告的旗標 (大寫) */
+  capability: Record<string, boolean>;
+  /** Lines outside any block after the first directive (e.g. comments), kept verbatim for the printer / 第一個指令之後、區塊外的行（例如註解），原樣保留供輸出器使用 */
+  lines?: string[];
 }
 
 /**
@@ -81,4 +130,124 @@ export interface WGFXShaderInfo {
   passes: PassInfo[];
   /** Common code shared across all passes / 所有通道共享的通用代碼 */
   commonCode: string;
+  /** Effect-level metadata / 特效層級元數據 */
+  metadata: EffectMetadata;
+}
+
+/**
+ * Severity of a parser diagnostic
+ * 解析診斷訊息的嚴重程度
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A line/column position in the effect source (both 1-based)
+ * 特效原始碼中的行列位置 (皆從 1 開始)
+ */
+export interface SourcePosition {
+  /** 1-based line number / 行號 (從 1 開始) */
+  line: number;
+  /** 1-based column number / 欄號 (從 1 開始) */
+  column: number;
+}
+
+/**
+ * Origin of a line of code in the effect source
+ * 程式碼行在特效原始碼中的來源
+ */
+export interface SourceLine {
+  /** Id of the included file the line comes from; absent for the main source / 該行所在的 include 檔案 id，主檔案則省略 */
+  source?: string;
+  /** 1-based line number in that file / 該檔案中的行號 (從 1 開始) */
+  line: number;
+}
+
+/**
+ * Origins of the code lines of an effect, one entry per line of the code
+ * 特效程式碼每一行的來源，與程式碼逐行對應
+ */
+export interface EffectSourceMap {
+  /** Origins of the lines of commonCode / commonCode 每一行的來源 */
+  common: SourceLine[];
+  /** Origins of the lines of each pass code, keyed by pass index / 各通道程式碼每一行的來源，以通道索引為鍵 */
+  passes: Record<number, SourceLine[]>;
+  /** Origin of the //! TEXTURE directive of each texture, parallel to shaderInfo.textures / 各紋理之 //! TEXTURE 指令的來源，與 shaderInfo.textures 一一對應 */
+  textures: SourceLine[];
+  /** Origin of the //! SAMPLER directive of each sampler, parallel to shaderInfo.samplers / 各取樣器之 //! SAMPLER 指令的來源，與 shaderInfo.samplers 一一對應 */
+  samplers: SourceLine[];
+}
+
+/**
+ * Origin of a line of generated WGSL: the effect line and the block it was copied from
+ * 產生之 WGSL 行的來源：複製自的特效原始碼行與區塊
+ */
+export interface GeneratedLineOrigin extends SourceLine {
+  /** Block the line belongs to, 'COMMON' or 'PASS n' / 所屬區塊，'COMMON' 或 'PASS n' */
+  block: string;
 }
+
+/**
+ * A position in generated WGSL translated back to the effect source
+ * 由產生之 WGSL 位置轉換回特效原始碼的位置
+ */
+export interface MappedSourceLocation extends GeneratedLineOrigin {
+  /** 1-based column number / 欄號 (從 1 開始) */
+  column: number;
+}
+
+/**
+ * A problem found while parsing an effect file
+ * 解析特效檔案時發現的問題
+ */
+export interface ShaderDiagnostic {
+  /** Severity of the problem / 問題的嚴重程度 */
+  severity: DiagnosticSeverity;
+  /** Stable identifier, e.g. 'misplaced-directive' / 穩定的問題識別碼 */
+  code: string;
+  /** Human readable message / 可讀的錯誤訊息 */
+  message: string;
+  /** Id of the included file the problem is in; absent for the main source / 問題所在的 include 檔案 id，主檔案則省略 */
+  source?: string;
+  /** Start of the offending range / 問題範圍的起點 */
+  start: SourcePosition;
+  /** End of the offending range / 問題範圍的終點 */
+  end: SourcePosition;
+}
+
+/**
+ * A semantic problem found by validating a parsed effect
+ * 驗證解析後特效時發現的語意問題
+ */
+export interface ValidationIssue {
+  /** Severity of the problem / 問題的嚴重程度 */
+  severity: DiagnosticSeverity;
+  /** Stable identifier, e.g. 'unknown-texture' / 穩定的問題識別碼 */
+  code: string;
+  /** Human readable message / 可讀的錯誤訊息 */
+  message: string;
+  /** Index of the pass involved, if any / 相關的通道索引 */
+  pass?: number;
+  /** Name of the resource involved, if any / 相關的資源名稱 */
+  resource?: string;
+}
+
+/**
+ * A file returned by an include resolver
+ * Include 解析器回傳的檔案
+ */
+export interface IncludeFile {
+  /** Canonical id (absolute path or URL), used for cycle detection and diagnostics / 標準化 id (絕對路徑或 URL)，用於循環偵測與診斷 */
+  id: string;
+  /** File content / 檔案內容 */
+  code: string;
+}
+
+/**
+ * Resolves an //! INCLUDE path relative to the including file
+ * 解析 //! INCLUDE 路徑 (相對於引用它的檔案)
+ *
+ * @param path - Path as written in the directive / 指令中撰寫的路徑
+ * @param from - Id of the including file, undefined for the main source / 引用檔案的 id，主檔案為 undefined
+ * @returns The resolved file, or undefined if it does not exist / 解析後的檔案，不存在則回傳 undefined
+ */
+export type IncludeResolver = (path: string, from?: string) => IncludeFile | undefined | Promise<IncludeFile | undefined>;
@@ -0,0 +1,157 @@
+/**
+ * @module ExpressionEvaluator
+ * @description Numeric expression evaluator shared by texture sizes and conditional directives.
+ * ---
+ * 紋理尺寸與條件編譯指令共用的數值運算式求值器。
+ */
+
+/**
+ * Options for {@link ExpressionEvaluator.evaluate}.
+ * ---
+ * {@link ExpressionEvaluator.evaluate} 的選項。
+ *
+ * @category Interfaces
+ */
+export interface EvaluateOptions {
+    /**
+     * Value used for identifiers missing from the context. When omitted, missing identifiers throw.
+     * @zh 內容中不存在之識別符所使用的值；省略時遇到未定義識別符會拋出錯誤
+     */
+    undefinedValue?: number;
+}
+
+/**
+ * Recursive-descent evaluator for the small expression language used by effect files.
+ * ---
+ * 特效檔案所使用之小型運算式語言的遞迴下降求值器。
+ *
+ * Supported operators, from lowest to highest precedence / 支援的運算子（優先順序由低至高）：
+ * `||`, `&&`, `== != < <= > >=`, `+ -`, `* /`, unary `! -`, parentheses.
+ * Booleans are represented as 1 and 0 / 布林值以 1 與 0 表示。
+ *
+ * @group Utils
+ * @category Utility
+ *
+ * @example
+ * ```ts
+ * ExpressionEvaluator.evaluate('INPUT_WIDTH * 2', { INPUT_WIDTH: 1280 }); // 2560
+ * ExpressionEvaluator.evaluate('INPUT_WIDTH >= 1920 && !USE_FAST', { INPUT_WIDTH: 1280 }, { undefinedValue: 0 }); // 0
+ * ```
+ */
+export class ExpressionEvaluator {
+    /**
+     * Evaluate an expression against a set of named values.
+     * ---
+     * 以具名數值求得運算式的結果。
+     *
+     * @param expr - Expression string or a plain number / 運算式字串或數值
+     * @param ctx - Named values (e.g. INPUT_WIDTH) / 具名數值（例如 INPUT_WIDTH）
+     * @param options - Evaluation options / 求值選項
+     * @returns The numeric result / 數值結果
+     * @throws {Error} 當運算式含有未定義變數或非預期字元時拋出錯誤
+     */
+    public static evaluate(expr: string | number, ctx: Record<string, number>, options: EvaluateOptions = {}): number {
+        if (typeof expr === 'number') return expr;
+
+        expr = expr.replace(/\s+/g, ''); // Remove spaces / 移除空白
+        let pos = 0;
+
+        const peek = (token: string): boolean => expr.startsWith(token, pos);
+
+        // Internal parser steps / 內部解析步驟
+        const parsePrimary = (): number => {
+            let startKey = pos;
+            if (/[a-zA-Z_]/.test(expr[pos])) { // Handle variables / 處理變數
+                while (pos < expr.length && /[a-zA-Z0-9_]/.test(expr[pos])) pos++;
+                const key = expr.slice(startKey, pos);
+                if (key in ctx) return Number(ctx[key]);
+                if (options.undefinedValue !== undefined) return options.undefinedValue;
+                throw new Error(`Undefined variable: ${key}`);
+            } else if (/[0-9.]/.test(expr[pos])) { // Handle constants / 處理常數
+                while (pos < expr.length && /[0-9.]/.test(expr[pos])) pos++;
+                return parseFloat(expr.slice(startKey, pos));
+            } else if (expr[pos] === '(') { // Handle parenthesis / 處理括號
+                pos++;
+                const val = parseOr();
+                if (expr[pos] !== ')') throw new Error(`Expected ')' at ${pos}`);
+                pos++; // skip ')'
+                return val;
+            }
+            throw new Error(`Unexpected character at ${pos}: ${expr[pos]}`);
+        };
+
+        const parseUnary = (): number => {
+            if (expr[pos] === '!') {
+                pos++;
+                return parseUnary() ? 0 : 1;
+            }
+            if (expr[pos] === '-') {
+                pos++;
+                return -parseUnary();
+            }
+            return parsePrimary();
+        };
+
+        const parseFactor = (): number => {
+            let val = parseUnary();
+            while (pos < expr.length && (expr[pos] === '*' || expr[pos] === '/')) {
+                const op = expr[pos++];
+                const right = parseUnary();
+                val = (op === '*') ? val * right : val / right;
+            }
+            return val;
+        };
+
+        const parseExpression = (): number => {
+            let val = parseFactor();
+            while (pos < expr.length && (expr[pos] === '+' || expr[pos] === '-')) {
+                const op = expr[pos++];
+                const right = parseFactor();
+                val = (op === '+') ? val + right : val - right;
+            }
+            return val;
+        };
+
+        const parseComparison = (): number => {
+            const left = parseExpression();
+            const op = ['==', '!=', '<=', '>=', '<', '>'].find(peek);
+            if (!op) return left;
+            pos += op.length;
+            const right = parseExpression();
+            switch (op) {
+                case '==': return left === right ? 1 : 0;
+                case '!=': return left !== right ? 1 : 0;
+                case '<=': return left <= right ? 1 : 0;
+                case '>=': return left >= right ? 1 : 0;
+                case '<': return left < right ? 1 : 0;
+                default: return left > right ? 1 : 0;
+            }
+        };
+
+        const parseAnd = (): number => {
+            let val = parseComparison();
+            while (peek('&&')) {
+                pos += 2;
+                const right = parseComparison();
+                val = (val && right) ? 1 : 0;
+            }
+            return val;
+        };
+
+        const parseOr = (): number => {
+            let val = parseAnd();
+            while (peek('||')) {
+                pos += 2;
+                const right = parseAnd();
+                val = (val || right) ? 1 : 0;
+            }
+            return val;
+        };
+
+        const result = parseOr();
+        if (pos < expr.length) {
+            throw new Error(`Unexpected character at ${pos}: ${expr[pos]}`);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,131 @@
+/// <reference types="@webgpu/types" />
+
+/**
+ * @module TextureFormats
+ * @description Texture formats accepted by `//! FORMAT` and their capabilities.
+ * ---
+ * `//! FORMAT` 可接受的紋理格式及其能力。
+ */
+
+/**
+ * Capabilities of a texture format.
+ * ---
+ * 紋理格式的能力。
+ *
+ * @category Interfaces
+ */
+export interface TextureFormatInfo {
+    /** WebGPU format, also the WGSL texel format / WebGPU 格式，亦為 WGSL 像素格式 */
+    format: GPUTextureFormat;
+    /** Usable as a storage texture without optional features / 無需選用功能即可作為儲存紋理 */
+    storage: boolean;
+    /** Usable with a filtering sampler without optional features / 無需選用功能即可搭配過濾取樣器 */
+    filterable: boolean;
+    /**
+     * Requirement for `read_write` storage access: 'core' needs only the WGSL language feature,
+     * 'texture-formats-tier2' also needs that device feature; undefined when never supported.
+     * @zh `read_write` 儲存存取的需求：'core' 只需 WGSL 語言功能，'texture-formats-tier2' 另需該裝置功能；不支援時為 undefined
+     */
+    readWrite?: 'core' | 'texture-formats-tier2';
+}
+
+/**
+ * Supported formats: [format, storage, filterable, read-write requirement].
+ * 支援的格式：[格式, 可儲存, 可過濾, 讀寫存取需求]。
+ */
+const FORMATS: [GPUTextureFormat, boolean, boolean, TextureFormatInfo['readWrite']?][] = [
+    ['r8unorm', false, true],
+    ['r8snorm', false, true],
+    ['rg8unorm', false, true],
+    ['rg8snorm', false, true],
+    ['rgba8unorm', true, true, 'texture-formats-tier2'],
+    ['rgba8unorm-srgb', false, true],
+    ['rgba8snorm', true, true],
+    ['bgra8unorm', false, true],
+    ['bgra8unorm-srgb', false, true],
+    ['r16float', false, true],
+    ['rg16float', false, true],
+    ['rgba16float', true, true, 'texture-formats-tier2'],
+    ['r32float', true, false, 'core'],
+    ['rg32float', true, false],
+    ['rgba32float', true, false, 'texture-formats-tier2'],
+    ['rgb10a2unorm', false, true],
+    ['rg11b10ufloat', false, true],
+];
+
+/**
+ * Magpie (DXGI style) format names and their WebGPU equivalents.
+ * Magpie（DXGI 風格）格式名稱與其對應的 WebGPU 格式。
+ */
+const MAGPIE_ALIASES: Record<string, GPUTextureFormat> = {
+    R8_UNORM: 'r8unorm',
+    R8_SNORM: 'r8snorm',
+    R8G8_UNORM: 'rg8unorm',
+    R8G8_SNORM: 'rg8snorm',
+    R8G8B8A8_UNORM: 'rgba8unorm',
+    R8G8B8A8_SNORM: 'rgba8snorm',
+    B8G8R8A8_UNORM: 'bgra8unorm',
+    R16_FLOAT: 'r16float',
+    R16G16_FLOAT: 'rg16float',
+    R16G16B16A16_FLOAT: 'rgba16float',
+    R32_FLOAT: 'r32float',
+    R32G32_FLOAT: 'rg32float',
+    R32G32B32A32_FLOAT: 'rgba32float',
+    R10G10B10A2_UNORM: 'rgb10a2unorm',
+    R11G11B10_FLOAT: 'rg11b10ufloat',
+};
+
+/**
+ * Lookup of the texture formats effects may declare.
+ * ---
+ * 特效可宣告之紋理格式的查詢表。
+ * 同時接受 WebGPU 名稱（如 `rg16float`）與 Magpie 名稱（如 `R16G16_FLOAT`），不分大小寫。
+ *
+ * @group Utils
+ * @category Utility
+ *
+ * @example
+ * ```ts
+ * TextureFormats.resolve('R16G16B16A16_FLOAT'); // { format: 'rgba16float', storage: true, filterable: true }
+ * TextureFormats.resolve('r32float');           // { format: 'r32float', storage: true, filterable: false }
+ * ```
+ */
+export class TextureFormats {
+    /** Format of textures without `//! FORMAT` / 未指定 `//! FORMAT` 之紋理的格式 */
+    public static readonly DEFAULT: GPUTextureFormat = 'rgba16float';
+
+    /**
+     * Resolve a format name.
+     * ---
+     * 解析格式名稱。
+     *
+     * @param name - Format name from the effect, or undefined for the default / 特效中的格式名稱，undefined 則使用預設格式
+     * @returns The format capabilities, or undefined when the format is not supported / 格式能力；不支援時為 undefined
+     */
+    public static resolve(name?: string): TextureFormatInfo | undefined {
+        const key = (name ?? TextureFormats.DEFAULT).trim();
+        const format = MAGPIE_ALIASES[key.toUpperCase()] ?? key.toLowerCase();
+        const entry = FORMATS.find(([f]) => f === format);
+        return entry ? { format: entry[0], storage: entry[1], filterable: entry[2], readWrite: entry[3] } : undefined;
+    }
+
+    /**
+     * List the formats a device can bind as `read_write` storage textures.
+     * ---
+     * 列出裝置可作為 `read_write` 儲存紋理綁定的格式。
+     * 需要 WGSL 語言功能 `readonly_and_readwrite_storage_textures`；
+     * 除 r32float 外的格式另需裝置功能 `texture-formats-tier2`。
+     *
+     * @param device - The device pipelines are created on / 建立管線的裝置
+     * @returns Formats usable with `read_write` access / 可使用 `read_write` 存取的格式
+     */
+    public static readWriteFormats(device: GPUDevice): Set<GPUTextureFormat> {
+        // Node.js bindings may have no navigator / Node.js 綁定中可能沒有 navigator
+        const languageFeatures = typeof navigator !== 'undefined' ? navigator.gpu?.wgslLanguageFeatures : undefined;
+        if (!languageFeatures?.has('readonly_and_readwrite_storage_textures')) return new Set();
+
+        return new Set(FORMATS
+            .filter(([, , , readWrite]) => readWrite === 'core' || (readWrite !== undefined && device.features.has(readWrite)))
+            .map(([format]) => format));
+    }
+}
@@ -0,0 +1,100 @@
+// test_bind_groups.js
+// Behaviour of the bind group cache: reuse across frames, rebuild when a bound resource is recreated.
+// 綁定組快取的行為測試：跨幀重複使用，綁定的資源被重新建立時才重建。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, WGSLCodeGenerator, PipelineManager } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUShaderStage ??= { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 };
+
+const SOURCE = `//! TEXTURE
+var INPUT: texture_2d<f32>;
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+//! SAMPLER
+var sam: sampler;
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! NUM_THREADS 8, 8
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    let uv = vec2<f32>(id.xy) / vec2<f32>(scene.outputSize);
+    textureStore(OUTPUT, id.xy, textureSampleLevel(INPUT, sam, uv, 0.0));
+}`;
+
+/** Pipeline manager over fake resources, recording bind groups and dispatches / 使用假資源、記錄綁定組與分派的管線管理器 */
+async function setup() {
+    const created = { bindGroups: [], dispatches: [] };
+    const device = {
+        pushErrorScope: () => {},
+        popErrorScope: async () => null,
+        createShaderModule: () => ({ getCompilationInfo: async () => ({ messages: [] }) }),
+        createBindGroupLayout: descriptor => descriptor,
+        createPipelineLayout: descriptor => descriptor,
+        createComputePipelineAsync: async () => ({}),
+        createBindGroup: descriptor => (created.bindGroups.push(descriptor), descriptor),
+        createSampler: descriptor => descriptor
+    };
+    const views = new Map([['INPUT', { view: 'INPUT' }], ['OUTPUT', { view: 'OUTPUT' }]]);
+    const scene = { buffer: 'scene' };
+    const resources = {
+        views,
+        getSceneBuffer: () => scene,
+        getUniformBuffer: () => null,
+        getSampler: () => undefined,
+        getTextureView: name => views.get(name),
+        getTexture: () => ({ width: 20, height: 10 })
+    };
+    const shaderInfo = parse(SOURCE);
+    const pipelines = new PipelineManager(device, resources);
+    await pipelines.createPipelines(shaderInfo, new WGSLCodeGenerator().generate(shaderInfo));
+
+    const encoder = {
+        beginComputePass: () => ({
+            setPipeline: () => {},
+            setBindGroup: (group, bindGroup) => created.dispatches.push(bindGroup),
+            dispatchWorkgroups: (x, y, z) => created.dispatches.push([x, y, z]),
+            end: () => {}
+        })
+    };
+    const dispatch = () => pipelines.dispatchPass(shaderInfo.passes[0], encoder);
+    return { created, resources, pipelines, dispatch, shaderInfo };
+}
+
+test('bind groups are created once and reused across frames', async () => {
+    const { created, dispatch } = await setup();
+    dispatch();
+    dispatch();
+
+    assert.equal(created.bindGroups.length, 1);
+    assert.equal(created.dispatches[0], created.dispatches[2]);
+    // The grid covers the OUTPUT size / 分派網格涵蓋 OUTPUT 尺寸
+    assert.deepEqual(created.dispatches[1], [3, 2, 1]);
+    // Samplers missing from the resource manager use the linear fallback / 資源管理器中缺少的取樣器改用線性備援取樣器
+    const sampler = created.bindGroups[0].entries.find(e => e.resource.magFilter);
+    assert.equal(sampler.resource.magFilter, 'linear');
+});
+
+test('a recreated texture view rebuilds the bind groups of the pass', async () => {
+    const { created, resources, dispatch } = await setup();
+    dispatch();
+    resources.views.set('INPUT', { view: 'INPUT resized' });
+    dispatch();
+    dispatch();
+
+    assert.equal(created.bindGroups.length, 2);
+    assert.ok(created.bindGroups[1].entries.some(e => e.resource.view === 'INPUT resized'));
+});
+
+test('recompiling pipelines drops the cached bind groups', async () => {
+    const { created, pipelines, dispatch, shaderInfo } = await setup();
+    dispatch();
+    await pipelines.createPipelines(shaderInfo, new WGSLCodeGenerator().generate(shaderInfo));
+    dispatch();
+
+    assert.equal(created.bindGroups.length, 2);
+    pipelines.dispose();
+    assert.throws(dispatch, /Pipeline for pass 1 not found/);
+});
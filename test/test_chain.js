@@ -0,0 +1,99 @@
+// test_chain.js
+// Behaviour of effect chains: stage sizing, shared textures and namespaced parameters.
+// 特效鏈的行為測試：階段尺寸、共用紋理與命名空間參數。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WGFXChain } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUTextureUsage ??= { COPY_SRC: 0x01, COPY_DST: 0x02, TEXTURE_BINDING: 0x04, STORAGE_BINDING: 0x08, RENDER_ATTACHMENT: 0x10 };
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_DST: 0x0008, UNIFORM: 0x0040 };
+globalThis.GPUShaderStage ??= { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 };
+
+/** Device accepting every call, recording uniform writes / 接受所有呼叫並記錄 Uniform 寫入的裝置 */
+function fakeDevice(writes = []) {
+    return {
+        features: new Set(),
+        createTexture: ({ size: [width, height], format }) => ({ width, height, format, createView: () => ({}), destroy: () => {} }),
+        createBuffer: () => ({ destroy: () => {} }),
+        createSampler: descriptor => descriptor,
+        createShaderModule: () => ({ getCompilationInfo: async () => ({ messages: [] }) }),
+        createBindGroupLayout: descriptor => descriptor,
+        createPipelineLayout: descriptor => descriptor,
+        createComputePipelineAsync: async () => ({}),
+        pushErrorScope: () => {},
+        popErrorScope: async () => null,
+        queue: { writeBuffer: (buffer, offset, data) => writes.push([buffer, data]) }
+    };
+}
+
+/** A one-pass effect with a Strength parameter and optional directives / 帶有 Strength 參數與選用指令的單通道特效 */
+function effect(directives = '') {
+    return `${directives}
+//! PARAMETER
+//! DEFAULT 0.5
+float Strength;
+
+//! TEXTURE
+var INPUT: texture_2d<f32>;
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, id.xy, textureLoad(INPUT, id.xy, 0) * Strength);
+}`;
+}
+
+test('each stage reads the previous OUTPUT and is sized from it', async () => {
+    const chain = await WGFXChain.create({
+        device: fakeDevice(), width: 320, height: 180,
+        effects: [
+            { name: 'Denoise', effectCode: effect() },
+            { name: 'Upscale', effectCode: effect('//! OUTPUT_WIDTH INPUT_WIDTH * 2\n//! OUTPUT_HEIGHT INPUT_HEIGHT * 2') },
+            { effectCode: effect(), outputScale: 0.5 }
+        ]
+    });
+    const [denoise, upscale, last] = chain.stages.map(s => s.runtime.resourceManager);
+
+    // No copy between stages / 階段之間不複製
+    assert.equal(upscale.getTexture('INPUT'), denoise.getTexture('OUTPUT'));
+    assert.equal(last.getTexture('INPUT'), upscale.getTexture('OUTPUT'));
+    assert.deepEqual([upscale.getTexture('OUTPUT').width, upscale.getTexture('OUTPUT').height], [640, 360]);
+    assert.equal(chain.getOutput(), last.getTexture('OUTPUT'));
+    assert.deepEqual([chain.getOutput().width, chain.getOutput().height], [320, 180]);
+
+    await chain.resize(100, 50);
+    assert.deepEqual([upscale.getTexture('OUTPUT').width, chain.getOutput().width], [200, 100]);
+    assert.equal(last.getTexture('INPUT'), upscale.getTexture('OUTPUT'));
+    chain.dispose();
+});
+
+test('parameters are namespaced by stage', async () => {
+    const writes = [];
+    const chain = await WGFXChain.create({ device: fakeDevice(writes), width: 8, height: 8, effects: [effect(), { name: 'Sharpen', effectCode: effect() }] });
+
+    assert.deepEqual(chain.getParameters().map(p => [p.name, p.stage, p.parameter, p.default]), [
+        ['stage0/Strength', 'stage0', 'Strength', 0.5], ['Sharpen/Strength', 'Sharpen', 'Strength', 0.5]
+    ]);
+
+    writes.length = 0;
+    chain.updateUniforms({ 'Sharpen/Strength': 0.25, 'Missing/Strength': 1, Strength: 1 });
+    // Only the named stage's buffer is written / 只寫入指定階段的緩衝區
+    assert.equal(writes.length, 1);
+    assert.equal(writes[0][0], chain.stages[1].runtime.resourceManager.uniformBuffer);
+    assert.deepEqual([...new Float32Array(writes[0][1])], [0.25]);
+});
+
+test('empty chains, invalid stage names and failing stages are rejected', async () => {
+    const create = effects => WGFXChain.create({ device: fakeDevice(), width: 8, height: 8, effects });
+
+    await assert.rejects(create([]), /Must provide at least one effect/);
+    await assert.rejects(create([{ name: 'A', effectCode: effect() }, { name: 'A', effectCode: effect() }]), /Stage name "A" must be unique/);
+    await assert.rejects(create([{ name: 'A/B', effectCode: effect() }]), /must not contain "\/"/);
+    await assert.rejects(create([effect(), '//! PASS 1\n//! IN INPUT\n//! OUT OUTPUT\nfn Pass2() {}']), /Stage "stage1": /);
+});
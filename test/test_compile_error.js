@@ -0,0 +1,113 @@
+// test_compile_error.js
+// Behaviour of pipeline compilation failures: every failed pass is collected into one WGFXCompileError.
+// 管線編譯失敗的行為測試：所有失敗的通道都收集至同一個 WGFXCompileError。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, WGSLCodeGenerator, PipelineManager, WGFXCompileError } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUShaderStage ??= { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 };
+
+const SOURCE = `//! TEXTURE
+var tmp: texture_2d<f32>;
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT tmp
+//! DESC Down
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(tmp, id.xy, vec4<f32>(1.0));
+}
+
+//! PASS 2
+//! IN tmp
+//! OUT OUTPUT
+fn Pass2(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, id.xy, vec4<f32>(0.0));
+}
+
+//! PASS 3
+//! IN tmp
+//! OUT OUTPUT
+fn Pass3(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, id.xy, vec4<f32>(0.5));
+}`;
+
+/**
+ * Device reporting compiler messages for modules whose code contains a key of `messages`,
+ * and rejecting pipelines whose code contains `rejected`.
+ * 對程式碼包含 `messages` 鍵的模組回報編譯訊息，並拒絕程式碼包含 `rejected` 的管線的裝置。
+ */
+function fakeDevice(messages, rejected) {
+    return {
+        pushErrorScope: () => {},
+        popErrorScope: async () => null,
+        createShaderModule: ({ code }) => ({
+            code,
+            getCompilationInfo: async () => ({
+                messages: Object.entries(messages).filter(([key]) => code.includes(key)).flatMap(([, m]) => m)
+            })
+        }),
+        createBindGroupLayout: descriptor => descriptor,
+        createPipelineLayout: descriptor => descriptor,
+        createComputePipelineAsync: async ({ compute }) => {
+            if (compute.module.code.includes(rejected)) throw new Error('entry point layout mismatch');
+            return {};
+        }
+    };
+}
+
+function generate() {
+    const { shaderInfo, sourceMap } = parse(SOURCE, { recover: true });
+    const modules = new WGSLCodeGenerator().generate(shaderInfo, sourceMap);
+    return { shaderInfo, modules };
+}
+
+test('every failed pass is reported with effect locations, warnings included', async () => {
+    const { shaderInfo, modules } = generate();
+    const storeLine = modules[0].wgslCode.split('\n').findIndex(l => l.includes('textureStore(tmp')) + 1;
+    const device = fakeDevice({
+        'textureStore(tmp': [
+            { type: 'warning', message: 'unused variable', lineNum: 1, linePos: 1 },
+            { type: 'error', message: 'type mismatch', lineNum: storeLine, linePos: 5 }
+        ]
+    }, 'vec4<f32>(0.5)');
+    const pipelines = new PipelineManager(device, null);
+
+    const error = await pipelines.createPipelines(shaderInfo, modules).then(() => null, e => e);
+    assert.ok(error instanceof WGFXCompileError);
+    assert.deepEqual(error.passes.map(p => [p.passIndex, p.desc]), [[1, 'Down'], [3, undefined]]);
+    assert.deepEqual(error.passes[0].messages.map(m => [m.type, m.location?.line]), [['warning', undefined], ['error', 12]]);
+    assert.equal(error.passes[1].messages[0].message, 'entry point layout mismatch');
+    assert.equal(error.message, [
+        'Failed to compile 2 pass(es):',
+        'PASS 1 (Down):',
+        '  effect:12:5 type mismatch',
+        'PASS 3:',
+        '  pipeline entry point layout mismatch'
+    ].join('\n'));
+    // No pass is left half-created / 不保留部分建立的管線
+    assert.equal(pipelines.pipelines.size, 0);
+});
+
+test('passes compile when no message is an error', async () => {
+    const { shaderInfo, modules } = generate();
+    const pipelines = new PipelineManager(fakeDevice({ 'textureStore(OUTPUT': [{ type: 'info', message: 'note', lineNum: 0, linePos: 0 }] }), null);
+
+    await pipelines.createPipelines(shaderInfo, modules);
+    assert.deepEqual([...pipelines.pipelines.keys()], [1, 2, 3]);
+});
+
+test('messages without an effect location name the generated line', () => {
+    const error = new WGFXCompileError([{ passIndex: 2, messages: [
+        { type: 'error', message: 'bad', lineNum: 7, linePos: 3 },
+        { type: 'error', message: 'worse', lineNum: 8, linePos: 1, location: { source: 'lib.wgsl', line: 4, column: 1, block: 'COMMON' } }
+    ] }]);
+
+    assert.equal(error.name, 'WGFXCompileError');
+    assert.equal(error.message, 'Failed to compile 1 pass(es):\nPASS 2:\n  generated 7:3 bad\n  lib.wgsl:4:1 worse');
+});
@@ -0,0 +1,79 @@
+// test_conditionals.js
+// Behaviour of the expression evaluator and of //! IF resolution.
+// 運算式求值器與 //! IF 條件解析的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, ExpressionEvaluator, WGSLCodeGenerator } from '../dist/wgfx.esm.js';
+
+const SIZE = { INPUT_WIDTH: 1280, INPUT_HEIGHT: 720 };
+
+test('arithmetic follows the usual precedence and associativity', () => {
+    assert.equal(ExpressionEvaluator.evaluate('INPUT_WIDTH * 2', SIZE), 2560);
+    assert.equal(ExpressionEvaluator.evaluate('(INPUT_WIDTH + INPUT_HEIGHT) / 2', SIZE), 1000);
+    assert.equal(ExpressionEvaluator.evaluate('1 + 2 * 3', {}), 7);
+    assert.equal(ExpressionEvaluator.evaluate('3 - 1 - 1', {}), 1);
+    assert.equal(ExpressionEvaluator.evaluate('8 / 2 / 2', {}), 2);
+    assert.equal(ExpressionEvaluator.evaluate('-INPUT_WIDTH + 1', SIZE), -1279);
+    assert.equal(ExpressionEvaluator.evaluate(42, {}), 42);
+});
+
+test('logical and comparison operators return 1 or 0', () => {
+    assert.equal(ExpressionEvaluator.evaluate('INPUT_WIDTH >= 1920', SIZE), 0);
+    assert.equal(ExpressionEvaluator.evaluate('INPUT_WIDTH == 1280 || MISSING', SIZE, { undefinedValue: 0 }), 1);
+    assert.equal(ExpressionEvaluator.evaluate('INPUT_WIDTH > 1000 && !FAST', SIZE, { undefinedValue: 0 }), 1);
+    assert.equal(ExpressionEvaluator.evaluate('!0', {}), 1);
+});
+
+test('undefined identifiers and malformed expressions throw', () => {
+    assert.throws(() => ExpressionEvaluator.evaluate('FOO + 1', SIZE), /Undefined variable: FOO/);
+    assert.throws(() => ExpressionEvaluator.evaluate('(INPUT_WIDTH', SIZE), /Expected '\)'/);
+    assert.throws(() => ExpressionEvaluator.evaluate('INPUT_WIDTH $ 2', SIZE), /Unexpected character/);
+});
+
+const CONDITIONAL = `//! COMMON
+const A = 1;
+//! IF FAST
+const B = 1;
+//! ELSE
+const B = 2;
+//! ENDIF
+
+//! IF !FAST
+//! TEXTURE
+var tmp: texture_2d<f32>;
+//! ENDIF
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! IF INPUT_WIDTH > 1000
+let big = 1;
+//! ENDIF
+fn main() {}
+`;
+
+test('resolving conditions keeps the selected branch and blanks the others', () => {
+    const generator = new WGSLCodeGenerator();
+    const parsed = parse(CONDITIONAL);
+
+    const fast = generator.resolveConditionals(parsed, { ...SIZE, FAST: 1 });
+    assert.equal(fast.commonCode, 'const A = 1;\n\nconst B = 1;\n\n\n');
+    assert.deepEqual(fast.textures, []);
+    assert.equal(fast.passes[0].code, '\nlet big = 1;\n\nfn main() {}');
+
+    // Undefined identifiers count as 0 / 未定義的識別符視為 0
+    const slow = generator.resolveConditionals(parsed, { INPUT_WIDTH: 640 });
+    assert.equal(slow.commonCode, 'const A = 1;\n\n\n\nconst B = 2;\n');
+    assert.deepEqual(slow.textures.map(t => t.name), ['tmp']);
+    assert.equal(slow.passes[0].code, '\n\n\nfn main() {}');
+
+    // Line counts are kept so that source maps stay valid / 保留行數，讓行對應表維持正確
+    assert.equal(slow.passes[0].code.split('\n').length, parsed.passes[0].code.split('\n').length);
+    assert.equal(parsed.textures[0].conditions[0], '!FAST');
+});
+
+test('an invalid condition names the expression', () => {
+    const parsed = parse('//! IF INPUT_WIDTH $ 2\n//! TEXTURE\nvar t: texture_2d<f32>;\n//! ENDIF\n');
+    assert.throws(() => new WGSLCodeGenerator().resolveConditionals(parsed, SIZE), /Invalid condition "INPUT_WIDTH \$ 2"/);
+});
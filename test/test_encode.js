@@ -0,0 +1,93 @@
+// test_encode.js
+// Behaviour of encoding into a caller-provided command encoder.
+// 記錄至呼叫端提供之指令編碼器的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WGFX } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUTextureUsage ??= { COPY_SRC: 0x01, COPY_DST: 0x02, TEXTURE_BINDING: 0x04, STORAGE_BINDING: 0x08, RENDER_ATTACHMENT: 0x10 };
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_DST: 0x0008, UNIFORM: 0x0040 };
+globalThis.GPUShaderStage ??= { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 };
+
+const EFFECT = `//! TEXTURE
+var INPUT: texture_2d<f32>;
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! NUM_THREADS 8, 8
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, id.xy, textureLoad(INPUT, id.xy, 0));
+}`;
+
+function texture(width, height, format, label) {
+    return { width, height, format, label, createView: () => ({ view: label }), destroy: () => {} };
+}
+
+/** Device accepting every call; submissions are counted / 接受所有呼叫並計算提交次數的裝置 */
+function fakeDevice(log) {
+    return {
+        features: new Set(),
+        createTexture: ({ size: [width, height], format }) => texture(width, height, format, 'internal'),
+        createBuffer: () => ({ destroy: () => {} }),
+        createSampler: descriptor => descriptor,
+        createShaderModule: () => ({ getCompilationInfo: async () => ({ messages: [] }) }),
+        createBindGroupLayout: descriptor => descriptor,
+        createPipelineLayout: descriptor => descriptor,
+        createComputePipelineAsync: async () => ({}),
+        createBindGroup: descriptor => descriptor,
+        pushErrorScope: () => {},
+        popErrorScope: async () => null,
+        queue: { writeBuffer: () => {}, submit: () => log.push('submit') }
+    };
+}
+
+/** Command encoder recording copies, bind groups and dispatches / 記錄複製、綁定組與分派的指令編碼器 */
+function fakeEncoder(log) {
+    return {
+        copyTextureToTexture: (source, destination, size) => log.push(['copy', source.texture.label, size]),
+        beginComputePass: () => ({
+            setPipeline: () => {},
+            setBindGroup: (group, bindGroup) => log.push(['bind', bindGroup.entries.map(e => e.resource.view).filter(Boolean)]),
+            dispatchWorkgroups: (x, y) => log.push(['dispatch', x, y]),
+            end: () => {}
+        })
+    };
+}
+
+test('passes are recorded into the caller encoder with the caller output, without submitting', async () => {
+    const log = [];
+    const wgfx = await WGFX.create({ device: fakeDevice(log), effectCode: EFFECT, width: 32, height: 16 });
+    const input = texture(32, 16, 'rgba8unorm', 'camera');
+    const output = texture(32, 16, 'rgba16float', 'target');
+
+    wgfx.encode(fakeEncoder(log), { input, output });
+    assert.deepEqual(log, [
+        ['copy', 'camera', [32, 16]],
+        ['bind', ['internal', 'target']],
+        ['dispatch', 4, 2]
+    ]);
+
+    // OUTPUT is restored for later frames / 之後的影格使用還原的 OUTPUT
+    log.length = 0;
+    wgfx.encode(fakeEncoder(log), { input, output: wgfx.getOutputView() });
+    assert.deepEqual(log[1], ['bind', ['internal', 'internal']]);
+});
+
+test('inputs and outputs that do not match the effect are rejected', async () => {
+    const wgfx = await WGFX.create({ device: fakeDevice([]), effectCode: EFFECT, width: 32, height: 16 });
+    const encoder = fakeEncoder([]);
+    const output = texture(32, 16, 'rgba16float', 'target');
+
+    assert.throws(() => wgfx.encode(encoder, { input: texture(16, 16, 'rgba8unorm'), output }), /Input dimensions \(16x16\) do not match initialized dimensions \(32x16\)/);
+    assert.throws(() => wgfx.encode(encoder, { input: texture(32, 16, 'bgra8unorm'), output }), /Input texture format bgra8unorm does not match INPUT format rgba8unorm/);
+    assert.throws(
+        () => wgfx.encode(encoder, { input: texture(32, 16, 'rgba8unorm'), output: texture(64, 32, 'rgba16float') }),
+        /Output texture must be 32x16 rgba16float, got 64x32 rgba16float/
+    );
+});
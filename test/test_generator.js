@@ -0,0 +1,110 @@
+// test_generator.js
+// Behaviour of the WGSL code generator: entry points, bindings and line maps.
+// WGSL 程式碼產生器的行為測試：進入點、綁定與行對應表。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, WGSLCodeGenerator } from '../dist/wgfx.esm.js';
+
+const generator = new WGSLCodeGenerator();
+
+/** Generate the modules of a source / 產生原始碼的各模組 */
+function generate(source) {
+    const { shaderInfo, sourceMap } = parse(source, { recover: true });
+    return generator.generate(shaderInfo, sourceMap);
+}
+
+test('PS passes are wrapped into a compute entry point writing their OUT texture', () => {
+    const [module] = generate(`//! TEXTURE
+var tmp: texture_2d<f32>;
+//! PASS 1
+//! STYLE PS
+//! IN INPUT
+//! OUT tmp
+fn Pass1(pos: vec2<f32>) -> vec4<f32> {
+    return vec4<f32>(pos, 0.0, 1.0);
+}
+`);
+    assert.match(module.wgslCode, /@compute @workgroup_size\(8, 8, 1\)\nfn main_cs\(@builtin\(global_invocation_id\) id: vec3<u32>\) \{/);
+    assert.match(module.wgslCode, /let outputSize = textureDimensions\(tmp\);/);
+    assert.match(module.wgslCode, /textureStore\(tmp, id\.xy, Pass1\(pos\)\);/);
+    assert.deepEqual(module.resources.workgroupSize, [8, 8, 1]);
+});
+
+test('CS passes rename PassN to main_cs, ignoring commented-out copies', () => {
+    const [module] = generate(`//! TEXTURE
+var tmp: texture_2d<f32>;
+//! PASS 1
+//! NUM_THREADS 16, 8
+//! IN INPUT
+//! OUT tmp
+// fn Pass1(old: u32)
+@compute @workgroup_size(4, 4, 1)
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(tmp, id.xy, vec4<f32>(1.0));
+}
+`);
+    assert.match(module.wgslCode, /^\/\/ fn Pass1\(old: u32\)$/m);
+    assert.match(module.wgslCode, /^@compute @workgroup_size\(16, 8, 1\) fn main_cs\(@builtin/m);
+    assert.doesNotMatch(module.wgslCode, /workgroup_size\(4, 4, 1\)/);
+});
+
+test('a pass without its PassN function is rejected before pipeline creation', () => {
+    assert.throws(() => generate(`//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn helper() {}
+fn main() {}
+`), /PASS 1: entry function Pass1 not found/);
+    assert.throws(() => generate(`//! PASS 1
+//! STYLE PS
+//! IN INPUT
+//! OUT OUTPUT
+// fn Pass1(pos: vec2<f32>) -> vec4<f32>
+`), /PASS 1: entry function Pass1 not found/);
+});
+
+/** Three passes writing, updating and then reading `tex` / 依序寫入、就地更新再讀取 `tex` 的三個通道 */
+const READ_WRITE = `//! TEXTURE
+//! FORMAT r32float
+var tex: texture_2d<f32>;
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+//! PASS 1
+//! IN INPUT
+//! OUT tex
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) { textureStore(tex, id.xy, vec4<f32>(1.0)); }
+//! PASS 2
+//! IN tex
+//! OUT tex
+fn Pass2(@builtin(global_invocation_id) id: vec3<u32>) { textureStore(tex, id.xy, textureLoad(tex, id.xy) * 2.0); }
+//! PASS 3
+//! IN tex
+//! OUT OUTPUT
+fn Pass3(@builtin(global_invocation_id) id: vec3<u32>) { textureStore(OUTPUT, id.xy, textureLoad(tex, id.xy, 0)); }
+`;
+
+test('textures bind as write, read_write or sampled by the IN/OUT of each pass', () => {
+    const modules = generator.generate(parse(READ_WRITE), undefined, { readWriteFormats: new Set(['r32float']) });
+    const tex = modules.map(m => m.resources.bindings.find(b => b.name === 'tex'));
+
+    assert.match(modules[0].wgslCode, /var tex: texture_storage_2d<r32float, write>;/);
+    assert.match(modules[1].wgslCode, /var tex: texture_storage_2d<r32float, read_write>;/);
+    assert.match(modules[2].wgslCode, /var tex: texture_2d<f32>;/);
+    assert.deepEqual(tex.map(b => [b.resource, b.access ?? b.sampleType]), [
+        ['storageTexture', 'write-only'], ['storageTexture', 'read-write'], ['texture', 'unfilterable-float']
+    ]);
+    // One declaration serves every access, no _sampled/_storaged copies / 同一宣告適用所有存取方式，不再產生 _sampled/_storaged 副本
+    assert.ok(modules.every(m => !/_sampled|_storaged/.test(m.wgslCode)));
+});
+
+test('read_write access needs a device format and writes need a storable format', () => {
+    assert.throws(
+        () => generator.generate(parse(READ_WRITE), undefined, { readWriteFormats: new Set() }),
+        /PASS 2: the device does not support read_write storage textures of format r32float used by "tex"/
+    );
+    assert.throws(
+        () => generator.generate(parse(READ_WRITE.replace('FORMAT r32float', 'FORMAT rgba8unorm-srgb'))),
+        /PASS 1: format rgba8unorm-srgb of "tex" cannot be used as a storage texture/
+    );
+});
@@ -0,0 +1,98 @@
+// test_include.js
+// Behaviour of //! INCLUDE: loading, relative paths, cycles and missing files.
+// //! INCLUDE 行為測試：載入、相對路徑、循環引用與缺少的檔案。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parse, IncludeLoader } from '../dist/wgfx.esm.js';
+
+const MAIN = `//! COMMON
+//! INCLUDE a.wgsl
+//! INCLUDE lib/c.wgsl
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn main() {}
+`;
+
+/** In-memory resolver resolving paths against the including file / 以引用檔案為基準解析路徑的記憶體解析器 */
+function memoryResolver(files, calls = []) {
+    return async (file, from) => {
+        calls.push([file, from]);
+        const dir = from?.includes('/') ? from.slice(0, from.lastIndexOf('/') + 1) : '';
+        const id = dir + file;
+        return files[id] !== undefined ? { id, code: files[id] } : undefined;
+    };
+}
+
+test('includes are expanded in place and resolved against the including file', async () => {
+    const loader = new IncludeLoader(memoryResolver({
+        'a.wgsl': 'fn a() {}\n',
+        'lib/c.wgsl': '//! INCLUDE "d.wgsl"\nfn c() {}\n',
+        'lib/d.wgsl': 'fn d() {}\n',
+    }));
+    const { shaderInfo, diagnostics, sourceMap } = parse(MAIN, {
+        recover: true, resolveInclude: await loader.load(MAIN, 'main.wgsl'), grammarSource: 'main.wgsl'
+    });
+
+    assert.deepEqual(diagnostics, []);
+    assert.equal(shaderInfo.commonCode, 'fn a() {}\nfn d() {}\nfn c() {}');
+    assert.deepEqual(sourceMap.common, [
+        { line: 1, source: 'a.wgsl' },
+        { line: 1, source: 'lib/d.wgsl' },
+        { line: 2, source: 'lib/c.wgsl' },
+    ]);
+});
+
+test('an include cycle terminates the loader and is reported by the parser', async () => {
+    const calls = [];
+    const loader = new IncludeLoader(memoryResolver({
+        'a.wgsl': '//! INCLUDE b.wgsl\nfn a() {}\n',
+        'b.wgsl': '//! INCLUDE a.wgsl\nfn b() {}\n',
+        'lib/c.wgsl': 'fn c() {}\n',
+    }, calls));
+    const resolveInclude = await loader.load(MAIN, 'main.wgsl');
+    const { diagnostics } = parse(MAIN, { recover: true, resolveInclude, grammarSource: 'main.wgsl' });
+
+    assert.deepEqual(calls, [
+        ['a.wgsl', 'main.wgsl'],
+        ['b.wgsl', 'a.wgsl'],
+        ['a.wgsl', 'b.wgsl'],
+        ['lib/c.wgsl', 'main.wgsl'],
+    ]);
+    assert.deepEqual(diagnostics.map(d => [d.code, d.source, d.start.line]), [['include-cycle', 'b.wgsl', 1]]);
+    assert.match(diagnostics[0].message, /main\.wgsl -> a\.wgsl -> b\.wgsl -> a\.wgsl/);
+});
+
+test('missing files and sources without a resolver are reported', async () => {
+    const loader = new IncludeLoader(memoryResolver({ 'a.wgsl': 'fn a() {}\n' }));
+    const missing = parse(MAIN, { recover: true, resolveInclude: await loader.load(MAIN) });
+    assert.deepEqual(missing.diagnostics.map(d => [d.code, d.start.line]), [['include-not-found', 3]]);
+
+    const unresolved = parse(MAIN, { recover: true });
+    assert.deepEqual(unresolved.diagnostics.map(d => d.code), ['include-unresolved', 'include-unresolved']);
+});
+
+test('the file system resolver reads includes relative to the including file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wgfx-include-'));
+    try {
+        await fs.mkdir(path.join(dir, 'lib'));
+        await fs.writeFile(path.join(dir, 'a.wgsl'), 'fn a() {}\n');
+        await fs.writeFile(path.join(dir, 'lib', 'c.wgsl'), '//! INCLUDE d.wgsl\nfn c() {}\n');
+        await fs.writeFile(path.join(dir, 'lib', 'd.wgsl'), 'fn d() {}\n');
+
+        const effectPath = path.join(dir, 'main.wgsl');
+        const loader = new IncludeLoader(IncludeLoader.fromFileSystem());
+        const { shaderInfo, diagnostics } = parse(MAIN, {
+            recover: true, resolveInclude: await loader.load(MAIN, effectPath), grammarSource: effectPath
+        });
+
+        assert.deepEqual(diagnostics, []);
+        assert.equal(shaderInfo.commonCode, 'fn a() {}\nfn d() {}\nfn c() {}');
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,38 @@
+// test_metadata.js
+// Behaviour of effect metadata parsing and the capability check against the device.
+// 特效元數據解析以及對裝置進行能力檢查的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, WGFXRuntime } from '../dist/wgfx.esm.js';
+
+const SOURCE = `// MAGPIE EFFECT
+//!VERSION 4
+//! SORT_NAME Anime4K_Restore_2
+//! USE MulAdd, _Dynamic
+//! CAPABILITY fp16
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {}`;
+
+test('VERSION, SORT_NAME, USE and CAPABILITY are parsed into metadata', () => {
+    const { metadata } = parse(SOURCE);
+
+    assert.equal(metadata.version, 4);
+    assert.equal(metadata.sortName, 'Anime4K_Restore_2');
+    // Flags are upper-cased and trimmed / 旗標轉為大寫並去除空白
+    assert.deepEqual(metadata.use, { MULADD: true, _DYNAMIC: true });
+    assert.deepEqual(metadata.capability, { FP16: true });
+});
+
+test('declared capabilities the device lacks are reported', () => {
+    const { metadata } = parse(SOURCE);
+    const runtime = (features) => new WGFXRuntime({ features: new Set(features) });
+
+    assert.deepEqual(runtime([]).checkCapabilities(metadata), ['FP16']);
+    assert.deepEqual(runtime(['shader-f16']).checkCapabilities(metadata), []);
+    // Capabilities without a device feature are not checked / 沒有對應裝置功能的能力不做檢查
+    assert.deepEqual(runtime([]).checkCapabilities({ use: {}, capability: { UNKNOWN: true } }), []);
+});
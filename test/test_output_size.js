@@ -0,0 +1,68 @@
+// test_output_size.js
+// Behaviour of OUTPUT_WIDTH/OUTPUT_HEIGHT resolution and OUTPUT texture sizing.
+// OUTPUT_WIDTH/OUTPUT_HEIGHT 解析與 OUTPUT 紋理尺寸的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse, WGFXRuntime } from '../dist/wgfx.esm.js';
+
+/** Host resources for a 640x360 input with an OUTPUT descriptor / 640x360 輸入與 OUTPUT 描述的宿主資源 */
+function external(defines = {}) {
+    return {
+        defines: { INPUT_WIDTH: 640, INPUT_HEIGHT: 360, ...defines },
+        textures: { INPUT: { size: [640, 360] }, OUTPUT: { size: [640, 360], format: 'rgba16float' } }
+    };
+}
+
+/** An effect with the given global directives and OUTPUT declaration lines / 帶有指定全域指令與 OUTPUT 宣告行的特效 */
+function effect(directives, output = '') {
+    return parse(`${directives}
+//! TEXTURE
+${output}
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {}`);
+}
+
+test('OUTPUT_WIDTH/OUTPUT_HEIGHT expressions size the OUTPUT descriptor', () => {
+    const resolved = WGFXRuntime.resolveOutputSize(effect('//! OUTPUT_WIDTH INPUT_WIDTH * 2\n//! OUTPUT_HEIGHT INPUT_HEIGHT / 2'), external());
+
+    assert.equal(resolved.defines.OUTPUT_WIDTH, 1280);
+    assert.equal(resolved.defines.OUTPUT_HEIGHT, 180);
+    assert.deepEqual(resolved.textures.OUTPUT, { size: [1280, 180], format: 'rgba16float' });
+});
+
+test('host defines win over directives, directives over the declared size, which wins over the input', () => {
+    const both = effect('//! OUTPUT_WIDTH INPUT_WIDTH * 2', '//! WIDTH 100\n//! HEIGHT INPUT_HEIGHT + 1');
+
+    assert.deepEqual(WGFXRuntime.resolveOutputSize(both, external({ OUTPUT_WIDTH: 50 })).textures.OUTPUT.size, [50, 361]);
+    assert.deepEqual(WGFXRuntime.resolveOutputSize(both, external()).textures.OUTPUT.size, [1280, 361]);
+    assert.deepEqual(WGFXRuntime.resolveOutputSize(effect(''), external()).textures.OUTPUT.size, [640, 360]);
+});
+
+test('a host-provided OUTPUT texture is kept as is', () => {
+    const texture = { createView: () => ({}) };
+    const resources = { ...external(), textures: { OUTPUT: texture } };
+    const resolved = WGFXRuntime.resolveOutputSize(effect('//! OUTPUT_WIDTH INPUT_WIDTH * 2'), resources);
+
+    assert.equal(resolved.textures.OUTPUT, texture);
+    assert.equal(resolved.defines.OUTPUT_WIDTH, 1280);
+    assert.equal(resources.defines.OUTPUT_WIDTH, undefined);
+});
+
+test('invalid and non-positive sizes are rejected', () => {
+    assert.throws(() => WGFXRuntime.resolveOutputSize(effect('//! OUTPUT_WIDTH INPUT_WIDTH *'), external()), /Failed to evaluate OUTPUT_WIDTH "INPUT_WIDTH \*"/);
+    assert.throws(() => WGFXRuntime.resolveOutputSize(effect('//! OUTPUT_HEIGHT INPUT_HEIGHT - 360'), external()), /OUTPUT_HEIGHT "INPUT_HEIGHT - 360" must be a positive size, got 0/);
+});
+
+test('Anime4K_Upscale_Denoise_S outputs twice the input size', async () => {
+    const source = await fs.readFile(path.join(process.cwd(), 'examples', 'Anime4K_Upscale_Denoise_S.wgsl'), 'utf-8');
+    const resolved = WGFXRuntime.resolveOutputSize(parse(source), external());
+
+    assert.deepEqual(resolved.textures.OUTPUT.size, [1280, 720]);
+});
@@ -0,0 +1,111 @@
+// test_parser.js
+// Behaviour of the effect parser: recovering mode, diagnostic codes and locations.
+// 解析器行為測試：復原模式、診斷代碼與位置。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse } from '../dist/wgfx.esm.js';
+
+const BROKEN = `//! VERSION 4
+//! FORMAT rgba8unorm
+//! TEXTURE tex
+//! WIDTH 10
+//! PASS x
+//! IN INPUT
+//! OUT OUTPUT
+//! IF A
+fn main() {}
+`;
+
+test('recovering mode collects every problem with its code and location', () => {
+    const { shaderInfo, diagnostics } = parse(BROKEN, { recover: true });
+
+    assert.deepEqual(diagnostics.map(d => [d.code, d.severity, d.start.line]), [
+        ['misplaced-directive', 'error', 2],
+        ['invalid-pass-index', 'error', 5],
+        ['unterminated-if', 'error', 8],
+    ]);
+    assert.deepEqual(diagnostics[0].end, { line: 2, column: 22 });
+    // Parsing continues past the errors / 遇到錯誤後仍繼續解析
+    assert.equal(shaderInfo.metadata.version, 4);
+    assert.deepEqual(shaderInfo.textures.map(t => t.id), ['tex']);
+    assert.equal(shaderInfo.passes.length, 1);
+});
+
+test('strict mode throws the first error as a located SyntaxError', () => {
+    assert.throws(() => parse(BROKEN, { grammarSource: 'broken.wgsl' }), error => {
+        assert.equal(error.name, 'SyntaxError');
+        assert.match(error.message, /\/\/! FORMAT cannot be used here/);
+        assert.equal(error.location.source, 'broken.wgsl');
+        assert.deepEqual(error.location.start, { offset: 0, line: 2, column: 1 });
+        return true;
+    });
+});
+
+test('a valid effect parses without diagnostics', () => {
+    const { diagnostics, sourceMap, shaderInfo } = parse(`//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba8unorm, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn main() {}
+`, { recover: true });
+
+    assert.deepEqual(diagnostics, []);
+    assert.equal(shaderInfo.textures[0].name, 'OUTPUT');
+    assert.deepEqual(sourceMap.passes[1], [{ line: 7 }]);
+    assert.deepEqual(sourceMap.textures, [{ line: 1 }]);
+});
+
+test('parameters take their name from //! VAR, a declaration or the block id', () => {
+    const { parameters } = parse(`//! PARAMETER Strength
+//! DEFAULT 0.5
+float Strength;
+
+//! PARAMETER
+//! VAR radius
+//! DEFAULT 1, 2
+
+//! PARAMETER
+//! DEFAULT 3
+var tint: vec3<f32>;
+`);
+
+    assert.deepEqual(parameters.map(p => [p.name, p.type, p.default]), [
+        ['Strength', 'float', 0.5],
+        ['radius', 'float', [1, 2]],
+        ['tint', 'float3', 3],
+    ]);
+});
+
+test('a PARAMETER without any name is reported', () => {
+    const { diagnostics } = parse('//! PARAMETER\n//! DEFAULT 1\n', { recover: true });
+    assert.deepEqual(diagnostics.map(d => d.code), ['missing-parameter-name']);
+});
+
+test('conditions guard blocks and stay as markers inside code', () => {
+    const { shaderInfo, diagnostics } = parse(`//! IF FAST
+//! TEXTURE tmp
+//! ENDIF
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! IF FAST
+let a = 1;
+//! ELSE
+let a = 2;
+//! ENDIF
+`, { recover: true });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(shaderInfo.textures[0].conditions, ['FAST']);
+    assert.equal(shaderInfo.passes[0].conditions, undefined);
+    assert.equal(shaderInfo.passes[0].code, '//! IF FAST\nlet a = 1;\n//! ELSE\nlet a = 2;\n//! ENDIF');
+});
+
+test('unmatched and duplicate conditional directives are reported', () => {
+    const { diagnostics } = parse('//! ENDIF\n//! IF A\n//! ELSE\n//! ELSE\n//! ENDIF\n', { recover: true });
+    assert.deepEqual(diagnostics.map(d => d.code), ['unmatched-endif', 'duplicate-else']);
+});
@@ -0,0 +1,58 @@
+// test_pass_graph.js
+// Behaviour of the pass dependency graph: ordering, cycles and dead passes.
+// 通道依賴圖的行為測試：執行順序、循環依賴與未使用的通道。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, PassGraph } from '../dist/wgfx.esm.js';
+
+/** Build a graph from `[in, out]` pairs, one per pass / 由每個通道的 `[in, out]` 建立依賴圖 */
+function graph(passes) {
+    return new PassGraph(parse(passes.map(([input, output], i) =>
+        `//! PASS ${i + 1}\n//! IN ${input}\n//! OUT ${output}\n`).join('')));
+}
+
+test('passes run after the passes they read from', () => {
+    const g = graph([['b', 'OUTPUT'], ['a', 'b'], ['INPUT', 'a']]);
+
+    assert.deepEqual(g.order, [3, 2, 1]);
+    assert.deepEqual(g.getDependencies(1), [2]);
+    assert.deepEqual(g.getDependencies(3), []);
+    assert.deepEqual(g.issues, []);
+});
+
+test('passes that do not reach OUTPUT are dead and skipped', () => {
+    const g = graph([['INPUT', 'a'], ['INPUT', 'unused'], ['a', 'OUTPUT']]);
+
+    assert.deepEqual(g.order, [1, 3]);
+    assert.deepEqual(g.deadPasses, [2]);
+    assert.deepEqual(g.issues.map(i => [i.code, i.severity, i.pass]), [['dead-pass', 'warning', 2]]);
+});
+
+test('a texture written twice is read from the latest previous writer', () => {
+    const g = graph([['INPUT', 'tmp'], ['tmp', 'a'], ['a', 'tmp'], ['tmp', 'OUTPUT']]);
+
+    assert.deepEqual(g.order, [1, 2, 3, 4]);
+    assert.deepEqual(g.getDependencies(4), [3]);
+    assert.ok(g.edges.some(e => e.from === 2 && e.to === 3 && e.kind === 'write-after-read'));
+});
+
+test('cycles and reads of unwritten textures are reported', () => {
+    const cycle = graph([['b', 'a'], ['a', 'b, OUTPUT']]);
+    assert.deepEqual(cycle.issues.map(i => [i.code, i.severity]), [['pass-cycle', 'error']]);
+    assert.deepEqual(cycle.order, [1, 2]);
+
+    const unwritten = graph([['never', 'OUTPUT']]);
+    assert.deepEqual(unwritten.issues.map(i => [i.code, i.resource]), [['read-before-write', 'never']]);
+});
+
+test('the DOT output marks dead passes and non-data edges', () => {
+    const parsed = parse('//! PASS 1\n//! DESC Blur\n//! IN INPUT\n//! OUT a\n//! PASS 2\n//! IN a\n//! OUT OUTPUT\n//! PASS 3\n//! IN INPUT\n//! OUT b\n');
+
+    assert.equal(new PassGraph(parsed).toDot(), `digraph WGFX {
+    p1 [label="PASS 1\\nBlur"];
+    p2 [label="PASS 2"];
+    p3 [label="PASS 3", style=dashed];
+    p1 -> p2 [label="a"];
+}`);
+});
@@ -0,0 +1,92 @@
+// test_pixel_reader.js
+// Behaviour of pixel readback: half float conversion, row padding and channel order.
+// 像素讀回的行為測試：半精度浮點數轉換、列填充與通道順序。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PixelReader } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUTextureUsage ??= { COPY_SRC: 0x01, COPY_DST: 0x02, TEXTURE_BINDING: 0x04, STORAGE_BINDING: 0x08, RENDER_ATTACHMENT: 0x10 };
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_DST: 0x0008 };
+globalThis.GPUMapMode ??= { READ: 0x0001 };
+
+/**
+ * Device whose readback buffer holds `rows` padded to 256 bytes; records the copies.
+ * 讀回緩衝區內容為 `rows`（每列填充至 256 位元組）的裝置，並記錄複製操作。
+ */
+function fakeDevice(rows, copies = []) {
+    return {
+        createBuffer: ({ size }) => {
+            const data = new Uint8Array(size).fill(0xee);
+            rows.forEach((row, i) => data.set(new Uint8Array(row.buffer, row.byteOffset, row.byteLength), i * 256));
+            return { mapAsync: async () => {}, getMappedRange: () => data.buffer, unmap: () => {}, destroy: () => {} };
+        },
+        createCommandEncoder: () => ({
+            copyTextureToBuffer: (source, destination, size) => copies.push({ source, destination, size }),
+            finish: () => ({})
+        }),
+        queue: { submit: () => {} }
+    };
+}
+
+function texture(format, width, height, usage = GPUTextureUsage.COPY_SRC) {
+    return { format, width, height, usage, label: 'test' };
+}
+
+test('half floats convert both ways, including subnormals and specials', () => {
+    assert.equal(PixelReader.halfToFloat(0x3c00), 1);
+    assert.equal(PixelReader.halfToFloat(0xc000), -2);
+    assert.equal(PixelReader.halfToFloat(0x0001), 2 ** -24);
+    assert.equal(PixelReader.halfToFloat(0x7c00), Infinity);
+    assert.ok(Number.isNaN(PixelReader.halfToFloat(0x7e00)));
+
+    assert.equal(PixelReader.floatToHalf(1), 0x3c00);
+    assert.equal(PixelReader.floatToHalf(-2), 0xc000);
+    assert.equal(PixelReader.floatToHalf(2 ** -24), 0x0001);
+    assert.equal(PixelReader.floatToHalf(65520), 0x7c00);
+    assert.equal(PixelReader.floatToHalf(-Infinity), 0xfc00);
+    assert.ok(Number.isNaN(PixelReader.halfToFloat(PixelReader.floatToHalf(NaN))));
+    // Ties round to the even mantissa / 恰為一半時進位至偶數尾數
+    assert.equal(PixelReader.floatToHalf(1 + 2 ** -11), 0x3c00);
+    assert.equal(PixelReader.floatToHalf(1 + 3 * 2 ** -11), 0x3c02);
+});
+
+test('row padding is stripped and the rect is copied', async () => {
+    const copies = [];
+    const rows = [new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]), new Uint8Array([9, 10, 11, 12, 13, 14, 15, 16])];
+    const pixels = await PixelReader.read(fakeDevice(rows, copies), texture('rgba8unorm', 4, 4), { rect: { x: 1, y: 2, width: 2, height: 2 } });
+
+    assert.deepEqual([...pixels], [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]);
+    assert.deepEqual(copies[0].source.origin, [1, 2]);
+    assert.equal(copies[0].destination.bytesPerRow, 256);
+    assert.deepEqual(copies[0].size, [2, 2]);
+});
+
+test('BGRA is swizzled and missing channels are filled', async () => {
+    const bgra = await PixelReader.read(fakeDevice([new Uint8Array([10, 20, 30, 40])]), texture('bgra8unorm', 1, 1));
+    assert.deepEqual([...bgra], [30, 20, 10, 40]);
+
+    const red = await PixelReader.read(fakeDevice([new Float32Array([0.5])]), texture('r32float', 1, 1), { format: 'rgba32f' });
+    assert.deepEqual([...red], [0.5, 0, 0, 1]);
+});
+
+test('half float textures convert to the requested format', async () => {
+    const half = new Uint16Array([0x3800, 0x3c00, 0x0000, 0x3c00]); // 0.5, 1, 0, 1
+    const asFloat = await PixelReader.read(fakeDevice([half]), texture('rgba16float', 1, 1), { format: 'rgba32f' });
+    assert.deepEqual([...asFloat], [0.5, 1, 0, 1]);
+
+    const asBytes = await PixelReader.read(fakeDevice([half]), texture('rgba16float', 1, 1));
+    assert.deepEqual([...asBytes], [128, 255, 0, 255]);
+
+    const asHalf = await PixelReader.read(fakeDevice([new Float32Array([0.5, 1, 0, 1])]), texture('rgba32float', 1, 1), { format: 'rgba16f' });
+    assert.deepEqual([...asHalf], [...half]);
+});
+
+test('unsupported formats, missing COPY_SRC and bad rects are rejected', async () => {
+    const device = fakeDevice([]);
+    await assert.rejects(PixelReader.read(device, texture('rgba8unorm', 1, 1), { format: 'rgb8' }), /Unsupported pixel format "rgb8"/);
+    await assert.rejects(PixelReader.read(device, texture('depth24plus', 1, 1)), /Reading depth24plus textures is not supported/);
+    await assert.rejects(PixelReader.read(device, texture('rgba8unorm', 1, 1, GPUTextureUsage.TEXTURE_BINDING)), /lacks COPY_SRC usage/);
+    await assert.rejects(PixelReader.read(device, texture('rgba8unorm', 4, 4), { rect: { x: 3, y: 0, width: 2, height: 1 } }), /outside the 4x4 texture/);
+});
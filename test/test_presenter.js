@@ -0,0 +1,85 @@
+// test_presenter.js
+// Behaviour of canvas presentation: fit rectangles and bindings for filterable and non-filterable sources.
+// 畫布呈現的行為測試：配置矩形，以及可過濾與不可過濾來源的綁定。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Presenter } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUShaderStage ??= { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 };
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_DST: 0x0008, UNIFORM: 0x0040 };
+
+/** Device recording the layouts, samplers and pipelines it creates / 記錄所建立之佈局、取樣器與管線的裝置 */
+function fakeDevice() {
+    const created = { layouts: [], samplers: [], pipelines: [] };
+    const device = {
+        created,
+        createShaderModule: () => ({}),
+        createBindGroupLayout: descriptor => (created.layouts.push(descriptor), descriptor),
+        createPipelineLayout: descriptor => descriptor,
+        createRenderPipeline: descriptor => (created.pipelines.push(descriptor), descriptor),
+        createSampler: descriptor => (created.samplers.push(descriptor), descriptor),
+        createBindGroup: descriptor => descriptor,
+        createBuffer: () => ({ destroy: () => {} }),
+        createCommandEncoder: () => ({
+            beginRenderPass: () => ({ setPipeline: () => {}, setBindGroup: () => {}, draw: () => {}, end: () => {} }),
+            finish: () => ({})
+        }),
+        queue: { writeBuffer: () => {}, submit: () => {} }
+    };
+    return device;
+}
+
+function texture(format, width = 4, height = 4) {
+    return { format, width, height, createView: () => ({}) };
+}
+
+function context(format, width = 8, height = 4) {
+    return { getCurrentTexture: () => texture(format, width, height) };
+}
+
+test('fit modes place the image in target UV', () => {
+    const wide = { width: 200, height: 100 };
+    const square = { width: 100, height: 100 };
+
+    assert.deepEqual(Presenter.fitRect(square, wide, 'contain'), [0.25, 0, 0.5, 1]);
+    assert.deepEqual(Presenter.fitRect(square, wide, 'cover'), [0, -0.5, 1, 2]);
+    assert.deepEqual(Presenter.fitRect(square, wide, 'stretch'), [0, 0, 1, 1]);
+    // Whole-number scales up, fractional scales only down / 放大時取整數倍，僅縮小時使用小數倍
+    assert.deepEqual(Presenter.fitRect({ width: 48, height: 48 }, { width: 256, height: 128 }, 'integer'), [0.3125, 0.125, 0.375, 0.75]);
+    assert.deepEqual(Presenter.fitRect({ width: 400, height: 200 }, wide, 'integer'), [0, 0, 1, 1]);
+});
+
+test('non-filterable sources bind as unfilterable-float with a nearest sampler', () => {
+    assert.equal(Presenter.isFilterable('rgba16float'), true);
+    assert.equal(Presenter.isFilterable('r32float'), false);
+    assert.equal(Presenter.isFilterable('rgba32float'), false);
+
+    const device = fakeDevice();
+    new Presenter(device).present(texture('rgba32float'), context('bgra8unorm'), { filter: 'linear' });
+
+    const [layout] = device.created.layouts;
+    assert.deepEqual(layout.entries[0].texture, { sampleType: 'unfilterable-float' });
+    assert.deepEqual(layout.entries[1].sampler, { type: 'non-filtering' });
+    assert.deepEqual(device.created.samplers, [{ magFilter: 'nearest', minFilter: 'nearest' }]);
+});
+
+test('pipelines are cached per source and target format', () => {
+    const device = fakeDevice();
+    const presenter = new Presenter(device);
+    const half = texture('rgba16float');
+
+    presenter.present(half, context('bgra8unorm'));
+    presenter.present(half, context('bgra8unorm'));
+    presenter.present(texture('r32float'), context('bgra8unorm'));
+    presenter.present(half, context('rgba8unorm'));
+
+    assert.deepEqual(device.created.pipelines.map(p => p.label), [
+        'WGFX Present (rgba16float -> bgra8unorm)',
+        'WGFX Present (r32float -> bgra8unorm)',
+        'WGFX Present (rgba16float -> rgba8unorm)'
+    ]);
+    assert.deepEqual(device.created.layouts.map(l => l.entries[0].texture.sampleType), ['float', 'unfilterable-float']);
+    assert.deepEqual(device.created.samplers.map(s => s.magFilter), ['linear', 'nearest']);
+});
@@ -0,0 +1,98 @@
+// test_printer.js
+// Behaviour of print() and format(): canonical layout and round trips.
+// print() 與 format() 的行為測試：標準格式與往返一致性。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse, print, format } from '../dist/wgfx.esm.js';
+
+const EXAMPLES = path.join(process.cwd(), 'examples');
+
+test('every example survives parse(print(parse(source)))', async () => {
+    const files = (await fs.readdir(EXAMPLES)).filter(f => f.endsWith('.wgsl'));
+    assert.ok(files.length > 0);
+    for (const file of files) {
+        const parsed = parse(await fs.readFile(path.join(EXAMPLES, file), 'utf-8'));
+        assert.deepEqual(parse(print(parsed)), parsed, file);
+    }
+});
+
+test('format is idempotent on every example', async () => {
+    for (const file of (await fs.readdir(EXAMPLES)).filter(f => f.endsWith('.wgsl'))) {
+        const formatted = format(await fs.readFile(path.join(EXAMPLES, file), 'utf-8'));
+        assert.equal(format(formatted), formatted, file);
+    }
+});
+
+test('directives are upper-cased, single-spaced and ordered by block type', () => {
+    const formatted = format(`// Header
+
+//!pass 1
+//!in   INPUT
+//!out OUTPUT
+fn main() {}
+
+//!texture
+//!format   rgba16float
+var tmp: texture_2d<f32>;
+
+//!version 4
+`);
+    assert.equal(formatted, `// Header
+
+//! VERSION 4
+
+//! TEXTURE
+//! FORMAT rgba16float
+var tmp: texture_2d<f32>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn main() {}
+`);
+});
+
+test('comments and original declaration lines are kept verbatim', () => {
+    const source = `//! VERSION 4
+// Outside any block
+
+//! PARAMETER
+//! VAR strength
+//! DEFAULT 0.5
+// float strength; // Not used in WGSL
+
+//! TEXTURE
+//! FORMAT rgba16float
+// Shared by both textures
+@group(0) @binding(1) var OUTPUT: texture_storage_2d<rgba16float, write>;
+// About tmp
+var tmp: texture_2d<f32>;
+`;
+    const formatted = format(source);
+
+    assert.match(formatted, /^\/\/! VERSION 4\n\/\/ Outside any block$/m);
+    assert.match(formatted, /^\/\/ float strength; \/\/ Not used in WGSL$/m);
+    assert.match(formatted, /^\/\/ Shared by both textures\n@group\(0\) @binding\(1\) var OUTPUT: texture_storage_2d<rgba16float, write>;$/m);
+    assert.match(formatted, /^\/\/ About tmp\nvar tmp: texture_2d<f32>;$/m);
+    assert.deepEqual(parse(formatted), parse(source));
+});
+
+test('resources without source lines get a generated declaration', () => {
+    const printed = print({
+        metadata: { use: {}, capability: {} },
+        parameters: [{ name: 'radius', type: 'int', default: 2 }],
+        textures: [{ name: 'tmp', width: 'INPUT_WIDTH', height: 'INPUT_HEIGHT' }],
+        samplers: [],
+        passes: [],
+        commonCode: ''
+    });
+    assert.match(printed, /^\/\/! PARAMETER\n\/\/! VAR radius\n\/\/! DEFAULT 2\nint radius;$/m);
+    assert.match(printed, /^\/\/! TEXTURE\n\/\/! WIDTH INPUT_WIDTH\n\/\/! HEIGHT INPUT_HEIGHT\nvar tmp: texture_2d<f32>;$/m);
+});
+
+test('sources using //! INCLUDE are rejected', () => {
+    assert.throws(() => format('//! COMMON\n//! INCLUDE common.wgsl\n'), /INCLUDE/);
+});
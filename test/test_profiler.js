@@ -0,0 +1,83 @@
+// test_profiler.js
+// Behaviour of per-pass profiling: CPU fallback, timestamp slots and frame ordering.
+// 各通道計時的行為測試：CPU 備援、時間戳位置與幀順序。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassProfiler } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_SRC: 0x0004, COPY_DST: 0x0008, QUERY_RESOLVE: 0x0200 };
+globalThis.GPUMapMode ??= { READ: 0x0001 };
+
+/** Device whose readback buffers return `timestamps` / 讀回緩衝區內容為 `timestamps` 的裝置 */
+function fakeDevice(features, timestamps = []) {
+    return {
+        features: new Set(features),
+        createQuerySet: descriptor => ({ ...descriptor, destroy: () => {} }),
+        createBuffer: descriptor => ({
+            ...descriptor,
+            mapAsync: async () => {},
+            getMappedRange: () => new BigInt64Array(timestamps).buffer,
+            unmap: () => {},
+            destroy: () => {}
+        })
+    };
+}
+
+test('without timestamp-query passes are timed on the CPU', () => {
+    const profiler = new PassProfiler(fakeDevice([]));
+    assert.equal(profiler.mode, 'cpu');
+
+    profiler.beginFrame(2);
+    assert.equal(profiler.timestampWrites(1), undefined);
+    assert.equal(profiler.resolve({}), null);
+
+    const profile = profiler.recordCpuTimings([{ index: 1, desc: 'Conv', durationMs: 1.5 }, { index: 3, durationMs: 2 }]);
+    assert.deepEqual(profile, {
+        frame: 1,
+        mode: 'cpu',
+        passes: { 1: { index: 1, desc: 'Conv', durationMs: 1.5 }, 3: { index: 3, durationMs: 2 } },
+        totalMs: 3.5
+    });
+    assert.equal(profiler.lastProfile, profile);
+});
+
+test('timestamp pairs are reserved per pass and read back as durations', async () => {
+    const profiler = new PassProfiler(fakeDevice(['timestamp-query'], [1000000n, 3000000n, 3000000n, 3500000n]));
+    assert.equal(profiler.mode, 'gpu');
+
+    profiler.beginFrame(2);
+    assert.deepEqual(profiler.timestampWrites(2, 'Down'), { querySet: profiler.querySet, beginningOfPassWriteIndex: 0, endOfPassWriteIndex: 1 });
+    assert.equal(profiler.timestampWrites(1).beginningOfPassWriteIndex, 2);
+    // The frame only holds the passes announced to beginFrame / 每幀只容納 beginFrame 宣告的通道數
+    assert.equal(profiler.timestampWrites(3), undefined);
+
+    const commands = [];
+    const pending = profiler.resolve({
+        resolveQuerySet: (_set, first, count) => commands.push(['resolve', first, count]),
+        copyBufferToBuffer: (_src, _srcOffset, _dst, _dstOffset, size) => commands.push(['copy', size])
+    });
+    assert.deepEqual(commands, [['resolve', 0, 4], ['copy', 32]]);
+
+    const profile = await profiler.collect(pending);
+    assert.equal(profile.mode, 'gpu');
+    assert.deepEqual(profile.passes, { 2: { index: 2, desc: 'Down', durationMs: 2 }, 1: { index: 1, desc: undefined, durationMs: 0.5 } });
+    assert.equal(profile.totalMs, 2.5);
+});
+
+test('a late readback does not replace a newer profile', async () => {
+    const profiler = new PassProfiler(fakeDevice(['timestamp-query'], [0n, 1000000n]));
+    const encoder = { resolveQuerySet: () => {}, copyBufferToBuffer: () => {} };
+
+    profiler.beginFrame(1);
+    profiler.timestampWrites(1);
+    const first = profiler.resolve(encoder);
+    profiler.beginFrame(1);
+    profiler.timestampWrites(1);
+    const second = profiler.resolve(encoder);
+
+    await profiler.collect(second);
+    await profiler.collect(first);
+    assert.equal(profiler.lastProfile.frame, 2);
+});
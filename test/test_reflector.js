@@ -0,0 +1,152 @@
+// test_reflector.js
+// Behaviour of WGSL reflection and of the rewrites the code generator builds on it.
+// WGSL 反射以及程式碼產生器據此進行之改寫的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse, WGSLReflector, WGSLCodeGenerator, ShaderValidator } from '../dist/wgfx.esm.js';
+
+const reflector = new WGSLReflector();
+
+const MODULE = `struct SceneInfo { inputSize: vec2<u32>, }
+@group(0) @binding(0) var<uniform> scene: SceneInfo;
+@group(0) @binding(1) var tex: texture_2d<f32>;
+@group(0) @binding(2) var out: texture_storage_2d<rgba8unorm, write>;
+@group(0) @binding(3) var sam: sampler;
+// fn commented() { return sam; }
+fn helper(x: f32) -> f32 { return x * 2.0; }
+fn other() -> f32 { return textureSampleLevel(tex, sam, vec2<f32>(0.0), 0.0).r; }
+@compute @workgroup_size(8) fn main_cs(@builtin(global_invocation_id) id: vec3<u32>) {
+    let v = helper(textureLoad(tex, vec2<i32>(id.xy), 0).r);
+    textureStore(out, vec2<i32>(id.xy), vec4<f32>(v));
+}`;
+
+test('bindings and structs are reflected, comments ignored', () => {
+    const reflection = reflector.reflect(MODULE);
+    assert.deepEqual(reflection.bindings, [
+        { group: 0, binding: 0, name: 'scene', addressSpace: 'uniform', type: 'SceneInfo' },
+        { group: 0, binding: 1, name: 'tex', addressSpace: undefined, type: 'texture_2d<f32>' },
+        { group: 0, binding: 2, name: 'out', addressSpace: undefined, type: 'texture_storage_2d<rgba8unorm,write>' },
+        { group: 0, binding: 3, name: 'sam', addressSpace: undefined, type: 'sampler' },
+    ]);
+    assert.deepEqual(reflection.structs, [{ name: 'SceneInfo', members: [{ name: 'inputSize', type: 'vec2<u32>' }] }]);
+    assert.deepEqual([...reflection.functions.keys()], ['helper', 'other', 'main_cs']);
+});
+
+test('used identifiers follow calls from the entry point only', () => {
+    const reflection = reflector.reflect(MODULE);
+    const used = reflector.collectUsedIdentifiers(reflection, 'main_cs');
+
+    assert.ok(used.has('helper') && used.has('tex') && used.has('out'));
+    assert.ok(!used.has('other') && !used.has('sam') && !used.has('scene'));
+    assert.equal(reflector.collectUsedIdentifiers(reflection, 'missing'), undefined);
+});
+
+test('module-scope declarations exclude locals and parameters', () => {
+    const names = reflector.collectModuleDeclarations(`const A = 1;
+var<private> B: array<f32, 4>;
+fn f(c: f32) { let d = 1; }
+struct S { e: f32, }
+alias T = vec2<f32>;
+override O: f32;`);
+    assert.deepEqual([...names], ['A', 'B', 'f', 'S', 'T', 'O']);
+});
+
+test('identifier rewrites skip shadowed names, members and comments', () => {
+    const rewritten = reflector.rewriteIdentifiers(`fn f(a: f32, Strength: f32) -> f32 { return a * Strength; }
+fn g(a: f32) -> f32 {
+    let x = a * Strength; // Strength
+    { let Strength = 1.0; return Strength + x; }
+}
+fn h() -> f32 { var s: S; s.Strength = Strength; return Strength; }`, new Map([['Strength', 'uniforms.Strength']]));
+
+    assert.equal(rewritten, `fn f(a: f32, Strength: f32) -> f32 { return a * Strength; }
+fn g(a: f32) -> f32 {
+    let x = a * uniforms.Strength; // Strength
+    { let Strength = 1.0; return Strength + x; }
+}
+fn h() -> f32 { var s: S; s.Strength = uniforms.Strength; return uniforms.Strength; }`);
+});
+
+/** A one-pass effect with extra COMMON code and a pass body / 帶有額外 COMMON 程式碼與通道主體的單通道特效 */
+function effect(common, body) {
+    return parse(`//! PARAMETER
+//! DEFAULT 0.5
+float Strength;
+
+//! COMMON
+struct Foo { a: f32, }
+${common}
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+@compute @workgroup_size(8, 8, 1)
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, vec2<i32>(id.xy), vec4<f32>(${body}));
+}`);
+}
+
+test('bare parameter names read from the uniform buffer', () => {
+    const [module] = new WGSLCodeGenerator().generate(effect('', 'Strength'));
+
+    assert.match(module.wgslCode, /vec4<f32>\(uniforms\.Strength\)/);
+    assert.match(module.wgslCode, /struct Uniforms \{\n {4}Strength: f32,\n\};/);
+    assert.deepEqual(module.resources.bindings.map(b => [b.name, b.resource]), [['uniforms', 'uniforms'], ['OUTPUT', 'storageTexture']]);
+});
+
+test('only scene and uniforms may be declared as uniform buffers', () => {
+    const generator = new WGSLCodeGenerator();
+
+    const scene = generator.generate(effect('', 'f32(scene.inputSize.x)'));
+    assert.deepEqual(scene[0].resources.bindings.map(b => [b.name, b.resource]), [['scene', 'scene'], ['OUTPUT', 'storageTexture']]);
+
+    assert.throws(
+        () => generator.generate(effect('@group(0) @binding(0) var<uniform> other: Foo;', 'other.a')),
+        /uniform "other: Foo" has no data source/
+    );
+    // Unused declarations are not bound / 未使用的宣告不會被綁定
+    const unused = generator.generate(effect('@group(0) @binding(0) var<uniform> other: Foo;', '1.0'));
+    assert.ok(!unused[0].resources.bindings.some(b => b.name === 'other'));
+});
+
+test('the test.wgsl example binds its declared textures and sampler', async () => {
+    const source = await fs.readFile(path.join(process.cwd(), 'examples', 'test.wgsl'), 'utf-8');
+    const { shaderInfo, diagnostics, sourceMap } = parse(source, { recover: true });
+
+    assert.deepEqual(diagnostics, []);
+    assert.deepEqual(new ShaderValidator().validate(shaderInfo, ['INPUT', 'OUTPUT'], { sourceMap }), []);
+    const [module] = new WGSLCodeGenerator().generate(shaderInfo, sourceMap);
+    assert.deepEqual(module.resources.bindings.map(b => [b.name, b.resource]), [
+        ['scene', 'scene'], ['uniforms', 'uniforms'], ['LinearSampler', 'sampler'], ['INPUT', 'texture'], ['OUTPUT', 'storageTexture']
+    ]);
+});
+
+test('bool parameters read as comparisons, other types as plain fields', () => {
+    const [module] = new WGSLCodeGenerator().generate(parse(`//! PARAMETER
+//! DEFAULT 1
+bool Enabled;
+
+//! PARAMETER
+//! DEFAULT 1, 0.5, 0
+float3 Tint;
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, vec2<i32>(id.xy), vec4<f32>(select(vec3<f32>(0.0), Tint, Enabled), 1.0));
+}`));
+
+    // bool is stored as u32 in the uniform buffer / bool 在 Uniform 緩衝區中以 u32 儲存
+    assert.match(module.wgslCode, /select\(vec3<f32>\(0\.0\), uniforms\.Tint, \(uniforms\.Enabled != 0u\)\)/);
+    assert.match(module.wgslCode, /struct Uniforms \{\n {4}Enabled: u32,\n {4}Tint: vec3<f32>,\n\};/);
+});
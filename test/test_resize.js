@@ -0,0 +1,91 @@
+// test_resize.js
+// Behaviour of reallocating size-dependent textures without recompiling.
+// 不重新編譯而重新配置與尺寸相關之紋理的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, ResourceManager } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUTextureUsage ??= { COPY_SRC: 0x01, COPY_DST: 0x02, TEXTURE_BINDING: 0x04, STORAGE_BINDING: 0x08, RENDER_ATTACHMENT: 0x10 };
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_DST: 0x0008, UNIFORM: 0x0040 };
+
+const SOURCE = `//! TEXTURE
+var INPUT: texture_2d<f32>;
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! TEXTURE
+//! WIDTH INPUT_WIDTH / 2
+//! HEIGHT INPUT_HEIGHT / 2
+var half: texture_2d<f32>;
+
+//! TEXTURE
+//! WIDTH 16
+//! HEIGHT 16
+var lut: texture_2d<f32>;
+
+//! PARAMETER
+//! DEFAULT 0.5
+float Strength;
+
+//! PASS 1
+//! IN INPUT, lut
+//! OUT half
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {}
+
+//! PASS 2
+//! IN half
+//! OUT OUTPUT
+fn Pass2(@builtin(global_invocation_id) id: vec3<u32>) {}`;
+
+/** Host resources for an input size / 指定輸入尺寸的宿主資源 */
+function external(width, height) {
+    const descriptor = { size: [width, height], format: 'rgba16float', usage: GPUTextureUsage.TEXTURE_BINDING };
+    return { defines: { INPUT_WIDTH: width, INPUT_HEIGHT: height }, textures: { INPUT: descriptor, OUTPUT: descriptor } };
+}
+
+/** Resource manager on a device recording destroyed textures and created buffers / 記錄銷毀之紋理與建立之緩衝區的資源管理器 */
+function manager() {
+    const log = { destroyed: [], buffers: 0 };
+    const device = {
+        createTexture: ({ size: [width, height] }) => {
+            const texture = { width, height, createView: () => ({}), destroy: () => log.destroyed.push(texture.label) };
+            return texture;
+        },
+        createBuffer: () => (log.buffers++, { destroy: () => {} }),
+        queue: { writeBuffer: () => {} }
+    };
+    return { log, resources: new ResourceManager(device) };
+}
+
+test('only textures whose size changes are reallocated', () => {
+    const { log, resources } = manager();
+    const shaderInfo = parse(SOURCE);
+    resources.initialize(shaderInfo, external(64, 32));
+    const lut = resources.getTexture('lut');
+    const buffers = log.buffers;
+
+    assert.deepEqual(resources.resize(shaderInfo, external(128, 64)), ['INPUT', 'OUTPUT', 'half']);
+    assert.deepEqual([resources.getTexture('half').width, resources.getTexture('half').height], [64, 32]);
+    assert.deepEqual(log.destroyed, ['INPUT', 'OUTPUT', 'half']);
+    // Fixed-size textures and buffers are kept / 固定尺寸的紋理與緩衝區維持不變
+    assert.equal(resources.getTexture('lut'), lut);
+    assert.equal(log.buffers, buffers);
+});
+
+test('the same size reallocates nothing, and a shared texture replaces the owned one', () => {
+    const { log, resources } = manager();
+    const shaderInfo = parse(SOURCE);
+    resources.initialize(shaderInfo, external(64, 32));
+
+    assert.deepEqual(resources.resize(shaderInfo, external(64, 32)), []);
+
+    const shared = { width: 64, height: 32, createView: () => ({}), destroy: () => assert.fail('shared textures are not destroyed') };
+    const resized = resources.resize(shaderInfo, { ...external(64, 32), textures: { ...external(64, 32).textures, INPUT: shared } });
+    assert.deepEqual(resized, ['INPUT']);
+    assert.equal(resources.getTexture('INPUT'), shared);
+    assert.deepEqual(log.destroyed, ['INPUT']);
+    resources.dispose();
+});
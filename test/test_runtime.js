@@ -88,11 +88,29 @@ async function main() {
             console.log(`Pass '${passName}' dispatched.`);
         }
 
+        device.queue.submit([commandEncoder.finish()]);
+
         // 6. Get the output texture view.
         console.log("Getting output texture view...");
         const outputView = runtime.getOutput();
         console.log("Output texture view obtained:", outputView);
 
+        // 7. Read the output back to the CPU.
+        console.log("Reading output pixels...");
+        const outputTexture = runtime.resourceManager.getTexture('OUTPUT');
+        const pixels = await runtime.readPixels('OUTPUT', { format: 'rgba8' });
+        const expectedLength = outputTexture.width * outputTexture.height * 4;
+        if (pixels.length !== expectedLength) {
+            throw new Error(`Expected ${expectedLength} values from readPixels, got ${pixels.length}`);
+        }
+        console.log(`Read ${outputTexture.width}x${outputTexture.height} pixels, first pixel:`, Array.from(pixels.subarray(0, 4)));
+
+        const region = await runtime.readPixels('OUTPUT', { format: 'rgba32f', rect: { x: 8, y: 8, width: 3, height: 2 } });
+        if (region.length !== 3 * 2 * 4) {
+            throw new Error(`Expected 24 values from a 3x2 readPixels, got ${region.length}`);
+        }
+        console.log("Float region read:", Array.from(region.subarray(0, 4)));
+
         console.log("\n--- Test Summary ---");
         console.log("The runtime test completed successfully.");
         console.log("This demonstrates that the WGFX runtime can:");
@@ -101,6 +119,7 @@ async function main() {
         console.log("  - Create real GPU resources and pipelines.");
         console.log("  - Dispatch multiple compute passes in sequence.");
         console.log("  - Return an output texture view.");
+        console.log("  - Read output pixels back to the CPU.");
 
     } catch (error) {
         console.error("\n--- Test Failed ---");
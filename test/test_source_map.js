@@ -0,0 +1,56 @@
+// test_source_map.js
+// Behaviour of the mapping from generated WGSL lines back to the effect source.
+// 由產生之 WGSL 行對應回特效原始碼的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, WGSLCodeGenerator, PipelineManager } from '../dist/wgfx.esm.js';
+
+const SOURCE = `//! VERSION 4
+
+//! COMMON
+fn helper(x: f32) -> f32 {
+    return x * 2.0;
+}
+
+//! TEXTURE
+var OUTPUT: texture_storage_2d<rgba16float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, id.xy, vec4<f32>(helper(0.5)));
+}`;
+
+/** Generate the module and return it with a finder for 1-based generated lines / 產生模組並回傳以行號 (從 1 開始) 查找的函式 */
+function generate(source) {
+    const { shaderInfo, sourceMap } = parse(source, { recover: true });
+    const [module] = new WGSLCodeGenerator().generate(shaderInfo, sourceMap);
+    const lines = module.wgslCode.split('\n');
+    return { module, lineOf: text => lines.findIndex(l => l.includes(text)) + 1 };
+}
+
+test('COMMON and pass lines map to their effect lines and block', () => {
+    const { module, lineOf } = generate(SOURCE);
+
+    assert.deepEqual(module.lineMap[lineOf('fn helper') - 1], { line: 4, block: 'COMMON' });
+    assert.deepEqual(module.lineMap[lineOf('return x * 2.0') - 1], { line: 5, block: 'COMMON' });
+    assert.deepEqual(module.lineMap[lineOf('textureStore(') - 1], { line: 15, block: 'PASS 1' });
+});
+
+test('generated declarations have no origin', () => {
+    const { module, lineOf } = generate(SOURCE);
+
+    assert.equal(module.lineMap[lineOf('var OUTPUT:') - 1], null);
+    assert.equal(module.lineMap[lineOf('// --- COMMON CODE ---') - 1], null);
+});
+
+test('compiler positions translate to effect locations', () => {
+    const { module, lineOf } = generate(SOURCE);
+    const pipelines = new PipelineManager({}, null);
+
+    assert.deepEqual(pipelines.mapLocation(module, lineOf('textureStore('), 5), { line: 15, block: 'PASS 1', column: 5 });
+    assert.equal(pipelines.mapLocation(module, lineOf('var OUTPUT:'), 1), undefined);
+    assert.equal(pipelines.mapLocation(module, 0, 1), undefined);
+});
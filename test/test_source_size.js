@@ -0,0 +1,26 @@
+// test_source_size.js
+// Behaviour of input size detection for the source types WGFX.process accepts.
+// WGFX.process 可接受之輸入來源的尺寸偵測行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WGFX } from '../dist/wgfx.esm.js';
+
+test('textures, bitmaps and canvases report width and height', () => {
+    assert.deepEqual(WGFX.sourceSize({ width: 640, height: 360 }), [640, 360]);
+});
+
+test('video elements and frames report their display size', () => {
+    // Browser-only source types, defined for this test / 僅存在於瀏覽器的來源型別，於此測試中定義
+    class HTMLVideoElement { videoWidth = 1920; videoHeight = 1080; width = 300; height = 150; }
+    class VideoFrame { displayWidth = 1280; displayHeight = 720; codedWidth = 1280; codedHeight = 736; }
+    globalThis.HTMLVideoElement = HTMLVideoElement;
+    globalThis.VideoFrame = VideoFrame;
+    try {
+        assert.deepEqual(WGFX.sourceSize(new HTMLVideoElement()), [1920, 1080]);
+        assert.deepEqual(WGFX.sourceSize(new VideoFrame()), [1280, 720]);
+    } finally {
+        delete globalThis.HTMLVideoElement;
+        delete globalThis.VideoFrame;
+    }
+});
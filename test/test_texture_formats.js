@@ -0,0 +1,83 @@
+// test_texture_formats.js
+// Behaviour of //! FORMAT: name resolution, texture creation and the bindings generated for each format.
+// //! FORMAT 的行為測試：名稱解析、紋理建立，以及依格式產生的綁定。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, TextureFormats, ResourceManager, WGSLCodeGenerator } from '../dist/wgfx.esm.js';
+
+// WebGPU flag constants are absent outside the browser / 瀏覽器外沒有 WebGPU 旗標常數
+globalThis.GPUTextureUsage ??= { COPY_SRC: 0x01, COPY_DST: 0x02, TEXTURE_BINDING: 0x04, STORAGE_BINDING: 0x08, RENDER_ATTACHMENT: 0x10 };
+globalThis.GPUBufferUsage ??= { MAP_READ: 0x0001, COPY_DST: 0x0008, UNIFORM: 0x0040 };
+
+const SOURCE = `//! TEXTURE
+var INPUT: texture_2d<f32>;
+
+//! TEXTURE
+//! WIDTH INPUT_WIDTH
+//! HEIGHT INPUT_HEIGHT
+//! FORMAT R32_FLOAT
+var depth: texture_2d<f32>;
+
+//! TEXTURE
+//! WIDTH INPUT_WIDTH
+//! HEIGHT INPUT_HEIGHT
+//! FORMAT rgba8unorm-srgb
+var lut: texture_2d<f32>;
+
+//! TEXTURE
+//! FORMAT rgba32float
+var OUTPUT: texture_storage_2d<rgba32float, write>;
+
+//! PASS 1
+//! IN INPUT
+//! OUT depth
+fn Pass1(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(depth, id.xy, textureLoad(INPUT, id.xy, 0));
+}
+
+//! PASS 2
+//! IN depth, lut
+//! OUT OUTPUT
+fn Pass2(@builtin(global_invocation_id) id: vec3<u32>) {
+    textureStore(OUTPUT, id.xy, textureLoad(depth, id.xy, 0) + textureLoad(lut, id.xy, 0));
+}`;
+
+test('WebGPU and Magpie names resolve case-insensitively', () => {
+    assert.deepEqual(TextureFormats.resolve('R16G16B16A16_FLOAT'), { format: 'rgba16float', storage: true, filterable: true, readWrite: 'texture-formats-tier2' });
+    assert.equal(TextureFormats.resolve(' r11g11b10_float ').format, 'rg11b10ufloat');
+    assert.equal(TextureFormats.resolve('RG16Float').format, 'rg16float');
+    assert.deepEqual(TextureFormats.resolve('r32float'), { format: 'r32float', storage: true, filterable: false, readWrite: 'core' });
+    assert.equal(TextureFormats.resolve().format, TextureFormats.DEFAULT);
+    assert.equal(TextureFormats.resolve('rgb8'), undefined);
+});
+
+test('textures are created in their declared format, storable ones with storage usage', () => {
+    const created = [];
+    const device = {
+        createTexture: descriptor => (created.push(descriptor), { ...descriptor, createView: () => ({}), destroy: () => {} }),
+        createBuffer: () => ({ destroy: () => {} }),
+        queue: { writeBuffer: () => {} }
+    };
+    new ResourceManager(device).initialize(parse(SOURCE), {
+        defines: { INPUT_WIDTH: 4, INPUT_HEIGHT: 2 },
+        textures: {
+            INPUT: { size: [4, 2], format: 'rgba8unorm', usage: GPUTextureUsage.TEXTURE_BINDING },
+            OUTPUT: { size: [4, 2], format: 'rgba16float', usage: GPUTextureUsage.STORAGE_BINDING }
+        }
+    });
+
+    // The declared //! FORMAT wins over the host default / 宣告的 //! FORMAT 優先於宿主預設值
+    assert.deepEqual(created.map(d => [d.format, (d.usage & GPUTextureUsage.STORAGE_BINDING) !== 0]), [
+        ['rgba8unorm', false], ['rgba32float', true], ['r32float', true], ['rgba8unorm-srgb', false]
+    ]);
+});
+
+test('bindings carry the storage format and the sample type of each texture', () => {
+    const modules = new WGSLCodeGenerator().generate(parse(SOURCE));
+    const textures = modules.map(m => m.resources.bindings.filter(b => b.resource !== 'scene'));
+
+    assert.match(modules[0].wgslCode, /var depth: texture_storage_2d<r32float, write>;/);
+    assert.deepEqual(textures[0].map(b => [b.name, b.format ?? b.sampleType]), [['INPUT', 'float'], ['depth', 'r32float']]);
+    assert.deepEqual(textures[1].map(b => [b.name, b.format ?? b.sampleType]), [['depth', 'unfilterable-float'], ['lut', 'float'], ['OUTPUT', 'rgba32float']]);
+});
@@ -0,0 +1,73 @@
+// test_uniform_layout.js
+// Behaviour of the uniform buffer layout: WGSL alignment and value encoding.
+// Uniform 緩衝區佈局的行為測試：WGSL 對齊與數值編碼。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UniformLayout } from '../dist/wgfx.esm.js';
+
+const PARAMETERS = [
+    { name: 'strength', type: 'float' },
+    { name: 'tint', type: 'float3' },
+    { name: 'radius', type: 'int' },
+    { name: 'offset', type: 'float2' },
+    { name: 'enabled', type: 'bool' },
+];
+
+test('fields follow the WGSL alignment rules', () => {
+    const layout = new UniformLayout(PARAMETERS);
+
+    assert.deepEqual(layout.fields.map(f => [f.name, f.offset, f.size, f.align]), [
+        ['strength', 0, 4, 4],
+        ['tint', 16, 12, 16],
+        ['radius', 28, 4, 4],
+        ['offset', 32, 8, 8],
+        ['enabled', 40, 4, 4],
+    ]);
+    assert.equal(layout.size, 48);
+    assert.equal(layout.getField('enabled').wgslType, 'u32');
+    assert.equal(layout.getField('missing'), undefined);
+});
+
+test('the size is a non-zero multiple of 16', () => {
+    assert.equal(new UniformLayout([]).size, 16);
+    assert.equal(new UniformLayout([{ name: 'a' }]).size, 16);
+    assert.equal(new UniformLayout([{ name: 'a', type: 'float4' }, { name: 'b' }]).size, 32);
+});
+
+test('the struct lists the members in declaration order', () => {
+    assert.equal(new UniformLayout(PARAMETERS).toStruct(), `// Uniform Parameters / Uniform 參數
+struct Uniforms {
+    strength: f32,
+    tint: vec3<f32>,
+    radius: i32,
+    offset: vec2<f32>,
+    enabled: u32,
+};
+`);
+    assert.equal(new UniformLayout([]).toStruct(), '');
+});
+
+test('unsupported types are rejected', () => {
+    assert.throws(() => new UniformLayout([{ name: 'm', type: 'float4x4' }]), /unsupported type "float4x4"/);
+    assert.throws(() => new UniformLayout([{ name: 'b', type: 'bool2' }]), /unsupported type "bool2"/);
+});
+
+test('values are encoded with the scalar type of their field', () => {
+    const layout = new UniformLayout([...PARAMETERS, { name: 'count', type: 'uint' }]);
+
+    assert.deepEqual([...new Float32Array(layout.encode('tint', [1, 0.5, 0.25]))], [1, 0.5, 0.25]);
+    assert.deepEqual([...new Int32Array(layout.encode('radius', -2.7))], [-2]);
+    assert.deepEqual([...new Uint32Array(layout.encode('count', 3))], [3]);
+    assert.deepEqual([...new Uint32Array(layout.encode('enabled', true))], [1]);
+    assert.deepEqual([...new Uint32Array(layout.encode('enabled', 0))], [0]);
+});
+
+test('invalid values are rejected', () => {
+    const layout = new UniformLayout([...PARAMETERS, { name: 'count', type: 'uint' }]);
+
+    assert.throws(() => layout.encode('missing', 1), /Uniform "missing" not found/);
+    assert.throws(() => layout.encode('tint', [1, 2]), /expects 3 value\(s\), got 2/);
+    assert.throws(() => layout.encode('strength', NaN), /expects finite numbers/);
+    assert.throws(() => layout.encode('count', -1), /cannot be negative/);
+});
@@ -0,0 +1,157 @@
+// test_validator.js
+// Behaviour of the semantic validator on parsed effects.
+// 語意驗證器對解析後特效的行為測試。
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parse, ShaderValidator, WGSLCodeGenerator } from '../dist/wgfx.esm.js';
+
+const EXTERNAL = ['INPUT', 'OUTPUT'];
+
+/** Validate a source and return the issue codes / 驗證原始碼並回傳問題代碼 */
+function codes(source, options) {
+    return new ShaderValidator().validate(parse(source), EXTERNAL, options).map(i => i.code);
+}
+
+test('a valid effect has no issues', () => {
+    assert.deepEqual(codes(`//! TEXTURE
+//! FORMAT rgba16float
+var tmp: texture_2d<f32>;
+//! PASS 1
+//! IN INPUT
+//! OUT tmp
+//! PASS 2
+//! IN tmp
+//! OUT OUTPUT
+`), []);
+});
+
+test('undeclared textures, missing outputs and an unwritten OUTPUT are errors', () => {
+    assert.deepEqual(codes(`//! PASS 1
+//! IN missing
+//! OUT tmp
+//! PASS 2
+//! IN INPUT
+`), ['unknown-texture', 'unknown-texture', 'missing-output', 'output-not-written']);
+});
+
+test('TEXTURE and SAMPLER blocks without a var declaration are located', () => {
+    const { shaderInfo, sourceMap } = parse(`//! TEXTURE
+//! FORMAT rgba8unorm
+Texture2D tmp;
+
+//! SAMPLER
+//! FILTER LINEAR
+SamplerState sam;
+
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+`, { recover: true });
+    const issues = new ShaderValidator().validate(shaderInfo, EXTERNAL, { sourceMap });
+
+    assert.deepEqual(issues.map(i => i.code), ['missing-name', 'missing-name']);
+    assert.match(issues[0].message, /^\/\/! TEXTURE block at line 1 has no var declaration/);
+    assert.match(issues[1].message, /^\/\/! SAMPLER block at line 5 has no var declaration/);
+});
+
+test('nameless blocks removed by //! IF are still reported', () => {
+    const parsed = parse('//! IF FAST\n//! TEXTURE\nTexture2D tmp;\n//! ENDIF\n//! PASS 1\n//! IN INPUT\n//! OUT OUTPUT\n');
+    const resolved = new WGSLCodeGenerator().resolveConditionals(parsed, {});
+
+    assert.deepEqual(resolved.textures, []);
+    assert.deepEqual(new ShaderValidator().validate(resolved, EXTERNAL, { declared: parsed }).map(i => i.code), ['missing-name']);
+});
+
+test('duplicate names are reported once per name', () => {
+    assert.deepEqual(codes(`//! TEXTURE
+var a: texture_2d<f32>;
+//! TEXTURE
+var a: texture_2d<f32>;
+//! TEXTURE
+var a: texture_2d<f32>;
+//! SAMPLER
+var s: sampler;
+//! SAMPLER
+var s: sampler;
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+`), ['duplicate-texture', 'duplicate-sampler']);
+});
+
+test('pass indices must be unique and contiguous from 1', () => {
+    assert.deepEqual(codes(`//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! PASS 3
+//! IN INPUT
+//! OUT OUTPUT
+`), ['duplicate-pass-index', 'non-contiguous-passes']);
+});
+
+test('passes removed by //! IF still count as declared for contiguity', () => {
+    const parsed = parse(`//! PASS 1
+//! IN INPUT
+//! OUT OUTPUT
+//! IF FAST
+//! PASS 2
+//! IN INPUT
+//! OUT OUTPUT
+//! ELSE
+//! PASS 2
+//! IN OUTPUT
+//! OUT OUTPUT
+//! ENDIF
+//! PASS 3
+//! IN INPUT
+//! OUT OUTPUT
+`);
+    const resolved = new WGSLCodeGenerator().resolveConditionals(parsed, { FAST: 1 });
+    const issues = new ShaderValidator().validate(resolved, EXTERNAL, { declared: parsed });
+
+    assert.deepEqual(resolved.passes.map(p => p.index), [1, 2, 3]);
+    assert.deepEqual(issues, []);
+});
+
+test('written textures need a storable format', () => {
+    assert.deepEqual(codes(`//! TEXTURE
+//! FORMAT rgba8unorm-srgb
+var tmp: texture_2d<f32>;
+//! TEXTURE
+//! FORMAT not-a-format
+var odd: texture_2d<f32>;
+//! PASS 1
+//! IN INPUT
+//! OUT tmp
+//! PASS 2
+//! IN tmp
+//! OUT OUTPUT
+`), ['format-not-storable', 'unknown-format']);
+});
+
+test('reading and writing a texture is checked against the read_write formats', () => {
+    const source = `//! TEXTURE
+//! FORMAT rgba16float
+var acc: texture_2d<f32>;
+//! PASS 1
+//! IN INPUT, acc
+//! OUT acc, OUTPUT
+`;
+    assert.deepEqual(codes(source), []);
+    assert.deepEqual(codes(source, { readWriteFormats: new Set(['r32float']) }), ['read-write-unsupported']);
+    assert.deepEqual(codes(source, { readWriteFormats: new Set(['rgba16float']) }), []);
+});
+
+test('PS passes write a single texture', () => {
+    assert.deepEqual(codes(`//! TEXTURE
+var a: texture_2d<f32>;
+//! PASS 1
+//! STYLE PS
+//! IN INPUT
+//! OUT a, OUTPUT
+`), ['ps-multiple-outputs']);
+});